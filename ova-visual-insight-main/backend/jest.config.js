@@ -0,0 +1,17 @@
+// Sources are ESM with .js import suffixes; ts-jest compiles them and the mapper resolves the suffix to the .ts file
+export default {
+  preset: 'ts-jest/presets/default-esm',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { useESM: true, tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  // Tests may spawn Python, which is slow to start
+  testTimeout: 30000,
+  // Not every module has tests yet
+  passWithNoTests: true
+};
@@ -1,17 +1,24 @@
+// Loaded before the other imports: services such as the provider registry read the environment while their modules load
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import { fileUploadRoutes } from './controllers/fileUploadController.js';
 import { analysisRoutes } from './controllers/analysisController.js';
 import { resultsRoutes } from './controllers/resultsController.js';
+import { historyRoutes } from './controllers/historyController.js';
+import { reportRoutes } from './controllers/reportController.js';
+import { dashboardRoutes } from './controllers/dashboardController.js';
+import { authRoutes } from './controllers/authController.js';
+import { workspaceRoutes } from './controllers/workspaceController.js';
+import { shareRoutes } from './controllers/shareController.js';
+import { publicShareRoutes } from './controllers/publicShareController.js';
 import { errorHandler } from './middleware/errorHandler.js';
-
-// Load environment variables
-dotenv.config();
+import { requireAuth } from './middleware/auth.js';
+import { requireWorkspace } from './middleware/workspace.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -29,10 +36,21 @@ app.use(cors({
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  // Job status polling would otherwise use up the allowance during a single long analysis
+  skip: (req) => req.method === 'GET' && req.path.startsWith('/analyze/jobs/')
 });
 app.use('/api/', limiter);
 
+// Password guessing gets a much smaller allowance than the rest of the API
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: 'Too many authentication attempts from this IP, please try again later.',
+  skip: (req) => req.method === 'GET' || req.path === '/refresh' || req.path === '/logout'
+});
+app.use('/api/auth', authLimiter);
+
 // Body parsing middleware
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
@@ -48,10 +66,18 @@ app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
-// API routes
-app.use('/api/upload', fileUploadRoutes);
-app.use('/api/analyze', analysisRoutes);
-app.use('/api/results', resultsRoutes);
+// API routes; everything but signing in and share links needs a user, and reads and writes go to the selected workspace
+app.use('/api/auth', authRoutes);
+app.use('/api/upload', requireAuth, requireWorkspace, fileUploadRoutes);
+app.use('/api/analyze', requireAuth, requireWorkspace, analysisRoutes);
+app.use('/api/results', requireAuth, requireWorkspace, resultsRoutes);
+app.use('/api/history', requireAuth, requireWorkspace, historyRoutes);
+app.use('/api/reports', requireAuth, requireWorkspace, reportRoutes);
+app.use('/api/dashboards', requireAuth, requireWorkspace, dashboardRoutes);
+app.use('/api/shares', requireAuth, requireWorkspace, shareRoutes);
+app.use('/api/workspaces', requireAuth, workspaceRoutes);
+// Share links are opened without an account
+app.use('/api/public/shares', publicShareRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
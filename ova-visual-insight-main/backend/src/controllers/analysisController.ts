@@ -2,93 +2,346 @@ import { Router, Request, Response } from 'express';
 import { AIService } from '../services/aiService.js';
 import { PythonSandboxService } from '../services/pythonSandboxService.js';
 import { FileProcessingService } from '../services/fileProcessingService.js';
+import { CodeSafetyService } from '../services/codeSafetyService.js';
+import { AIResponseParseError } from '../services/aiResponseSchema.js';
+import { AnalysisJobService, AnalysisJob, AnalysisJobEvent, AnalysisJobInput, AnalysisJobStatus, ANALYSIS_OUTPUT_FORMATS, PYTHON_OUTPUT_FORMATS } from '../services/analysisJobService.js';
+import { AnalysisSessionService, AnalysisSession } from '../services/analysisSessionService.js';
+import { ChartOwnershipService } from '../services/chartOwnershipService.js';
+import { workspaceOf } from '../services/workspaceService.js';
+import { authorize } from '../middleware/workspace.js';
 
 const router = Router();
 const aiService = new AIService();
 const pythonSandboxService = new PythonSandboxService();
 const fileProcessingService = new FileProcessingService();
+const codeSafetyService = new CodeSafetyService();
+const analysisJobService = new AnalysisJobService();
+const analysisSessionService = new AnalysisSessionService();
+const chartOwnershipService = new ChartOwnershipService();
 
-// Analyze data with AI and generate visualization
-router.post('/visualize', async (req: Request, res: Response) => {
+// Validates a job submission body; returns the error message or null
+const validateJobInput = (body: Partial<AnalysisJobInput>): string | null => {
+  if (!body.query || !body.datasetId || !body.aiModel || !body.outputFormat) {
+    return 'Missing required fields: query, datasetId, aiModel, outputFormat';
+  }
+  if (!aiService.hasModel(body.aiModel)) {
+    return `Unknown AI model: ${body.aiModel}`;
+  }
+  if (!ANALYSIS_OUTPUT_FORMATS.includes(body.outputFormat)) {
+    return `outputFormat must be one of: ${ANALYSIS_OUTPUT_FORMATS.join(', ')}`;
+  }
+  return null;
+};
+
+// Maps a finished job to the status code the synchronous endpoint has always used
+const statusForJob = (job: AnalysisJob): number => {
+  if (job.status === 'done') return 200;
+  if (job.errorCode === 'DATASET_NOT_FOUND') return 404;
+  if (job.errorCode === 'UNSAFE_CODE') return 422;
+  if (job.errorCode === 'INVALID_MODEL_RESPONSE') return 502;
+  if (job.errorCode === 'GENERATION_FAILED' || job.errorCode === 'INTERRUPTED') return 500;
+  return 400;
+};
+
+// Submit an analysis job; poll GET /jobs/:id for its progress and results
+router.post('/jobs', async (req: Request, res: Response) => {
   try {
+    const validationError = validateJobInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
     const { query, datasetId, aiModel, outputFormat } = req.body;
+    // Analyses belong to the workspace of their dataset
+    const dataset = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found');
+    if (!dataset) {
+      return;
+    }
+    const job = analysisJobService.submit({ ownerId: req.user!.id, workspaceId: workspaceOf(dataset)!, query, datasetId, aiModel, outputFormat });
 
-    // Validate required fields
-    if (!query || !datasetId || !aiModel || !outputFormat) {
-      return res.status(400).json({
-        error: 'Missing required fields: query, datasetId, aiModel, outputFormat'
-      });
+    res.status(202).json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    console.error('Job submission error:', error);
+    res.status(500).json({
+      error: 'Failed to submit analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List recent jobs, optionally filtered by status
+router.get('/jobs', (req: Request, res: Response) => {
+  const status = typeof req.query.status === 'string' ? req.query.status as AnalysisJobStatus : undefined;
+
+  res.json({
+    jobs: analysisJobService.listJobs(req.workspace!.id, status)
+  });
+});
+
+router.get('/jobs/:jobId', (req: Request, res: Response) => {
+  const job = authorize(req, res, analysisJobService.getJob(req.params.jobId), 'viewer', 'Job not found');
+  if (!job) {
+    return;
+  }
+
+  res.json({ job });
+});
+
+// Server-sent events for a job: a snapshot first, then every status change, token, stdout line and chart
+router.get('/jobs/:jobId/events', (req: Request, res: Response) => {
+  const job = authorize(req, res, analysisJobService.getJob(req.params.jobId), 'viewer', 'Job not found');
+  if (!job) {
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  // The compression middleware buffers writes until flushed
+  const send = (type: string, data: unknown) => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    (res as Response & { flush?: () => void }).flush?.();
+  };
+
+  send('snapshot', { job, progress: analysisJobService.getProgress(job.id) || { text: '', output: [] } });
+  if (analysisJobService.isFinished(job)) {
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+    (res as Response & { flush?: () => void }).flush?.();
+  }, 15000);
+
+  const unsubscribe = analysisJobService.subscribe(job.id, (event: AnalysisJobEvent) => {
+    send(event.type, event);
+    if (event.type === 'status' && analysisJobService.isFinished(event.job)) {
+      cleanup();
+      res.end();
     }
+  });
 
-    // Get dataset info
-    const datasetInfo = await fileProcessingService.getDatasetInfo(datasetId);
-    if (!datasetInfo) {
-      return res.status(404).json({
-        error: 'Dataset not found'
-      });
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  req.on('close', cleanup);
+});
+
+router.post('/jobs/:jobId/cancel', (req: Request, res: Response) => {
+  if (!authorize(req, res, analysisJobService.getJob(req.params.jobId), 'editor', 'Job not found')) {
+    return;
+  }
+
+  const job = analysisJobService.cancel(req.params.jobId)!;
+  if (job.status !== 'cancelled') {
+    return res.status(409).json({ error: `Job already ${job.status}`, job });
+  }
+
+  res.json({
+    success: true,
+    job
+  });
+});
+
+// Turns with the job of their latest run, so a conversation can be shown in one request
+const withJobs = (session: AnalysisSession) => ({
+  ...session,
+  turns: session.turns.map(turn => ({ ...turn, job: analysisJobService.getJob(turn.jobId) || null }))
+});
+
+// Start a conversation about a dataset; turns added to it see the questions and results before them
+router.post('/sessions', async (req: Request, res: Response) => {
+  try {
+    const { datasetId, title } = req.body;
+    if (!datasetId) {
+      return res.status(400).json({ error: 'Missing required field: datasetId' });
+    }
+    const dataset = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found');
+    if (!dataset) {
+      return;
     }
 
-    // Prepare dataset info for AI
-    const datasetInfoForAI = {
-      columns: datasetInfo.columns,
-      sampleData: datasetInfo.sampleData,
-      dataTypes: datasetInfo.dataTypes,
-      rowCount: datasetInfo.rowCount
-    };
+    res.status(201).json({
+      success: true,
+      session: withJobs(analysisSessionService.createSession(req.user!.id, workspaceOf(dataset)!, datasetId, typeof title === 'string' ? title : undefined))
+    });
+  } catch (error) {
+    console.error('Session creation error:', error);
+    res.status(500).json({
+      error: 'Failed to create analysis session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    // Get AI analysis
-    const aiResponse = await aiService.analyzeData({
-      query,
-      datasetInfo: datasetInfoForAI,
-      model: aiModel
+// List sessions, most recently active first, optionally for one dataset
+router.get('/sessions', (req: Request, res: Response) => {
+  const datasetId = typeof req.query.datasetId === 'string' ? req.query.datasetId : undefined;
+
+  res.json({
+    sessions: analysisSessionService.listSessions(req.workspace!.id, datasetId).map(({ turns, ...session }) => ({
+      ...session,
+      turnCount: turns.length
+    }))
+  });
+});
+
+router.get('/sessions/:sessionId', (req: Request, res: Response) => {
+  const session = authorize(req, res, analysisSessionService.getSession(req.params.sessionId), 'viewer', 'Session not found');
+  if (!session) {
+    return;
+  }
+
+  res.json({ session: withJobs(session) });
+});
+
+router.delete('/sessions/:sessionId', (req: Request, res: Response) => {
+  const session = authorize(req, res, analysisSessionService.getSession(req.params.sessionId), 'editor', 'Session not found');
+  if (!session) {
+    return;
+  }
+  analysisSessionService.deleteSession(session.id);
+
+  res.json({ success: true });
+});
+
+// Ask a follow-up question; the job is submitted like POST /jobs and runs with the earlier turns as context
+router.post('/sessions/:sessionId/turns', (req: Request, res: Response) => {
+  try {
+    const session = authorize(req, res, analysisSessionService.getSession(req.params.sessionId), 'editor', 'Session not found');
+    if (!session) {
+      return;
+    }
+
+    const validationError = validateJobInput({ ...req.body, datasetId: session.datasetId });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { query, aiModel, outputFormat } = req.body;
+    const turn = analysisSessionService.addTurn(session.id, query)!;
+    const job = analysisJobService.submit({
+      ownerId: req.user!.id, workspaceId: workspaceOf(session)!, query, datasetId: session.datasetId, aiModel, outputFormat, sessionId: session.id, turnId: turn.id
     });
 
-    // Execute Python code in sandbox
-    const executionResult = await pythonSandboxService.executePythonCode({
-      pythonCode: aiResponse.pythonCode,
-      datasetPath: datasetInfo.filePath,
-      outputFormat
+    res.status(202).json({
+      success: true,
+      turn: { ...analysisSessionService.setTurnJob(session.id, turn.id, job.id), job }
     });
+  } catch (error) {
+    console.error('Session turn error:', error);
+    res.status(500).json({
+      error: 'Failed to submit session turn',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    if (executionResult.success && executionResult.chartPath) {
-      res.json({
+// Run a turn again with the same question, optionally on another model or format; later turns keep their results
+router.post('/sessions/:sessionId/turns/:turnId/rerun', (req: Request, res: Response) => {
+  try {
+    const session = authorize(req, res, analysisSessionService.getSession(req.params.sessionId), 'editor', 'Session turn not found');
+    if (!session) {
+      return;
+    }
+    const turn = session.turns.find(candidate => candidate.id === req.params.turnId);
+    if (!turn) {
+      return res.status(404).json({ error: 'Session turn not found' });
+    }
+
+    const previous = analysisJobService.getJob(turn.jobId);
+    const aiModel = req.body.aiModel || previous?.aiModel;
+    const outputFormat = req.body.outputFormat || previous?.outputFormat;
+    const validationError = validateJobInput({ query: turn.query, datasetId: session.datasetId, aiModel, outputFormat });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const job = analysisJobService.submit({
+      ownerId: req.user!.id, workspaceId: workspaceOf(session)!, query: turn.query, datasetId: session.datasetId, aiModel, outputFormat, sessionId: session.id, turnId: turn.id
+    });
+
+    res.status(202).json({
+      success: true,
+      turn: { ...analysisSessionService.setTurnJob(session.id, turn.id, job.id), job }
+    });
+  } catch (error) {
+    console.error('Session rerun error:', error);
+    res.status(500).json({
+      error: 'Failed to re-run session turn',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Analyze data with AI and generate visualization, waiting for the job to finish
+router.post('/visualize', async (req: Request, res: Response) => {
+  try {
+    const validationError = validateJobInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { query, datasetId, aiModel, outputFormat, sessionId } = req.body;
+    // An optional session makes the call a turn of that conversation
+    const session = sessionId ? authorize(req, res, analysisSessionService.getSession(sessionId), 'editor', 'Session not found') : undefined;
+    if (sessionId && !session) {
+      return;
+    }
+    if (session && session.datasetId !== datasetId) {
+      return res.status(400).json({ error: 'Session belongs to another dataset' });
+    }
+    const dataset = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found');
+    if (!dataset) {
+      return;
+    }
+
+    const turn = session ? analysisSessionService.addTurn(session.id, query) : undefined;
+    const submitted = analysisJobService.submit({
+      ownerId: req.user!.id,
+      workspaceId: workspaceOf(dataset)!,
+      query,
+      datasetId,
+      aiModel,
+      outputFormat,
+      sessionId: session?.id,
+      turnId: turn?.id
+    });
+    if (session && turn) {
+      analysisSessionService.setTurnJob(session.id, turn.id, submitted.id);
+    }
+
+    // Dropping the connection cancels the job rather than leaving it running unseen
+    const onClose = () => analysisJobService.cancel(submitted.id);
+    res.on('close', onClose);
+    const job = await analysisJobService.waitFor(submitted.id);
+    res.off('close', onClose);
+
+    if (job.status === 'done') {
+      return res.json({
         success: true,
-        analysis: {
-          id: aiResponse.id,
-          query,
-          analysis: aiResponse.analysis,
-          visualizationType: aiResponse.visualizationType,
-          explanation: aiResponse.explanation,
-          timestamp: aiResponse.timestamp
-        },
-        chart: {
-          path: executionResult.chartPath,
-          format: outputFormat,
-          data: executionResult.chartData
-        },
-        execution: {
-          output: executionResult.output,
-          success: true
-        }
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        analysis: {
-          id: aiResponse.id,
-          query,
-          analysis: aiResponse.analysis,
-          visualizationType: aiResponse.visualizationType,
-          explanation: aiResponse.explanation,
-          timestamp: aiResponse.timestamp
-        },
-        error: executionResult.error || 'Chart generation failed',
-        execution: {
-          output: executionResult.output,
-          success: false
-        }
+        jobId: job.id,
+        turnId: turn?.id,
+        ...job.result
       });
     }
+
+    res.status(statusForJob(job)).json({
+      success: false,
+      jobId: job.id,
+      turnId: turn?.id,
+      ...job.result,
+      error: job.error || 'Chart generation failed',
+      errorCode: job.errorCode
+    });
   } catch (error) {
     console.error('Analysis error:', error);
     res.status(500).json({
@@ -108,18 +361,22 @@ router.post('/preview', async (req: Request, res: Response) => {
         error: 'Missing required fields: query, datasetId, aiModel'
       });
     }
+    if (!aiService.hasModel(aiModel)) {
+      return res.status(400).json({
+        error: `Unknown AI model: ${aiModel}`
+      });
+    }
 
-    const datasetInfo = await fileProcessingService.getDatasetInfo(datasetId);
+    const datasetInfo = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found');
     if (!datasetInfo) {
-      return res.status(404).json({
-        error: 'Dataset not found'
-      });
+      return;
     }
 
     const datasetInfoForAI = {
       columns: datasetInfo.columns,
       sampleData: datasetInfo.sampleData,
       dataTypes: datasetInfo.dataTypes,
+      columnTypes: datasetInfo.columnTypes,
       rowCount: datasetInfo.rowCount
     };
 
@@ -139,10 +396,18 @@ router.post('/preview', async (req: Request, res: Response) => {
         visualizationType: aiResponse.visualizationType,
         explanation: aiResponse.explanation,
         timestamp: aiResponse.timestamp
-      }
+      },
+      safety: await codeSafetyService.analyze(aiResponse.pythonCode)
     });
   } catch (error) {
     console.error('Analysis preview error:', error);
+    if (error instanceof AIResponseParseError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        errorCode: 'INVALID_MODEL_RESPONSE',
+        issues: error.issues
+      });
+    }
     res.status(500).json({
       error: 'Internal server error during analysis preview',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -161,22 +426,40 @@ router.post('/execute', async (req: Request, res: Response) => {
       });
     }
 
-    const datasetInfo = await fileProcessingService.getDatasetInfo(datasetId);
+    // The format names the chart file and is passed to the script, so only known formats get that far
+    if (!PYTHON_OUTPUT_FORMATS.includes(outputFormat)) {
+      return res.status(400).json({
+        error: `outputFormat must be one of: ${PYTHON_OUTPUT_FORMATS.join(', ')}`
+      });
+    }
+
+    const datasetInfo = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found');
     if (!datasetInfo) {
-      return res.status(404).json({
-        error: 'Dataset not found'
+      return;
+    }
+
+    // User-supplied code goes through the same checks as generated code
+    const safety = await codeSafetyService.analyze(pythonCode);
+    if (!safety.safe) {
+      return res.status(422).json({
+        success: false,
+        error: 'Code was blocked by safety checks',
+        errorCode: 'UNSAFE_CODE',
+        safety
       });
     }
 
     const executionResult = await pythonSandboxService.executePythonCode({
       pythonCode,
-      datasetPath: datasetInfo.filePath,
+      dataset: datasetInfo,
       outputFormat
     });
 
     if (executionResult.success && executionResult.chartPath) {
+      chartOwnershipService.claim(executionResult.chartPath, req.user!.id, workspaceOf(datasetInfo)!);
       res.json({
         success: true,
+        safety,
         chart: {
           path: executionResult.chartPath,
           format: outputFormat,
@@ -190,7 +473,9 @@ router.post('/execute', async (req: Request, res: Response) => {
     } else {
       res.status(400).json({
         success: false,
+        safety,
         error: executionResult.error || 'Code execution failed',
+        errorCode: executionResult.errorCode,
         execution: {
           output: executionResult.output,
           success: false
@@ -206,24 +491,19 @@ router.post('/execute', async (req: Request, res: Response) => {
   }
 });
 
-// Get available AI models
-router.get('/models', (req: Request, res: Response) => {
-  res.json({
-    models: [
-      {
-        id: 'openai',
-        name: 'OpenAI GPT-4',
-        description: 'Advanced language model for complex analysis',
-        capabilities: ['Data analysis', 'Code generation', 'Natural language understanding']
-      },
-      {
-        id: 'gemini',
-        name: 'Google Gemini Pro',
-        description: 'Google\'s multimodal AI model',
-        capabilities: ['Data analysis', 'Code generation', 'Multimodal understanding']
-      }
-    ]
-  });
+// Configured AI models, each with a live reachability check
+router.get('/models', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      models: await aiService.listModels()
+    });
+  } catch (error) {
+    console.error('Model listing error:', error);
+    res.status(500).json({
+      error: 'Failed to list AI models',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
 });
 
 // Get supported output formats
@@ -253,6 +533,18 @@ router.get('/formats', (req: Request, res: Response) => {
         name: 'Interactive HTML',
         description: 'Interactive Plotly charts',
         suitableFor: ['Web dashboards', 'Interactive exploration', 'Sharing']
+      },
+      {
+        id: 'chart-spec',
+        name: 'Native Chart',
+        description: 'Declarative chart spec evaluated on the server and drawn in the app, without running Python',
+        suitableFor: ['Quick exploration', 'Theme-aware charts', 'Tooltips and legends']
+      },
+      {
+        id: 'vega-lite',
+        name: 'Vega-Lite Spec',
+        description: 'Validated Vega-Lite v5 JSON with the aggregated data inlined, without running Python',
+        suitableFor: ['Embedding in other tools', 'Code review diffs', 'Restyling without re-running']
       }
     ]
   });
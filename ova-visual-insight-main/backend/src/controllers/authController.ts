@@ -0,0 +1,139 @@
+import { Router, Request, Response, CookieOptions } from 'express';
+import { AuthService, AuthError, AuthSession } from '../services/authService.js';
+import { requireAuth, readCookie, ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '../middleware/auth.js';
+
+const router = Router();
+const authService = new AuthService();
+
+const MIN_PASSWORD_LENGTH = 8;
+// bcrypt only looks at the first 72 bytes of a password
+const MAX_PASSWORD_LENGTH = 72;
+const MAX_NAME_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const cookieOptions = (path: string, maxAgeSeconds: number): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path,
+  maxAge: maxAgeSeconds * 1000
+});
+
+// The refresh cookie is only sent to the auth routes, which are the only ones that accept it
+const setSessionCookies = (res: Response, session: AuthSession) => {
+  res.cookie(ACCESS_TOKEN_COOKIE, session.accessToken, cookieOptions('/', session.accessTokenExpiresIn));
+  res.cookie(REFRESH_TOKEN_COOKIE, session.refreshToken, cookieOptions('/api/auth', session.refreshTokenExpiresIn));
+};
+
+const clearSessionCookies = (res: Response) => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, { path: '/' });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { path: '/api/auth' });
+};
+
+const validateCredentials = (email: unknown, password: unknown): string | null => {
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    return 'email must be a valid email address';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    return `password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
+
+const handleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof AuthError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`Auth ${action} error:`, error);
+  res.status(500).json({ error: `Internal server error while trying to ${action}` });
+};
+
+// Create an account and start a session for it
+router.post('/signup', async (req: Request, res: Response) => {
+  try {
+    const { email, password, name } = req.body;
+    const validationError = validateCredentials(email, password);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > MAX_NAME_LENGTH)) {
+      return res.status(400).json({ error: `name must be a string of at most ${MAX_NAME_LENGTH} characters` });
+    }
+
+    const session = await authService.signup(email, password, name);
+    setSessionCookies(res, session);
+    res.status(201).json({
+      success: true,
+      ...session
+    });
+  } catch (error) {
+    handleError(res, error, 'sign up');
+  }
+});
+
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body;
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields: email, password' });
+    }
+
+    const session = await authService.login(email, password);
+    setSessionCookies(res, session);
+    res.json({
+      success: true,
+      ...session
+    });
+  } catch (error) {
+    handleError(res, error, 'log in');
+  }
+});
+
+// Exchange the refresh token, from the body or the cookie, for a new access and refresh token
+router.post('/refresh', (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.body.refreshToken || readCookie(req, REFRESH_TOKEN_COOKIE);
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      return res.status(401).json({ error: 'Refresh token required' });
+    }
+
+    const session = authService.refresh(refreshToken);
+    setSessionCookies(res, session);
+    res.json({
+      success: true,
+      ...session
+    });
+  } catch (error) {
+    if (error instanceof AuthError && error.statusCode === 401) {
+      clearSessionCookies(res);
+    }
+    handleError(res, error, 'refresh the session');
+  }
+});
+
+// Revoke the refresh token; the access token stays valid until it expires
+router.post('/logout', (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.body.refreshToken || readCookie(req, REFRESH_TOKEN_COOKIE);
+    if (typeof refreshToken === 'string' && refreshToken) {
+      authService.logout(refreshToken);
+    }
+
+    clearSessionCookies(res);
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    handleError(res, error, 'log out');
+  }
+});
+
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    user: req.user
+  });
+});
+
+export { router as authRoutes };
@@ -0,0 +1,176 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { DashboardService, DashboardError, validateLayout } from '../services/dashboardService.js';
+import { authorize, requireRole } from '../middleware/workspace.js';
+
+const router = Router();
+const dashboardService = new DashboardService();
+
+const MAX_NAME_LENGTH = 100;
+
+const validateName = (name: unknown): string | null => {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name must be a non-empty string';
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+const handleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof DashboardError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`Dashboard ${action} error:`, error);
+  res.status(500).json({ error: `Internal server error while trying to ${action}` });
+};
+
+// Every route below with a dashboard id answers 404 outside the dashboard's workspace;
+// viewers may read it, anything else needs an editor
+router.param('dashboardId', (req: Request, res: Response, next: NextFunction, dashboardId: string) => {
+  const role = req.method === 'GET' ? 'viewer' : 'editor';
+  if (!authorize(req, res, dashboardService.getDashboard(dashboardId), role, 'Dashboard not found')) {
+    return;
+  }
+  next();
+});
+
+// List dashboards, most recently changed first
+router.get('/', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    dashboards: dashboardService.listDashboards(req.workspace!.id)
+  });
+});
+
+router.post('/', requireRole('editor'), (req: Request, res: Response) => {
+  const nameError = validateName(req.body.name);
+  if (nameError) {
+    return res.status(400).json({ error: nameError });
+  }
+
+  res.status(201).json({
+    success: true,
+    dashboard: dashboardService.createDashboard(req.user!.id, req.workspace!.id, req.body.name.trim())
+  });
+});
+
+router.get('/:dashboardId', (req: Request, res: Response) => {
+  const dashboard = dashboardService.getDashboard(req.params.dashboardId);
+  if (!dashboard) {
+    return res.status(404).json({ error: 'Dashboard not found' });
+  }
+
+  res.json({
+    success: true,
+    dashboard
+  });
+});
+
+// Rename a dashboard
+router.patch('/:dashboardId', (req: Request, res: Response) => {
+  const nameError = validateName(req.body.name);
+  if (nameError) {
+    return res.status(400).json({ error: nameError });
+  }
+
+  const dashboard = dashboardService.renameDashboard(req.params.dashboardId, req.body.name.trim());
+  if (!dashboard) {
+    return res.status(404).json({ error: 'Dashboard not found' });
+  }
+
+  res.json({
+    success: true,
+    dashboard
+  });
+});
+
+// Delete a dashboard and its tiles' charts; the analyses stay in the history
+router.delete('/:dashboardId', (req: Request, res: Response) => {
+  if (!dashboardService.deleteDashboard(req.params.dashboardId)) {
+    return res.status(404).json({ error: 'Dashboard not found' });
+  }
+
+  res.json({
+    success: true,
+    message: 'Dashboard deleted successfully'
+  });
+});
+
+// Save the grid after tiles were moved or resized
+router.put('/:dashboardId/layout', (req: Request, res: Response) => {
+  try {
+    const dashboard = dashboardService.getDashboard(req.params.dashboardId);
+    if (!dashboard) {
+      return res.status(404).json({ error: 'Dashboard not found' });
+    }
+
+    const layoutError = validateLayout(req.body.layout, dashboard.tiles.map(tile => tile.id));
+    if (layoutError) {
+      return res.status(400).json({ error: layoutError });
+    }
+
+    res.json({
+      success: true,
+      dashboard: dashboardService.updateLayout(dashboard.id, req.body.layout)
+    });
+  } catch (error) {
+    handleError(res, error, 'save the layout');
+  }
+});
+
+// Re-run every tile against the latest version of its dataset
+router.post('/:dashboardId/refresh', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      dashboard: await dashboardService.refreshDashboard(req.params.dashboardId)
+    });
+  } catch (error) {
+    handleError(res, error, 'refresh the dashboard');
+  }
+});
+
+// Pin an analysis from the history as a new tile
+router.post('/:dashboardId/tiles', async (req: Request, res: Response) => {
+  try {
+    const { analysisId } = req.body;
+    if (typeof analysisId !== 'string' || !analysisId) {
+      return res.status(400).json({ error: 'analysisId is required' });
+    }
+
+    const { dashboard, tile } = await dashboardService.pinAnalysis(req.params.dashboardId, analysisId);
+    res.status(201).json({
+      success: true,
+      dashboard,
+      tile
+    });
+  } catch (error) {
+    handleError(res, error, 'pin the analysis');
+  }
+});
+
+router.delete('/:dashboardId/tiles/:tileId', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      dashboard: dashboardService.unpinTile(req.params.dashboardId, req.params.tileId)
+    });
+  } catch (error) {
+    handleError(res, error, 'remove the tile');
+  }
+});
+
+// Re-run one tile; a failed refresh keeps the previous chart and sets the tile's error
+router.post('/:dashboardId/tiles/:tileId/refresh', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      tile: await dashboardService.refreshTile(req.params.dashboardId, req.params.tileId)
+    });
+  } catch (error) {
+    handleError(res, error, 'refresh the tile');
+  }
+});
+
+export { router as dashboardRoutes };
@@ -1,22 +1,53 @@
 import { Router, Request, Response } from 'express';
-import { FileProcessingService } from '../services/fileProcessingService.js';
+import { existsSync, unlinkSync } from 'fs';
+import { DatasetInfo, FileProcessingService } from '../services/fileProcessingService.js';
+import { authorize, requireRole } from '../middleware/workspace.js';
 
 const router = Router();
 const fileProcessingService = new FileProcessingService();
 
+// Sheet selections arrive as a JSON array body or a comma-separated multipart form field
+const parseSheetNames = (value: unknown): string[] | undefined => {
+  if (Array.isArray(value)) {
+    return value.map(String).filter(Boolean);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    return value.split(',').map(name => name.trim()).filter(Boolean);
+  }
+  return undefined;
+};
+
 // Upload dataset endpoint
-router.post('/', fileProcessingService.getUploadMiddleware().single('dataset'), async (req: Request, res: Response) => {
+router.post('/', requireRole('editor'), fileProcessingService.getUploadMiddleware().single('dataset'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const result = await fileProcessingService.processUploadedFile(req.file);
+    // A dataset ID in `replaces` stores the file as the next version of that dataset
+    let replaces: DatasetInfo | undefined;
+    if (req.body.replaces) {
+      replaces = authorize(req, res, await fileProcessingService.getDatasetInfo(String(req.body.replaces)), 'editor', 'Dataset to replace not found');
+      if (!replaces) {
+        unlinkSync(req.file.path);
+        return;
+      }
+    }
+
+    const result = await fileProcessingService.processUploadedFile(req.file, {
+      ownerId: req.user!.id,
+      workspaceId: req.workspace!.id,
+      sheets: parseSheetNames(req.body.sheets),
+      replaces
+    });
     
     if (result.success && result.datasetInfo) {
       res.status(201).json({
+        success: true,
         message: 'Dataset uploaded successfully',
-        dataset: result.datasetInfo
+        dataset: result.datasetInfo,
+        linkedDatasets: result.linkedDatasets || [],
+        sheets: result.sheets || []
       });
     } else {
       res.status(400).json({
@@ -31,26 +62,208 @@ router.post('/', fileProcessingService.getUploadMiddleware().single('dataset'),
   }
 });
 
+// List datasets endpoint (pagination, sorting and filtering)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { page = '1', pageSize = '20', sortBy = 'uploadTime', sortOrder = 'desc', name, column } = req.query;
+
+    const pageNumber = parseInt(String(page), 10);
+    const pageSizeNumber = parseInt(String(pageSize), 10);
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || !Number.isInteger(pageSizeNumber) || pageSizeNumber < 1 || pageSizeNumber > 100) {
+      return res.status(400).json({
+        error: 'page must be a positive integer and pageSize must be between 1 and 100'
+      });
+    }
+
+    if (sortBy !== 'uploadTime' && sortBy !== 'fileSize') {
+      return res.status(400).json({
+        error: 'sortBy must be one of: uploadTime, fileSize'
+      });
+    }
+
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      return res.status(400).json({
+        error: 'sortOrder must be one of: asc, desc'
+      });
+    }
+
+    const result = await fileProcessingService.listDatasets({
+      workspaceId: req.workspace!.id,
+      page: pageNumber,
+      pageSize: pageSizeNumber,
+      sortBy,
+      sortOrder,
+      name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+      column: typeof column === 'string' && column.trim() ? column.trim() : undefined
+    });
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('List datasets error:', error);
+    res.status(500).json({
+      error: 'Internal server error while listing datasets'
+    });
+  }
+});
+
 // Get dataset info endpoint
 router.get('/:datasetId', async (req: Request, res: Response) => {
   try {
     const { datasetId } = req.params;
-    const datasetInfo = await fileProcessingService.getDatasetInfo(datasetId);
+    const datasetInfo = authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'viewer', 'Dataset not found');
     
     if (datasetInfo) {
       res.json({
         success: true,
         dataset: datasetInfo
       });
+    }
+  } catch (error) {
+    console.error('Get dataset info error:', error);
+    res.status(500).json({
+      error: 'Internal server error while retrieving dataset info'
+    });
+  }
+});
+
+// Get column profile and statistics endpoint
+router.get('/:datasetId/profile', async (req: Request, res: Response) => {
+  try {
+    const { datasetId } = req.params;
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'viewer', 'Dataset not found')) {
+      return;
+    }
+
+    const profile = await fileProcessingService.getDatasetProfile(datasetId);
+
+    if (profile) {
+      res.json({
+        success: true,
+        profile
+      });
     } else {
       res.status(404).json({
         error: 'Dataset not found'
       });
     }
   } catch (error) {
-    console.error('Get dataset info error:', error);
+    console.error('Dataset profile error:', error);
     res.status(500).json({
-      error: 'Internal server error while retrieving dataset info'
+      error: 'Internal server error while profiling dataset'
+    });
+  }
+});
+
+// List workbook sheets endpoint
+router.get('/:datasetId/sheets', async (req: Request, res: Response) => {
+  try {
+    const { datasetId } = req.params;
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'viewer', 'Excel dataset not found')) {
+      return;
+    }
+
+    const sheets = await fileProcessingService.getWorkbookSheets(datasetId);
+
+    if (sheets) {
+      res.json({
+        success: true,
+        sheets
+      });
+    } else {
+      res.status(404).json({
+        error: 'Excel dataset not found'
+      });
+    }
+  } catch (error) {
+    console.error('List sheets error:', error);
+    res.status(500).json({
+      error: 'Internal server error while reading workbook sheets'
+    });
+  }
+});
+
+// Import further workbook sheets as linked datasets endpoint
+router.post('/:datasetId/sheets', async (req: Request, res: Response) => {
+  try {
+    const { datasetId } = req.params;
+    const sheets = parseSheetNames(req.body.sheets);
+
+    if (!sheets || sheets.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required field: sheets'
+      });
+    }
+
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Excel dataset not found')) {
+      return;
+    }
+
+    const datasets = await fileProcessingService.importSheets(datasetId, sheets);
+
+    if (datasets) {
+      res.status(201).json({
+        success: true,
+        datasets
+      });
+    } else {
+      res.status(404).json({
+        error: 'Excel dataset not found'
+      });
+    }
+  } catch (error) {
+    console.error('Import sheets error:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Sheet import failed'
+    });
+  }
+});
+
+// Update dataset metadata endpoint
+router.patch('/:datasetId', async (req: Request, res: Response) => {
+  try {
+    const { datasetId } = req.params;
+    const { displayName, description, tags } = req.body;
+
+    if (displayName !== undefined && typeof displayName !== 'string') {
+      return res.status(400).json({ error: 'displayName must be a string' });
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      return res.status(400).json({ error: 'description must be a string' });
+    }
+
+    if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string'))) {
+      return res.status(400).json({ error: 'tags must be an array of strings' });
+    }
+
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found')) {
+      return;
+    }
+
+    const datasetInfo = await fileProcessingService.updateDatasetMetadata(datasetId, {
+      displayName: displayName?.trim(),
+      description: description?.trim(),
+      tags: tags?.map((tag: string) => tag.trim()).filter(Boolean)
+    });
+
+    if (datasetInfo) {
+      res.json({
+        success: true,
+        dataset: datasetInfo
+      });
+    } else {
+      res.status(404).json({
+        error: 'Dataset not found'
+      });
+    }
+  } catch (error) {
+    console.error('Update dataset metadata error:', error);
+    res.status(500).json({
+      error: 'Internal server error while updating dataset metadata'
     });
   }
 });
@@ -59,6 +272,10 @@ router.get('/:datasetId', async (req: Request, res: Response) => {
 router.delete('/:datasetId', async (req: Request, res: Response) => {
   try {
     const { datasetId } = req.params;
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(datasetId), 'editor', 'Dataset not found')) {
+      return;
+    }
+
     const deleted = await fileProcessingService.deleteDataset(datasetId);
     
     if (deleted) {
@@ -96,7 +313,7 @@ router.post('/validate', fileProcessingService.getUploadMiddleware().single('dat
       fileSize,
       fileType,
       sizeInMB: (fileSize / (1024 * 1024)).toFixed(2),
-      allowedTypes: ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel']
+      allowedExtensions: fileProcessingService.getSupportedExtensions()
     };
 
     // Check file size (50MB limit)
@@ -105,8 +322,8 @@ router.post('/validate', fileProcessingService.getUploadMiddleware().single('dat
       validation.fileType = 'File size exceeds 50MB limit';
     }
 
-    // Check file type
-    if (!validation.allowedTypes.includes(fileType)) {
+    // Check file type by extension; browsers report inconsistent MIME types for TSV, NDJSON and Parquet
+    if (!fileProcessingService.isSupportedFile(fileName)) {
       validation.isValid = false;
       validation.fileType = 'File type not supported';
     }
@@ -115,17 +332,16 @@ router.post('/validate', fileProcessingService.getUploadMiddleware().single('dat
       message: 'File validation completed',
       validation
     });
-
-    // Clean up the uploaded file since this is just validation
-    const fs = require('fs');
-    if (fs.existsSync(req.file.path)) {
-      fs.unlinkSync(req.file.path);
-    }
   } catch (error) {
     console.error('File validation error:', error);
     res.status(500).json({
       error: 'Internal server error during file validation'
     });
+  } finally {
+    // Clean up the uploaded file since this is just validation
+    if (req.file && existsSync(req.file.path)) {
+      unlinkSync(req.file.path);
+    }
   }
 });
 
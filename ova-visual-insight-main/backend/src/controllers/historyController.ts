@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { AIService } from '../services/aiService.js';
+import { FileProcessingService } from '../services/fileProcessingService.js';
+import { AnalysisJobService, ANALYSIS_OUTPUT_FORMATS } from '../services/analysisJobService.js';
+import { AnalysisHistoryService } from '../services/analysisHistoryService.js';
+import { workspaceOf } from '../services/workspaceService.js';
+import { authorize } from '../middleware/workspace.js';
+
+const router = Router();
+const aiService = new AIService();
+const fileProcessingService = new FileProcessingService();
+const analysisJobService = new AnalysisJobService();
+const analysisHistoryService = new AnalysisHistoryService();
+
+const MAX_TITLE_LENGTH = 200;
+
+// List stored analyses, newest first
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const { page = '1', pageSize = '20', datasetId, status, search } = req.query;
+
+    const pageNumber = parseInt(String(page), 10);
+    const pageSizeNumber = parseInt(String(pageSize), 10);
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || !Number.isInteger(pageSizeNumber) || pageSizeNumber < 1 || pageSizeNumber > 100) {
+      return res.status(400).json({
+        error: 'page must be a positive integer and pageSize must be between 1 and 100'
+      });
+    }
+
+    if (status !== undefined && status !== 'done' && status !== 'failed') {
+      return res.status(400).json({
+        error: 'status must be one of: done, failed'
+      });
+    }
+
+    const result = analysisHistoryService.listAnalyses({
+      workspaceId: req.workspace!.id,
+      page: pageNumber,
+      pageSize: pageSizeNumber,
+      datasetId: typeof datasetId === 'string' && datasetId ? datasetId : undefined,
+      status,
+      search: typeof search === 'string' && search.trim() ? search.trim() : undefined
+    });
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('List analyses error:', error);
+    res.status(500).json({
+      error: 'Internal server error while listing analyses'
+    });
+  }
+});
+
+router.get('/:analysisId', (req: Request, res: Response) => {
+  const analysis = authorize(req, res, analysisHistoryService.getAnalysis(req.params.analysisId), 'viewer', 'Analysis not found');
+  if (!analysis) {
+    return;
+  }
+
+  res.json({
+    success: true,
+    analysis
+  });
+});
+
+// Rename an analysis
+router.patch('/:analysisId', (req: Request, res: Response) => {
+  const { title } = req.body;
+
+  if (typeof title !== 'string' || !title.trim()) {
+    return res.status(400).json({ error: 'title must be a non-empty string' });
+  }
+  if (title.trim().length > MAX_TITLE_LENGTH) {
+    return res.status(400).json({ error: `title must be at most ${MAX_TITLE_LENGTH} characters` });
+  }
+
+  if (!authorize(req, res, analysisHistoryService.getAnalysis(req.params.analysisId), 'editor', 'Analysis not found')) {
+    return;
+  }
+
+  const analysis = analysisHistoryService.renameAnalysis(req.params.analysisId, title.trim());
+  if (!analysis) {
+    return res.status(404).json({ error: 'Analysis not found' });
+  }
+
+  res.json({
+    success: true,
+    analysis
+  });
+});
+
+// Delete an analysis and its chart file
+router.delete('/:analysisId', (req: Request, res: Response) => {
+  const analysis = authorize(req, res, analysisHistoryService.getAnalysis(req.params.analysisId), 'editor', 'Analysis not found');
+  if (!analysis) {
+    return;
+  }
+  analysisHistoryService.deleteAnalysis(analysis.id);
+
+  res.json({
+    success: true,
+    message: 'Analysis deleted successfully'
+  });
+});
+
+// Run the same question again as a new job, optionally with another model or format; the result is stored as a new analysis
+router.post('/:analysisId/rerun', async (req: Request, res: Response) => {
+  try {
+    const analysis = authorize(req, res, analysisHistoryService.getAnalysis(req.params.analysisId), 'editor', 'Analysis not found');
+    if (!analysis) {
+      return;
+    }
+
+    const aiModel = req.body.aiModel || analysis.aiModel;
+    const outputFormat = req.body.outputFormat || analysis.outputFormat;
+    if (!aiService.hasModel(aiModel)) {
+      return res.status(400).json({ error: `Unknown AI model: ${aiModel}` });
+    }
+    if (!ANALYSIS_OUTPUT_FORMATS.includes(outputFormat)) {
+      return res.status(400).json({ error: `outputFormat must be one of: ${ANALYSIS_OUTPUT_FORMATS.join(', ')}` });
+    }
+    if (!authorize(req, res, await fileProcessingService.getDatasetInfo(analysis.datasetId), 'editor', 'Dataset not found')) {
+      return;
+    }
+
+    const job = analysisJobService.submit({
+      ownerId: req.user!.id,
+      workspaceId: workspaceOf(analysis)!,
+      query: analysis.query,
+      datasetId: analysis.datasetId,
+      aiModel,
+      outputFormat,
+      rerunOf: analysis.id
+    });
+
+    res.status(202).json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    console.error('Re-run analysis error:', error);
+    res.status(500).json({
+      error: 'Failed to re-run analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export { router as historyRoutes };
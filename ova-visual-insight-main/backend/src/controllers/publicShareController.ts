@@ -0,0 +1,117 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { existsSync } from 'fs';
+import { basename, join } from 'path';
+import { AnalysisHistoryService } from '../services/analysisHistoryService.js';
+import { DashboardService } from '../services/dashboardService.js';
+import { ShareLinkService, ShareLink, ShareError } from '../services/shareLinkService.js';
+
+// Opened by recipients without an account: the token in the path is the only credential
+const router = Router();
+const shareLinkService = new ShareLinkService();
+const analysisHistoryService = new AnalysisHistoryService();
+const dashboardService = new DashboardService();
+
+const handleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof ShareError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`Public share ${action} error:`, error);
+  res.status(500).json({ error: `Internal server error while trying to ${action}` });
+};
+
+const chartUrl = (token: string, chartPath: string) => `/api/public/shares/${token}/charts/${basename(chartPath)}`;
+
+// What a recipient sees of the target: its title and charts, but no code, IDs of other records or file paths
+const describeTarget = (link: ShareLink) => {
+  if (link.type === 'chart') {
+    const analysis = analysisHistoryService.getAnalysis(link.targetId);
+    if (!analysis?.chart) return undefined;
+    return {
+      chart: {
+        title: analysis.title,
+        query: analysis.query,
+        datasetName: analysis.datasetName,
+        explanation: analysis.analysis?.explanation,
+        format: analysis.chart.format,
+        chartUrl: chartUrl(link.id, analysis.chart.path),
+        createdAt: analysis.createdAt
+      }
+    };
+  }
+
+  const dashboard = dashboardService.getDashboard(link.targetId);
+  if (!dashboard) return undefined;
+  return {
+    dashboard: {
+      name: dashboard.name,
+      layout: dashboard.layout,
+      tiles: dashboard.tiles.map(tile => ({
+        id: tile.id,
+        title: tile.title,
+        query: tile.query,
+        datasetName: tile.datasetName,
+        format: tile.format,
+        chart: tile.chart && { path: basename(tile.chart.path), format: tile.chart.format },
+        chartUrl: tile.chart && chartUrl(link.id, tile.chart.path),
+        refreshedAt: tile.refreshedAt
+      })),
+      updatedAt: dashboard.updatedAt
+    }
+  };
+};
+
+// The chart files a link opens up
+const sharedChartFiles = (link: ShareLink): string[] => {
+  if (link.type === 'chart') {
+    const chart = analysisHistoryService.getAnalysis(link.targetId)?.chart;
+    return chart ? [basename(chart.path)] : [];
+  }
+  return (dashboardService.getDashboard(link.targetId)?.tiles || [])
+    .flatMap(tile => tile.chart ? [basename(tile.chart.path)] : []);
+};
+
+// Shared pages are not for search engines
+router.use((req: Request, res: Response, next: NextFunction) => {
+  res.setHeader('X-Robots-Tag', 'noindex, nofollow');
+  next();
+});
+
+router.get('/:token', (req: Request, res: Response) => {
+  try {
+    const link = shareLinkService.resolve(req.params.token);
+    const target = describeTarget(link);
+    if (!target) {
+      return res.status(404).json({ error: 'The shared item no longer exists' });
+    }
+
+    res.json({
+      success: true,
+      type: link.type,
+      expiresAt: link.expiresAt,
+      ...target
+    });
+  } catch (error) {
+    handleError(res, error, 'open the shared item');
+  }
+});
+
+router.get('/:token/charts/:filename', (req: Request, res: Response) => {
+  try {
+    const link = shareLinkService.resolve(req.params.token);
+    const { filename } = req.params;
+    const chartPath = join(process.cwd(), 'output', filename);
+    if (!sharedChartFiles(link).includes(filename) || !existsSync(chartPath)) {
+      return res.status(404).json({ error: 'Chart not found' });
+    }
+
+    // Links can be revoked, so browsers must not keep their own copy
+    res.setHeader('Cache-Control', 'no-store');
+    // The frontend runs on another origin and embeds charts in <img> tags
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.sendFile(chartPath);
+  } catch (error) {
+    handleError(res, error, 'serve the shared chart');
+  }
+});
+
+export { router as publicShareRoutes };
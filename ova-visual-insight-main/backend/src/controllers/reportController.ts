@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { existsSync } from 'fs';
+import { ReportService, ReportError, ReportRecord, REPORT_FORMATS } from '../services/reportService.js';
+import { authorize, requireRole } from '../middleware/workspace.js';
+
+const router = Router();
+const reportService = new ReportService();
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_ANALYSES = 50;
+const DEFAULT_TITLE = 'Analysis report';
+
+const CONTENT_TYPES: Record<ReportRecord['format'], string> = {
+  pdf: 'application/pdf',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+// The file path stays on the server
+const toResponse = ({ path, ...report }: ReportRecord) => ({
+  ...report,
+  downloadUrl: `/api/reports/${report.id}/download`
+});
+
+// List generated reports, newest first
+router.get('/', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    reports: reportService.listReports(req.workspace!.id).map(toResponse)
+  });
+});
+
+// Generate a report from analyses in the history, in the order given
+router.post('/', requireRole('editor'), async (req: Request, res: Response) => {
+  try {
+    const { title = DEFAULT_TITLE, format, analysisIds } = req.body;
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return res.status(400).json({ error: 'title must be a non-empty string' });
+    }
+    if (title.trim().length > MAX_TITLE_LENGTH) {
+      return res.status(400).json({ error: `title must be at most ${MAX_TITLE_LENGTH} characters` });
+    }
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+    }
+    if (!Array.isArray(analysisIds) || analysisIds.length === 0 || !analysisIds.every(id => typeof id === 'string' && id)) {
+      return res.status(400).json({ error: 'analysisIds must be a non-empty array of analysis ids' });
+    }
+    if (analysisIds.length > MAX_ANALYSES) {
+      return res.status(400).json({ error: `A report can hold at most ${MAX_ANALYSES} analyses` });
+    }
+    if (new Set(analysisIds).size !== analysisIds.length) {
+      return res.status(400).json({ error: 'analysisIds must not repeat an analysis' });
+    }
+
+    const report = await reportService.createReport({
+      ownerId: req.user!.id,
+      workspaceId: req.workspace!.id,
+      title: title.trim(),
+      format,
+      analysisIds
+    });
+
+    res.status(201).json({
+      success: true,
+      report: toResponse(report)
+    });
+  } catch (error) {
+    if (error instanceof ReportError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    console.error('Create report error:', error);
+    res.status(500).json({ error: 'Internal server error while creating report' });
+  }
+});
+
+router.get('/:reportId', (req: Request, res: Response) => {
+  const report = authorize(req, res, reportService.getReport(req.params.reportId), 'viewer', 'Report not found');
+  if (!report) {
+    return;
+  }
+
+  res.json({
+    success: true,
+    report: toResponse(report)
+  });
+});
+
+// Download the report file, named after its title
+router.get('/:reportId/download', (req: Request, res: Response) => {
+  try {
+    const report = authorize(req, res, reportService.getReport(req.params.reportId), 'viewer', 'Report not found');
+    if (!report) {
+      return;
+    }
+    if (!existsSync(report.path)) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'report';
+    res.setHeader('Content-Type', CONTENT_TYPES[report.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}.${report.format}"`);
+    res.sendFile(report.path);
+  } catch (error) {
+    console.error('Report download error:', error);
+    res.status(500).json({ error: 'Internal server error while downloading report' });
+  }
+});
+
+// Delete a report and its file
+router.delete('/:reportId', (req: Request, res: Response) => {
+  const report = authorize(req, res, reportService.getReport(req.params.reportId), 'editor', 'Report not found');
+  if (!report) {
+    return;
+  }
+  reportService.deleteReport(report.id);
+
+  res.json({
+    success: true,
+    message: 'Report deleted successfully'
+  });
+});
+
+export { router as reportRoutes };
@@ -1,8 +1,24 @@
 import { Router, Request, Response } from 'express';
-import { readFileSync, existsSync, statSync } from 'fs';
+import { readFileSync, existsSync, statSync, readdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
+import { ChartExportService, ChartExportError, CHART_EXPORT_FORMATS } from '../services/chartExportService.js';
+import { ChartFileFormat } from '../services/pythonSandboxService.js';
+import { ChartOwnershipService } from '../services/chartOwnershipService.js';
+import { WorkspaceRole, workspaceOf } from '../services/workspaceService.js';
+import { authorize } from '../middleware/workspace.js';
 
 const router = Router();
+const chartExportService = new ChartExportService();
+const chartOwnershipService = new ChartOwnershipService();
+
+const MIN_EXPORT_PIXELS = 16;
+const MAX_EXPORT_PIXELS = 8000;
+const MIN_EXPORT_DPI = 36;
+const MAX_EXPORT_DPI = 1200;
+
+// Charts outside the caller's workspaces are answered like missing ones
+const authorizeChart = (req: Request, res: Response, filename: string, role: WorkspaceRole) =>
+  authorize(req, res, chartOwnershipService.getOwner(filename), role, 'Chart not found');
 
 // Serve chart files
 router.get('/charts/:filename', (req: Request, res: Response) => {
@@ -10,6 +26,9 @@ router.get('/charts/:filename', (req: Request, res: Response) => {
     const { filename } = req.params;
     const chartPath = join(process.cwd(), 'output', filename);
     
+    if (!authorizeChart(req, res, filename, 'viewer')) {
+      return;
+    }
     if (!existsSync(chartPath)) {
       return res.status(404).json({ error: 'Chart not found' });
     }
@@ -30,14 +49,25 @@ router.get('/charts/:filename', (req: Request, res: Response) => {
       case 'svg':
         contentType = 'image/svg+xml';
         break;
+      case 'webp':
+        contentType = 'image/webp';
+        break;
+      case 'pdf':
+        contentType = 'application/pdf';
+        break;
       case 'html':
         contentType = 'text/html';
         break;
+      case 'json':
+        contentType = 'application/json';
+        break;
     }
 
     res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Length', stats.size);
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+    res.setHeader('Cache-Control', 'private, max-age=3600'); // Cache for 1 hour, in the user's browser only
+    // The frontend runs on another origin and embeds charts in <img> tags
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
     
     const fileBuffer = readFileSync(chartPath);
     res.send(fileBuffer);
@@ -54,6 +84,9 @@ router.get('/download/:filename', (req: Request, res: Response) => {
     const { originalName } = req.query;
     const chartPath = join(process.cwd(), 'output', filename);
     
+    if (!authorizeChart(req, res, filename, 'viewer')) {
+      return;
+    }
     if (!existsSync(chartPath)) {
       return res.status(404).json({ error: 'Chart not found' });
     }
@@ -81,6 +114,9 @@ router.get('/charts/:filename/metadata', (req: Request, res: Response) => {
     const { filename } = req.params;
     const chartPath = join(process.cwd(), 'output', filename);
     
+    if (!authorizeChart(req, res, filename, 'viewer')) {
+      return;
+    }
     if (!existsSync(chartPath)) {
       return res.status(404).json({ error: 'Chart not found' });
     }
@@ -96,7 +132,7 @@ router.get('/charts/:filename/metadata', (req: Request, res: Response) => {
       format: ext,
       createdAt: stats.birthtime,
       modifiedAt: stats.mtime,
-      contentType: this.getContentType(ext || ''),
+      contentType: getContentType(ext || ''),
       downloadUrl: `/api/results/download/${filename}`,
       viewUrl: `/api/results/charts/${filename}`
     };
@@ -114,7 +150,6 @@ router.get('/charts/:filename/metadata', (req: Request, res: Response) => {
 // List all available charts
 router.get('/charts', (req: Request, res: Response) => {
   try {
-    const fs = require('fs');
     const outputDir = join(process.cwd(), 'output');
     
     if (!existsSync(outputDir)) {
@@ -124,11 +159,14 @@ router.get('/charts', (req: Request, res: Response) => {
       });
     }
 
-    const files = fs.readdirSync(outputDir);
+    const owned = new Set(chartOwnershipService.listInWorkspace(req.workspace!.id));
+    const files = readdirSync(outputDir);
     const charts = files
       .filter(file => {
+        if (!owned.has(file)) return false;
         const ext = file.split('.').pop()?.toLowerCase();
-        return ['png', 'jpg', 'jpeg', 'svg', 'html'].includes(ext || '');
+        // Chart-spec and Vega-Lite charts are saved as JSON
+        return ['png', 'jpg', 'jpeg', 'svg', 'webp', 'pdf', 'html', 'json'].includes(ext || '');
       })
       .map(file => {
         const filePath = join(outputDir, file);
@@ -159,33 +197,69 @@ router.get('/charts', (req: Request, res: Response) => {
   }
 });
 
-// Export chart in different format
-router.post('/export/:filename', (req: Request, res: Response) => {
+// Export chart in different format, re-rendering it from its analysis when possible
+router.post('/export/:filename', async (req: Request, res: Response) => {
   try {
     const { filename } = req.params;
-    const { targetFormat } = req.body;
+    const { targetFormat, width, height, dpi, transparent } = req.body;
+
+    const source = authorizeChart(req, res, filename, 'editor');
+    if (!source) {
+      return;
+    }
     
     if (!targetFormat) {
       return res.status(400).json({ error: 'Target format is required' });
     }
 
-    const supportedFormats = ['png', 'jpg', 'svg', 'html'];
-    if (!supportedFormats.includes(targetFormat)) {
+    if (!CHART_EXPORT_FORMATS.includes(targetFormat)) {
       return res.status(400).json({ 
-        error: `Unsupported format. Supported formats: ${supportedFormats.join(', ')}` 
+        error: `Unsupported format. Supported formats: ${CHART_EXPORT_FORMATS.join(', ')}` 
       });
     }
 
-    // In a real implementation, you would convert the chart to the target format
-    // For now, we'll return a success message
+    for (const [name, value] of Object.entries({ width, height })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < MIN_EXPORT_PIXELS || value > MAX_EXPORT_PIXELS)) {
+        return res.status(400).json({ error: `${name} must be an integer between ${MIN_EXPORT_PIXELS} and ${MAX_EXPORT_PIXELS} pixels` });
+      }
+    }
+    if (dpi !== undefined && (!Number.isInteger(dpi) || dpi < MIN_EXPORT_DPI || dpi > MAX_EXPORT_DPI)) {
+      return res.status(400).json({ error: `dpi must be an integer between ${MIN_EXPORT_DPI} and ${MAX_EXPORT_DPI}` });
+    }
+    if (transparent !== undefined && typeof transparent !== 'boolean') {
+      return res.status(400).json({ error: 'transparent must be a boolean' });
+    }
+    if (transparent && targetFormat === 'jpg') {
+      return res.status(400).json({ error: 'JPG does not support transparent backgrounds' });
+    }
+
+    const exported = await chartExportService.exportChart(filename, {
+      targetFormat: targetFormat as ChartFileFormat,
+      width,
+      height,
+      dpi,
+      transparent
+    });
+    // The exported file lives next to its source, in the same workspace
+    chartOwnershipService.claim(exported.filename, req.user!.id, workspaceOf(source)!);
+
     res.json({
       success: true,
-      message: `Chart export to ${targetFormat} format initiated`,
+      message: `Chart exported to ${targetFormat} format`,
       originalFile: filename,
       targetFormat,
-      exportUrl: `/api/results/download/${filename.replace(/\.[^/.]+$/, '')}.${targetFormat}`
+      filename: exported.filename,
+      size: exported.size,
+      method: exported.method,
+      analysisId: exported.analysisId,
+      notes: exported.notes,
+      exportUrl: `/api/results/download/${exported.filename}`,
+      viewUrl: `/api/results/charts/${exported.filename}`
     });
   } catch (error) {
+    if (error instanceof ChartExportError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
     console.error('Chart export error:', error);
     res.status(500).json({ error: 'Internal server error while exporting chart' });
   }
@@ -197,12 +271,15 @@ router.delete('/charts/:filename', (req: Request, res: Response) => {
     const { filename } = req.params;
     const chartPath = join(process.cwd(), 'output', filename);
     
+    if (!authorizeChart(req, res, filename, 'editor')) {
+      return;
+    }
     if (!existsSync(chartPath)) {
       return res.status(404).json({ error: 'Chart not found' });
     }
 
-    const fs = require('fs');
-    fs.unlinkSync(chartPath);
+    unlinkSync(chartPath);
+    chartOwnershipService.release(filename);
     
     res.json({
       success: true,
@@ -214,8 +291,8 @@ router.delete('/charts/:filename', (req: Request, res: Response) => {
   }
 });
 
-// Helper method to get content type
-private getContentType(ext: string): string {
+// Content type of a chart file by its extension
+function getContentType(ext: string): string {
   switch (ext.toLowerCase()) {
     case 'png':
       return 'image/png';
@@ -224,8 +301,14 @@ private getContentType(ext: string): string {
       return 'image/jpeg';
     case 'svg':
       return 'image/svg+xml';
+    case 'webp':
+      return 'image/webp';
+    case 'pdf':
+      return 'application/pdf';
     case 'html':
       return 'text/html';
+    case 'json':
+      return 'application/json';
     default:
       return 'application/octet-stream';
   }
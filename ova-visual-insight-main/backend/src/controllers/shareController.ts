@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { AnalysisHistoryService } from '../services/analysisHistoryService.js';
+import { DashboardService } from '../services/dashboardService.js';
+import {
+  ShareLinkService,
+  ShareLink,
+  SHARE_TARGET_TYPES,
+  MIN_EXPIRY_HOURS,
+  MAX_EXPIRY_HOURS,
+  DEFAULT_EXPIRY_HOURS
+} from '../services/shareLinkService.js';
+import { workspaceOf } from '../services/workspaceService.js';
+import { authorize, requireRole } from '../middleware/workspace.js';
+
+const router = Router();
+const shareLinkService = new ShareLinkService();
+const analysisHistoryService = new AnalysisHistoryService();
+const dashboardService = new DashboardService();
+
+// The page a recipient opens; the frontend serves it under this path
+const toResponse = (link: ShareLink) => ({
+  ...link,
+  sharePath: `/share/${link.id}`
+});
+
+// Create a link to a chart or dashboard; the link belongs to the target's workspace
+router.post('/', (req: Request, res: Response) => {
+  const { type, targetId, expiresInHours = DEFAULT_EXPIRY_HOURS } = req.body;
+
+  if (!SHARE_TARGET_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of: ${SHARE_TARGET_TYPES.join(', ')}` });
+  }
+  if (typeof targetId !== 'string' || !targetId) {
+    return res.status(400).json({ error: 'targetId is required' });
+  }
+  if (!Number.isInteger(expiresInHours) || expiresInHours < MIN_EXPIRY_HOURS || expiresInHours > MAX_EXPIRY_HOURS) {
+    return res.status(400).json({ error: `expiresInHours must be an integer between ${MIN_EXPIRY_HOURS} and ${MAX_EXPIRY_HOURS}` });
+  }
+
+  let workspaceId: string;
+  if (type === 'chart') {
+    const analysis = authorize(req, res, analysisHistoryService.getAnalysis(targetId), 'editor', 'Analysis not found');
+    if (!analysis) {
+      return;
+    }
+    if (!analysis.chart) {
+      return res.status(400).json({ error: 'This analysis has no chart to share' });
+    }
+    workspaceId = workspaceOf(analysis)!;
+  } else {
+    const dashboard = authorize(req, res, dashboardService.getDashboard(targetId), 'editor', 'Dashboard not found');
+    if (!dashboard) {
+      return;
+    }
+    workspaceId = workspaceOf(dashboard)!;
+  }
+
+  const link = shareLinkService.createLink(workspaceId, req.user!.id, type, targetId, expiresInHours);
+  res.status(201).json({
+    success: true,
+    link: toResponse(link)
+  });
+});
+
+// Links in the current workspace that still work, optionally for one target; viewers cannot pass them on
+router.get('/', requireRole('editor'), (req: Request, res: Response) => {
+  const { type, targetId } = req.query;
+  if (type !== undefined && !SHARE_TARGET_TYPES.includes(type as never)) {
+    return res.status(400).json({ error: `type must be one of: ${SHARE_TARGET_TYPES.join(', ')}` });
+  }
+
+  res.json({
+    success: true,
+    links: shareLinkService.listLinks(
+      req.workspace!.id,
+      type as ShareLink['type'] | undefined,
+      typeof targetId === 'string' && targetId ? targetId : undefined
+    ).map(toResponse)
+  });
+});
+
+// Revoke a link; it stops working at once
+router.delete('/:linkId', (req: Request, res: Response) => {
+  const link = authorize(req, res, shareLinkService.getLink(req.params.linkId), 'editor', 'Share link not found');
+  if (!link) {
+    return;
+  }
+
+  shareLinkService.revokeLink(link.id);
+  res.json({
+    success: true,
+    message: 'Share link revoked successfully'
+  });
+});
+
+export { router as shareRoutes };
@@ -0,0 +1,169 @@
+import { Router, Request, Response } from 'express';
+import { WorkspaceService, WorkspaceError, Workspace, WORKSPACE_ROLES, hasRole } from '../services/workspaceService.js';
+
+const router = Router();
+const workspaceService = new WorkspaceService();
+
+const MAX_NAME_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const validateName = (name: unknown): string | null => {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name must be a non-empty string';
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+const validateRole = (role: unknown): string | null =>
+  WORKSPACE_ROLES.includes(role as never) ? null : `role must be one of: ${WORKSPACE_ROLES.join(', ')}`;
+
+const toResponse = (workspace: Workspace, userId: string) => ({
+  ...workspace,
+  members: workspaceService.describeMembers(workspace),
+  role: workspaceService.getRole(workspace.id, userId)
+});
+
+const handleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof WorkspaceError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`Workspace ${action} error:`, error);
+  res.status(500).json({ error: `Internal server error while trying to ${action}` });
+};
+
+// Workspaces the caller is not a member of are answered like missing ones; owners manage the rest
+const loadWorkspace = (req: Request, res: Response, ownerOnly: boolean): Workspace | undefined => {
+  const workspace = workspaceService.getWorkspace(req.params.workspaceId);
+  const role = workspace && workspaceService.getRole(workspace.id, req.user!.id);
+  if (!workspace || !role) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return undefined;
+  }
+  if (ownerOnly && !hasRole(role, 'owner')) {
+    res.status(403).json({ error: 'This action needs the owner role in the workspace' });
+    return undefined;
+  }
+  return workspace;
+};
+
+// List the caller's workspaces with their role in each, personal first
+router.get('/', (req: Request, res: Response) => {
+  workspaceService.ensurePersonalWorkspace(req.user!);
+  res.json({
+    success: true,
+    workspaces: workspaceService.listWorkspaces(req.user!.id)
+  });
+});
+
+// Create a shared workspace owned by the caller
+router.post('/', (req: Request, res: Response) => {
+  const nameError = validateName(req.body.name);
+  if (nameError) {
+    return res.status(400).json({ error: nameError });
+  }
+
+  const workspace = workspaceService.createWorkspace(req.user!.id, req.body.name.trim());
+  res.status(201).json({
+    success: true,
+    workspace: toResponse(workspace, req.user!.id)
+  });
+});
+
+router.get('/:workspaceId', (req: Request, res: Response) => {
+  const workspace = loadWorkspace(req, res, false);
+  if (!workspace) {
+    return;
+  }
+
+  res.json({
+    success: true,
+    workspace: toResponse(workspace, req.user!.id)
+  });
+});
+
+// Rename a workspace
+router.patch('/:workspaceId', (req: Request, res: Response) => {
+  try {
+    const nameError = validateName(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    if (!loadWorkspace(req, res, true)) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      workspace: toResponse(workspaceService.renameWorkspace(req.params.workspaceId, req.body.name.trim()), req.user!.id)
+    });
+  } catch (error) {
+    handleError(res, error, 'rename the workspace');
+  }
+});
+
+// Add someone who already has an account, by email
+router.post('/:workspaceId/members', (req: Request, res: Response) => {
+  try {
+    const { email, role = 'viewer' } = req.body;
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({ error: 'email must be a valid email address' });
+    }
+    const roleError = validateRole(role);
+    if (roleError) {
+      return res.status(400).json({ error: roleError });
+    }
+    if (!loadWorkspace(req, res, true)) {
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      workspace: toResponse(workspaceService.addMember(req.params.workspaceId, email, role), req.user!.id)
+    });
+  } catch (error) {
+    handleError(res, error, 'add the member');
+  }
+});
+
+router.patch('/:workspaceId/members/:userId', (req: Request, res: Response) => {
+  try {
+    const roleError = validateRole(req.body.role);
+    if (roleError) {
+      return res.status(400).json({ error: roleError });
+    }
+    if (!loadWorkspace(req, res, true)) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      workspace: toResponse(workspaceService.changeRole(req.params.workspaceId, req.params.userId, req.body.role), req.user!.id)
+    });
+  } catch (error) {
+    handleError(res, error, 'change the role');
+  }
+});
+
+// Owners remove members; any member may remove themselves to leave the workspace
+router.delete('/:workspaceId/members/:userId', (req: Request, res: Response) => {
+  try {
+    const leaving = req.params.userId === req.user!.id;
+    if (!loadWorkspace(req, res, !leaving)) {
+      return;
+    }
+
+    const workspace = workspaceService.removeMember(req.params.workspaceId, req.params.userId);
+    res.json({
+      success: true,
+      workspace: leaving ? undefined : toResponse(workspace, req.user!.id),
+      message: leaving ? 'You left the workspace' : 'Member removed successfully'
+    });
+  } catch (error) {
+    handleError(res, error, 'remove the member');
+  }
+});
+
+export { router as workspaceRoutes };
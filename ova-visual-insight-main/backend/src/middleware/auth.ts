@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, AuthError, PublicUser } from '../services/authService.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by requireAuth
+      user?: PublicUser;
+    }
+  }
+}
+
+// Browsers send the tokens as httpOnly cookies, so <img> tags, downloads and event streams are authenticated too
+export const ACCESS_TOKEN_COOKIE = 'ova_access_token';
+export const REFRESH_TOKEN_COOKIE = 'ova_refresh_token';
+
+const authService = new AuthService();
+
+export const readCookie = (req: Request, name: string): string | undefined => {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+};
+
+// API clients send `Authorization: Bearer <access token>`; the app relies on the cookie
+const readAccessToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return readCookie(req, ACCESS_TOKEN_COOKIE);
+};
+
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = readAccessToken(req);
+    const user = token ? authService.authenticate(token) : undefined;
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkspaceService, WorkspaceRole, hasRole, workspaceOf } from '../services/workspaceService.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by requireWorkspace: where lists are read from and new records are created
+      workspace?: { id: string; role: WorkspaceRole };
+    }
+  }
+}
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+const workspaceService = new WorkspaceService();
+
+const roleRequired = (res: Response, role: WorkspaceRole) =>
+  res.status(403).json({ error: `This action needs the ${role} role in the workspace` });
+
+// Picks the workspace from the X-Workspace-Id header, or the user's personal one; must run after requireAuth
+export const requireWorkspace = (req: Request, res: Response, next: NextFunction) => {
+  const personal = workspaceService.ensurePersonalWorkspace(req.user!);
+  const requested = req.header(WORKSPACE_HEADER);
+  const workspaceId = requested || personal.id;
+
+  const role = workspaceService.getRole(workspaceId, req.user!.id);
+  if (!role) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+
+  req.workspace = { id: workspaceId, role };
+  next();
+};
+
+// For routes that create records in the current workspace
+export const requireRole = (role: WorkspaceRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (!hasRole(req.workspace?.role, role)) {
+    return roleRequired(res, role);
+  }
+  next();
+};
+
+// Answers 404 when the caller is not a member of the record's workspace, so its ID cannot be probed,
+// and 403 when their role there is too low; returns the record when the caller may go ahead
+export const authorize = <T extends { workspaceId?: string; ownerId?: string }>(
+  req: Request,
+  res: Response,
+  record: T | null | undefined,
+  role: WorkspaceRole,
+  notFound: string
+): T | undefined => {
+  const workspaceId = record ? workspaceOf(record) : undefined;
+  const memberRole = workspaceId ? workspaceService.getRole(workspaceId, req.user!.id) : undefined;
+  if (!record || !memberRole) {
+    res.status(404).json({ error: notFound });
+    return undefined;
+  }
+  if (!hasRole(memberRole, role)) {
+    roleRequired(res, role);
+    return undefined;
+  }
+  return record;
+};
@@ -0,0 +1,137 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+
+// The model answered, but not with the structure that was asked for
+export class AIResponseParseError extends Error {
+  statusCode = 502;
+
+  constructor(message: string, readonly issues: string[], readonly rawResponse: string) {
+    super(message);
+    this.name = 'AIResponseParseError';
+  }
+}
+
+// Every field of a structured response is a required string; the description tells the model what goes in it
+export interface OutputSchema<T> {
+  name: string;
+  description: string;
+  fields: Record<keyof T & string, string>;
+}
+
+export interface AnalysisOutput {
+  analysis: string;
+  pythonCode: string;
+  visualizationType: string;
+  explanation: string;
+}
+
+export interface RepairOutput {
+  fix: string;
+  pythonCode: string;
+}
+
+// The spec travels as a JSON string so every field stays a plain string; chartSpec.ts parses and checks it
+export interface ChartSpecOutput {
+  analysis: string;
+  chartSpec: string;
+  visualizationType: string;
+  explanation: string;
+}
+
+const PYTHON_CODE_FIELD = 'Complete, runnable Python code as plain text, without Markdown code fences';
+
+export const ANALYSIS_OUTPUT: OutputSchema<AnalysisOutput> = {
+  name: 'submit_analysis',
+  description: 'Submit the analysis of the dataset and the code that visualizes it',
+  fields: {
+    analysis: 'A clear analysis of the data that answers the question',
+    pythonCode: PYTHON_CODE_FIELD,
+    visualizationType: 'The kind of chart the code draws, e.g. "bar chart" or "scatter plot"',
+    explanation: 'What the visualization shows'
+  }
+};
+
+export const CHART_SPEC_OUTPUT: OutputSchema<ChartSpecOutput> = {
+  name: 'submit_chart_spec',
+  description: 'Submit the analysis of the dataset and a declarative spec of the chart that visualizes it',
+  fields: {
+    analysis: 'A clear analysis of the data that answers the question',
+    chartSpec: 'The chart spec as a JSON object serialized to a string',
+    visualizationType: 'The kind of chart the spec describes, e.g. "bar chart" or "scatter plot"',
+    explanation: 'What the visualization shows'
+  }
+};
+
+export const REPAIR_OUTPUT: OutputSchema<RepairOutput> = {
+  name: 'submit_fix',
+  description: 'Submit the corrected code',
+  fields: {
+    fix: 'What was wrong and what was changed, in one or two sentences',
+    pythonCode: PYTHON_CODE_FIELD
+  }
+};
+
+// JSON Schema for OpenAI function parameters
+export function toJsonSchema<T>(schema: OutputSchema<T>) {
+  return {
+    type: 'object' as const,
+    properties: Object.fromEntries(
+      Object.entries<string>(schema.fields).map(([field, description]) => [field, { type: 'string', description }])
+    ),
+    required: Object.keys(schema.fields),
+    additionalProperties: false
+  };
+}
+
+export function toGeminiSchema<T>(schema: OutputSchema<T>): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    description: schema.description,
+    properties: Object.fromEntries(
+      Object.entries<string>(schema.fields).map(([field, description]) => [field, { type: SchemaType.STRING, description }])
+    ),
+    required: Object.keys(schema.fields)
+  };
+}
+
+// Removes a Markdown fence around the whole text, which models add even when told not to
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```[\w-]*[ \t]*\r?\n([\s\S]*?)\r?\n?```$/);
+  return fenced ? fenced[1] : text.trim();
+}
+
+export function parseStructuredOutput<T>(schema: OutputSchema<T>, response: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(response));
+  } catch (error) {
+    throw new AIResponseParseError(
+      'Model response is not valid JSON',
+      [error instanceof Error ? error.message : 'Unknown error'],
+      response
+    );
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AIResponseParseError('Model response is not a JSON object', [`Expected an object, got ${Array.isArray(value) ? 'an array' : typeof value}`], response);
+  }
+
+  const record = value as Record<string, unknown>;
+  const issues = Object.keys(schema.fields).flatMap(field => {
+    const fieldValue = record[field];
+    if (fieldValue === undefined || fieldValue === null) return [`Missing field "${field}"`];
+    if (typeof fieldValue !== 'string') return [`Field "${field}" must be a string, got ${typeof fieldValue}`];
+    if (!fieldValue.trim()) return [`Field "${field}" is empty`];
+    return [];
+  });
+  if (issues.length > 0) {
+    throw new AIResponseParseError('Model response does not match the expected schema', issues, response);
+  }
+
+  const output = Object.fromEntries(
+    Object.keys(schema.fields).map(field => {
+      const text = (record[field] as string).trim();
+      return [field, field === 'pythonCode' ? stripCodeFence(text) : text];
+    })
+  );
+  return output as T;
+}
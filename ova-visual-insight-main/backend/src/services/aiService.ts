@@ -1,6 +1,20 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { v4 as uuidv4 } from 'uuid';
+import { ColumnTypeInfo } from './columnTypeInference.js';
+import { AIResponseParseError, ANALYSIS_OUTPUT, CHART_SPEC_OUTPUT, OutputSchema, REPAIR_OUTPUT, parseStructuredOutput } from './aiResponseSchema.js';
+import { CHART_SPEC_FORMAT, ChartSpec, validateChartSpec } from './chartSpec.js';
+import { ProviderRegistry } from './providers/providerRegistry.js';
+import { CompletionContext, ProviderStatus } from './providers/types.js';
+
+// An earlier question in the same session and what came of it
+export interface ConversationTurn {
+  query: string;
+  pythonCode?: string;
+  // Set instead of the code for turns answered with a chart spec
+  chartSpec?: ChartSpec;
+  analysis?: string;
+  // "succeeded" with the script's last output lines, or the error it failed with
+  outcome: string;
+}
 
 export interface AIAnalysisRequest {
   query: string;
@@ -8,9 +22,15 @@ export interface AIAnalysisRequest {
     columns: string[];
     sampleData: any[];
     dataTypes: Record<string, string>;
+    columnTypes?: Record<string, ColumnTypeInfo>;
     rowCount: number;
   };
-  model: 'openai' | 'gemini';
+  // ID of a configured provider, see GET /api/analyze/models
+  model: string;
+  // Earlier turns of the session, oldest first, so follow-up questions can refer to them
+  history?: ConversationTurn[];
+  // When set, the model's reply is streamed and each text chunk is passed here as it arrives
+  onToken?: (text: string) => void;
 }
 
 export interface AIAnalysisResponse {
@@ -22,34 +42,57 @@ export interface AIAnalysisResponse {
   timestamp: Date;
 }
 
+export interface AIChartSpecResponse {
+  id: string;
+  analysis: string;
+  chartSpec: ChartSpec;
+  visualizationType: string;
+  explanation: string;
+  timestamp: Date;
+}
+
+export interface AICodeRepairRequest {
+  query: string;
+  datasetInfo: AIAnalysisRequest['datasetInfo'];
+  model: AIAnalysisRequest['model'];
+  // The script that failed and the error or traceback it produced
+  pythonCode: string;
+  error: string;
+  onToken?: (text: string) => void;
+}
+
+export interface AICodeRepairResponse {
+  pythonCode: string;
+  // The model's summary of what was wrong and what it changed
+  explanation: string;
+}
+
+// Tracebacks can be long; the end of one holds the actual error
+const MAX_REPAIR_ERROR_LENGTH = 4000;
+// Only the most recent turns go into the prompt, each with its code shortened, to bound its size
+const MAX_HISTORY_TURNS = 5;
+const MAX_HISTORY_CODE_LENGTH = 3000;
+
+const SYSTEM_PROMPT = "You are an expert data analyst and Python developer. Generate Python code to analyze and visualize data based on user queries. Always return valid, runnable Python code.";
+
 export class AIService {
-  private openai: OpenAI;
-  private gemini: GoogleGenerativeAI;
+  private providers = new ProviderRegistry();
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  hasModel(model: string): boolean {
+    return this.providers.has(model);
+  }
 
-    this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+  listModels(): Promise<ProviderStatus[]> {
+    return this.providers.describe();
   }
 
   async analyzeData(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
-    const { query, datasetInfo, model } = request;
+    const { query, datasetInfo, model, history, onToken } = request;
     
     try {
-      let response: AIAnalysisResponse;
-
-      switch (model) {
-        case 'openai':
-          response = await this.analyzeWithOpenAI(query, datasetInfo);
-          break;
-        case 'gemini':
-          response = await this.analyzeWithGemini(query, datasetInfo);
-          break;
-        default:
-          throw new Error(`Unsupported AI model: ${model}`);
-      }
+      const prompt = this.buildAnalysisPrompt(query, datasetInfo, history);
+      const context = { query, datasetInfo };
+      const response = parseStructuredOutput(ANALYSIS_OUTPUT, await this.complete(model, prompt, ANALYSIS_OUTPUT, context, onToken));
 
       return {
         ...response,
@@ -58,87 +101,205 @@ export class AIService {
       };
     } catch (error) {
       console.error('AI analysis failed:', error);
+      // Kept as is so callers can tell a malformed answer from a failed request
+      if (error instanceof AIResponseParseError) throw error;
       throw new Error(`AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async analyzeWithOpenAI(query: string, datasetInfo: any): Promise<Omit<AIAnalysisResponse, 'id' | 'timestamp'>> {
-    const prompt = this.buildAnalysisPrompt(query, datasetInfo);
-    
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert data analyst and Python developer. Generate Python code to analyze and visualize data based on user queries. Always return valid, runnable Python code."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000
-    });
+  // Asks for a declarative chart instead of code; the spec is checked against the dataset's columns before it is returned
+  async generateChartSpec(request: AIAnalysisRequest): Promise<AIChartSpecResponse> {
+    const { query, datasetInfo, model, history, onToken } = request;
+
+    try {
+      const prompt = this.buildChartSpecPrompt(query, datasetInfo, history);
+      const context = { query, datasetInfo };
+      const raw = await this.complete(model, prompt, CHART_SPEC_OUTPUT, context, onToken);
+      const response = parseStructuredOutput(CHART_SPEC_OUTPUT, raw);
+
+      let value: unknown;
+      try {
+        value = JSON.parse(response.chartSpec);
+      } catch (error) {
+        throw new AIResponseParseError('Model returned a chart spec that is not valid JSON', [error instanceof Error ? error.message : 'Unknown error'], raw);
+      }
+      const { spec, issues } = validateChartSpec(value, datasetInfo.columns);
+      if (!spec) {
+        throw new AIResponseParseError('Model returned an invalid chart spec', issues, raw);
+      }
+
+      return {
+        analysis: response.analysis,
+        chartSpec: spec,
+        visualizationType: response.visualizationType,
+        explanation: response.explanation,
+        id: uuidv4(),
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('AI chart spec failed:', error);
+      if (error instanceof AIResponseParseError) throw error;
+      throw new Error(`AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-    const response = completion.choices[0]?.message?.content || '';
-    return this.parseAIResponse(response);
+  // Asks the model to fix a script that failed in the sandbox
+  async repairCode(request: AICodeRepairRequest): Promise<AICodeRepairResponse> {
+    try {
+      const prompt = this.buildRepairPrompt(request);
+      const context = { query: request.query, datasetInfo: request.datasetInfo };
+      const { fix, pythonCode } = parseStructuredOutput(REPAIR_OUTPUT, await this.complete(request.model, prompt, REPAIR_OUTPUT, context, request.onToken));
+      return { pythonCode, explanation: fix };
+    } catch (error) {
+      console.error('AI code repair failed:', error);
+      if (error instanceof AIResponseParseError) throw error;
+      throw new Error(`AI code repair failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  private async analyzeWithGemini(query: string, datasetInfo: any): Promise<Omit<AIAnalysisResponse, 'id' | 'timestamp'>> {
-    const prompt = this.buildAnalysisPrompt(query, datasetInfo);
-    
-    const model = this.gemini.getGenerativeModel({ model: "gemini-pro" });
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
-    
-    return this.parseAIResponse(response);
+  // Returns the model's raw JSON answer for the schema; parsing and validation are left to the caller
+  private async complete<T>(
+    model: string,
+    prompt: string,
+    schema: OutputSchema<T>,
+    context: CompletionContext,
+    onToken?: (text: string) => void
+  ): Promise<string> {
+    const provider = this.providers.get(model);
+    if (!provider) {
+      throw new Error(`Unsupported AI model: ${model}`);
+    }
+    return provider.complete({ system: SYSTEM_PROMPT, prompt, schema, context, onToken });
   }
 
-  private buildAnalysisPrompt(query: string, datasetInfo: any): string {
+  private buildAnalysisPrompt(query: string, datasetInfo: AIAnalysisRequest['datasetInfo'], history: ConversationTurn[] = []): string {
     return `
 You are an expert data analyst. Analyze the following dataset and answer the user's question.
 
 DATASET INFORMATION:
 - Columns: ${datasetInfo.columns.join(', ')}
 - Data Types: ${JSON.stringify(datasetInfo.dataTypes)}
-- Sample Data: ${JSON.stringify(datasetInfo.sampleData.slice(0, 5))}
+${this.describeSchema(datasetInfo.columnTypes)}- Sample Data: ${JSON.stringify(datasetInfo.sampleData.slice(0, 5))}
 - Total Rows: ${datasetInfo.rowCount}
-
+${this.describeHistory(history)}
 USER QUERY: ${query}
 
 Please provide:
-1. A clear analysis of the data
-2. Python code to create an appropriate visualization
-3. Explanation of what the visualization shows
+1. A clear analysis of the data (analysis)
+2. Python code to create an appropriate visualization (pythonCode)
+3. The type of chart the code draws (visualizationType)
+4. Explanation of what the visualization shows (explanation)
 
 IMPORTANT: The Python code must:
+- Use the pandas DataFrame \`df\`, which is already loaded with the column schema above applied; do not read the file again
 - Use pandas for data manipulation
 - Use matplotlib, seaborn, or plotly for visualization
 - Handle potential errors gracefully
 - Be complete and runnable
 - Include proper labels and titles
+- Be plain Python source, not wrapped in Markdown code fences
+
+Respond with a JSON object with the string fields analysis, pythonCode, visualizationType and explanation.
+`;
+  }
+
+  private buildChartSpecPrompt(query: string, datasetInfo: AIAnalysisRequest['datasetInfo'], history: ConversationTurn[] = []): string {
+    return `
+You are an expert data analyst. Analyze the following dataset and answer the user's question with a chart.
+
+DATASET INFORMATION:
+- Columns: ${datasetInfo.columns.join(', ')}
+- Data Types: ${JSON.stringify(datasetInfo.dataTypes)}
+${this.describeSchema(datasetInfo.columnTypes)}- Sample Data: ${JSON.stringify(datasetInfo.sampleData.slice(0, 5))}
+- Total Rows: ${datasetInfo.rowCount}
+${this.describeHistory(history)}
+USER QUERY: ${query}
+
+Instead of code, describe the chart declaratively. The server groups the full dataset by the x field (and the series field, if any) and applies the y aggregate. The chart spec has this shape:
+${CHART_SPEC_FORMAT}
+
+Use column names exactly as listed above. Use "count" to count rows, "timeUnit" to group dates, and "sort" with "limit" for top-N questions.
+
+Respond with a JSON object with the string fields analysis, chartSpec (the chart spec serialized as a JSON string), visualizationType and explanation.
+`;
+  }
+
+  private buildRepairPrompt(request: AICodeRepairRequest): string {
+    const { query, datasetInfo, pythonCode, error } = request;
+    const trimmedError = error.length > MAX_REPAIR_ERROR_LENGTH ? `...${error.slice(-MAX_REPAIR_ERROR_LENGTH)}` : error;
+
+    return `
+You are an expert Python developer. The following code was written to answer a question about a dataset, but it failed when it ran.
+
+DATASET INFORMATION:
+- Columns: ${datasetInfo.columns.join(', ')}
+- Data Types: ${JSON.stringify(datasetInfo.dataTypes)}
+${this.describeSchema(datasetInfo.columnTypes)}- Sample Data: ${JSON.stringify(datasetInfo.sampleData.slice(0, 5))}
+- Total Rows: ${datasetInfo.rowCount}
+
+USER QUERY: ${query}
+
+FAILING CODE:
+${pythonCode}
+
+ERROR:
+${trimmedError}
+
+Fix this code. The corrected code must:
+- Keep answering the same question with the same kind of visualization
+- Use the pandas DataFrame \`df\`, which is already loaded; do not read the file again
+- Change only what is needed to fix the error
+- Be complete and runnable on its own, as plain Python source without Markdown code fences
+
+Respond with a JSON object with the string fields fix (what was wrong and what you changed, in one or two sentences) and pythonCode (the complete corrected code).
+`;
+  }
 
-Format your response as:
-ANALYSIS: [your analysis]
-CODE: [python code block]
-VISUALIZATION_TYPE: [type of chart]
-EXPLANATION: [explanation of the visualization]
+  private describeHistory(history: ConversationTurn[]): string {
+    if (history.length === 0) {
+      return '';
+    }
+
+    const turns = history.slice(-MAX_HISTORY_TURNS).map((turn, index) => {
+      const code = turn.pythonCode && turn.pythonCode.length > MAX_HISTORY_CODE_LENGTH
+        ? `${turn.pythonCode.slice(0, MAX_HISTORY_CODE_LENGTH)}\n# ...`
+        : turn.pythonCode;
+      return [
+        `[Turn ${index + 1}] QUESTION: ${turn.query}`,
+        turn.analysis && `ANALYSIS: ${turn.analysis}`,
+        code && `CODE:\n${code}`,
+        turn.chartSpec && `CHART SPEC: ${JSON.stringify(turn.chartSpec)}`,
+        `RESULT: ${turn.outcome}`
+      ].filter(Boolean).join('\n');
+    });
+
+    return `
+CONVERSATION SO FAR (oldest first):
+${turns.join('\n\n')}
+
+The new question may refer to earlier turns ("that chart", "split it by region"). When it does, start from the most recent working code or chart spec and change only what the question asks for.
 `;
   }
 
-  private parseAIResponse(response: string): Omit<AIAnalysisResponse, 'id' | 'timestamp'> {
-    // Extract different sections from AI response
-    const analysisMatch = response.match(/ANALYSIS:\s*(.*?)(?=CODE:|VISUALIZATION_TYPE:|EXPLANATION:|$)/s);
-    const codeMatch = response.match(/CODE:\s*(.*?)(?=ANALYSIS:|VISUALIZATION_TYPE:|EXPLANATION:|$)/s);
-    const visualizationTypeMatch = response.match(/VISUALIZATION_TYPE:\s*(.*?)(?=ANALYSIS:|CODE:|EXPLANATION:|$)/s);
-    const explanationMatch = response.match(/EXPLANATION:\s*(.*?)(?=ANALYSIS:|CODE:|VISUALIZATION_TYPE:|$)/s);
-
-    return {
-      analysis: analysisMatch?.[1]?.trim() || 'Analysis not provided',
-      pythonCode: codeMatch?.[1]?.trim() || 'print("No code generated")',
-      visualizationType: visualizationTypeMatch?.[1]?.trim() || 'Unknown',
-      explanation: explanationMatch?.[1]?.trim() || 'Explanation not provided'
-    };
+  private describeSchema(columnTypes?: Record<string, ColumnTypeInfo>): string {
+    if (!columnTypes) {
+      return '';
+    }
+
+    const lines = Object.entries(columnTypes).map(([column, info]) => {
+      const details = [
+        info.semanticType,
+        info.dateFormat && `format ${info.dateFormat}`,
+        info.locale && `locale ${info.locale}`,
+        info.currencySymbol && `currency ${info.currencySymbol}`,
+        info.decimalSeparator === ',' && 'comma decimal separator',
+        `${info.distinctCount} distinct`,
+        info.nullCount > 0 && `${info.nullCount} empty in sample`
+      ].filter(Boolean).join(', ');
+
+      return `  - ${column}: ${info.type} (${details}; ${Math.round(info.confidence * 100)}% confidence)`;
+    });
+
+    return `- Column Schema:\n${lines.join('\n')}\n`;
   }
 }
@@ -0,0 +1,150 @@
+import { existsSync, unlinkSync } from 'fs';
+import { basename } from 'path';
+import { AnalysisJob, AnalysisJobResult, AnalysisErrorCode } from './analysisJobService.js';
+import { FileProcessingService } from './fileProcessingService.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { ChartOwnershipService } from './chartOwnershipService.js';
+import { workspaceOf } from './workspaceService.js';
+
+// A finished analysis as the Library shows it; it outlives the job queue and the page that asked for it
+export interface AnalysisRecord {
+  // The job that produced it, so a record can be traced back to its progress and attempts
+  id: string;
+  ownerId: string;
+  workspaceId: string;
+  title: string;
+  query: string;
+  datasetId: string;
+  // Kept so the record still reads well after the dataset is renamed or deleted
+  datasetName: string;
+  aiModel: string;
+  outputFormat: string;
+  status: 'done' | 'failed';
+  error?: string;
+  errorCode?: AnalysisErrorCode;
+  analysis?: AnalysisJobResult['analysis'];
+  output?: string;
+  chart?: { path: string; format: string };
+  sessionId?: string;
+  // The record this analysis re-ran, if any
+  rerunOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AnalysisListOptions {
+  workspaceId: string;
+  page: number;
+  pageSize: number;
+  datasetId?: string;
+  status?: AnalysisRecord['status'];
+  search?: string;
+}
+
+export interface AnalysisListResult {
+  analyses: AnalysisRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const reviveRecord = (record: AnalysisRecord): AnalysisRecord => ({
+  ...record,
+  analysis: record.analysis ? { ...record.analysis, timestamp: new Date(record.analysis.timestamp) } : undefined,
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt)
+});
+
+export class AnalysisHistoryService {
+  private records = new JsonFileStore<AnalysisRecord>('analysis-history', reviveRecord);
+  private fileProcessingService = new FileProcessingService();
+  private chartOwnershipService = new ChartOwnershipService();
+
+  // Stores a finished job; cancelled jobs are not worth keeping
+  async record(job: AnalysisJob): Promise<AnalysisRecord | undefined> {
+    if (job.status !== 'done' && job.status !== 'failed') {
+      return undefined;
+    }
+
+    const dataset = await this.fileProcessingService.getDatasetInfo(job.datasetId);
+    // A re-run keeps the title the original was given
+    const original = job.rerunOf ? this.records.get(job.rerunOf) : undefined;
+    const now = new Date();
+    return this.records.put({
+      id: job.id,
+      ownerId: job.ownerId,
+      workspaceId: workspaceOf(job)!,
+      title: original?.title || job.query,
+      query: job.query,
+      datasetId: job.datasetId,
+      datasetName: dataset ? dataset.displayName || dataset.originalName : job.datasetId,
+      aiModel: job.aiModel,
+      outputFormat: job.outputFormat,
+      status: job.status,
+      error: job.error,
+      errorCode: job.errorCode,
+      analysis: job.result?.analysis,
+      output: job.result?.execution?.output,
+      chart: job.result?.chart && { path: job.result.chart.path, format: job.result.chart.format },
+      sessionId: job.sessionId,
+      rerunOf: job.rerunOf,
+      createdAt: job.createdAt,
+      updatedAt: now
+    });
+  }
+
+  getAnalysis(id: string): AnalysisRecord | undefined {
+    return this.records.get(id);
+  }
+
+  // The analysis that produced a chart file in the output directory, if it is still in the history
+  findByChartFile(filename: string): AnalysisRecord | undefined {
+    return this.records.find(record => !!record.chart && basename(record.chart.path) === filename)[0];
+  }
+
+  listAnalyses(options: AnalysisListOptions): AnalysisListResult {
+    const { workspaceId, page, pageSize, datasetId, status } = options;
+    const search = options.search?.toLowerCase();
+
+    const matching = this.records.find(record => {
+      if (workspaceOf(record) !== workspaceId) return false;
+      if (datasetId && record.datasetId !== datasetId) return false;
+      if (status && record.status !== status) return false;
+      if (search && ![record.title, record.query, record.datasetName].some(value => value.toLowerCase().includes(search))) {
+        return false;
+      }
+      return true;
+    }).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const start = (page - 1) * pageSize;
+    return {
+      analyses: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page,
+      pageSize
+    };
+  }
+
+  renameAnalysis(id: string, title: string): AnalysisRecord | undefined {
+    const record = this.records.get(id);
+    if (!record) return undefined;
+
+    return this.records.put({ ...record, title, updatedAt: new Date() });
+  }
+
+  // The chart file belongs to the record, so it goes with it
+  deleteAnalysis(id: string): boolean {
+    const record = this.records.get(id);
+    if (!record) return false;
+
+    if (record.chart && existsSync(record.chart.path)) {
+      try {
+        unlinkSync(record.chart.path);
+        this.chartOwnershipService.release(record.chart.path);
+      } catch (error) {
+        console.error('Chart cleanup error:', error);
+      }
+    }
+    return this.records.remove(id);
+  }
+}
@@ -0,0 +1,559 @@
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from './jsonFileStore.js';
+import { AIService, AIAnalysisRequest, AICodeRepairResponse, ConversationTurn } from './aiService.js';
+import { ChartSpec } from './chartSpec.js';
+import { toVegaLiteSpec } from './vegaLite.js';
+import { AIResponseParseError } from './aiResponseSchema.js';
+import { PythonSandboxService } from './pythonSandboxService.js';
+import { FileProcessingService } from './fileProcessingService.js';
+import { CodeSafetyService, SafetyReport } from './codeSafetyService.js';
+import { SandboxErrorCode } from './sandboxIsolation.js';
+import { createUnifiedDiff } from './codeDiff.js';
+import { AnalysisSessionService } from './analysisSessionService.js';
+import { AnalysisHistoryService } from './analysisHistoryService.js';
+import { ChartOwnershipService } from './chartOwnershipService.js';
+import { workspaceOf } from './workspaceService.js';
+
+// Image and HTML formats are drawn by Python; a chart spec is answered declaratively and evaluated without running code,
+// and Vega-Lite is the same evaluated chart written out as a portable spec
+export type AnalysisOutputFormat = 'png' | 'jpg' | 'svg' | 'html' | 'chart-spec' | 'vega-lite';
+
+export const ANALYSIS_OUTPUT_FORMATS: AnalysisOutputFormat[] = ['png', 'jpg', 'svg', 'html', 'chart-spec', 'vega-lite'];
+
+const isDeclarativeFormat = (format: AnalysisOutputFormat): format is 'chart-spec' | 'vega-lite' =>
+  format === 'chart-spec' || format === 'vega-lite';
+
+// What code posted to /api/analyze/execute may be asked to draw
+export const PYTHON_OUTPUT_FORMATS = ANALYSIS_OUTPUT_FORMATS.filter(format => !isDeclarativeFormat(format));
+
+export type AnalysisJobStatus = 'queued' | 'generating' | 'executing' | 'repairing' | 'done' | 'failed' | 'cancelled';
+
+export type AnalysisErrorCode =
+  | SandboxErrorCode
+  | 'DATASET_NOT_FOUND'
+  | 'GENERATION_FAILED'
+  | 'INVALID_MODEL_RESPONSE'
+  | 'UNSAFE_CODE'
+  | 'INTERRUPTED';
+
+export interface AnalysisJobInput {
+  // The user who submitted the job and the workspace its analysis and chart belong to
+  ownerId: string;
+  workspaceId: string;
+  query: string;
+  datasetId: string;
+  aiModel: AIAnalysisRequest['model'];
+  outputFormat: AnalysisOutputFormat;
+  // Set for turns of an analysis session, whose earlier turns go into the prompt
+  sessionId?: string;
+  turnId?: string;
+  // The history record a Library re-run started from
+  rerunOf?: string;
+}
+
+// One run of the code in the sandbox; attempts after the first run code the model repaired
+export interface AnalysisAttempt {
+  attempt: number;
+  pythonCode: string;
+  safety: SafetyReport;
+  success: boolean;
+  output: string;
+  error?: string;
+  errorCode?: AnalysisErrorCode;
+  // How this attempt's code differs from the previous attempt, and the model's reason for the change
+  diff?: string;
+  fix?: string;
+}
+
+export interface AnalysisJobResult {
+  analysis: {
+    id: string;
+    query: string;
+    analysis: string;
+    // Empty for chart spec jobs, which set chartSpec instead
+    pythonCode: string;
+    chartSpec?: ChartSpec;
+    visualizationType: string;
+    explanation: string;
+    timestamp: Date;
+  };
+  safety?: SafetyReport;
+  // Only where the chart was saved; its contents are served from the file, so job records stay small
+  chart?: {
+    path: string;
+    format: string;
+  };
+  execution?: {
+    output: string;
+    success: boolean;
+  };
+  attempts?: AnalysisAttempt[];
+}
+
+export interface AnalysisJob extends AnalysisJobInput {
+  id: string;
+  status: AnalysisJobStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  // Filled in as soon as it is known, so a failed execution still shows the generated code
+  result?: AnalysisJobResult;
+  error?: string;
+  errorCode?: AnalysisErrorCode;
+}
+
+// Everything a live client sees, in order: status changes plus the pipeline's intermediate output
+export type AnalysisJobEvent =
+  | { type: 'status'; job: AnalysisJob }
+  | { type: 'generation_started' }
+  | { type: 'token'; text: string }
+  | { type: 'code_ready'; pythonCode: string; safety: SafetyReport; attempt: number }
+  | { type: 'repair_started'; attempt: number; error: string }
+  | { type: 'stdout'; line: string }
+  | { type: 'chart_saved'; chart: NonNullable<AnalysisJobResult['chart']> };
+
+// Streamed text and output so far, for clients that connect after a job has started
+export interface AnalysisJobProgress {
+  text: string;
+  output: string[];
+}
+
+const TERMINAL_STATUSES: AnalysisJobStatus[] = ['done', 'failed', 'cancelled'];
+const MAX_LISTED_JOBS = 50;
+// Finished jobs are only kept for clients still following them; the analysis history keeps their results
+const FINISHED_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Failures a change to the code can fix; a missing sandbox or a cancellation cannot
+const REPAIRABLE_ERRORS: AnalysisErrorCode[] = ['EXECUTION_FAILED', 'TIMEOUT', 'CPU_LIMIT_EXCEEDED', 'MEMORY_LIMIT_EXCEEDED', 'OUTPUT_LIMIT_EXCEEDED'];
+// Output lines sent to the model along with the error, since scripts often print their own errors
+const REPAIR_OUTPUT_LINES = 20;
+// Output lines of an earlier session turn shown to the model
+const HISTORY_OUTPUT_LINES = 10;
+
+const reviveJob = (job: AnalysisJob): AnalysisJob => ({
+  ...job,
+  // Jobs stored before charts were left out of them still carry the chart contents
+  result: job.result?.chart ? { ...job.result, chart: { path: job.result.chart.path, format: job.result.chart.format } } : job.result,
+  createdAt: new Date(job.createdAt),
+  updatedAt: new Date(job.updatedAt),
+  startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+  finishedAt: job.finishedAt ? new Date(job.finishedAt) : undefined
+});
+
+// Queue state is shared by every service instance, like the stores, so the worker limit is global
+const pending: string[] = [];
+const running = new Map<string, AbortController>();
+const progress = new Map<string, AnalysisJobProgress>();
+const jobEvents = new EventEmitter();
+// Sandbox work that is not an analysis, such as a dashboard refresh, waits in the same queue by ID
+const tasks = new Map<string, () => Promise<void>>();
+jobEvents.setMaxListeners(0);
+let recovered = false;
+
+export class AnalysisJobService {
+  private jobs = new JsonFileStore<AnalysisJob>('analysis-jobs', reviveJob);
+  private aiService = new AIService();
+  private pythonSandboxService = new PythonSandboxService();
+  private fileProcessingService = new FileProcessingService();
+  private codeSafetyService = new CodeSafetyService();
+  private sessionService = new AnalysisSessionService();
+  private historyService = new AnalysisHistoryService();
+  private chartOwnershipService = new ChartOwnershipService();
+  private maxWorkers: number;
+  private maxRepairs: number;
+
+  constructor() {
+    const workers = Number(process.env.PYTHON_MAX_WORKERS);
+    this.maxWorkers = Number.isInteger(workers) && workers > 0 ? workers : 2;
+    const repairs = Number(process.env.PYTHON_REPAIR_ATTEMPTS);
+    this.maxRepairs = process.env.PYTHON_REPAIR_ATTEMPTS && Number.isInteger(repairs) && repairs >= 0 ? repairs : 2;
+
+    if (!recovered) {
+      recovered = true;
+      this.failInterruptedJobs();
+    }
+  }
+
+  // Jobs that were in flight when the server stopped can never finish
+  private failInterruptedJobs() {
+    for (const job of this.jobs.find(job => !TERMINAL_STATUSES.includes(job.status))) {
+      this.update(job, { status: 'failed', error: 'The server restarted before the job finished', errorCode: 'INTERRUPTED', finishedAt: new Date() });
+    }
+  }
+
+  submit(input: AnalysisJobInput): AnalysisJob {
+    this.pruneFinishedJobs();
+    const now = new Date();
+    const job = this.jobs.put({ ...input, id: uuidv4(), status: 'queued', createdAt: now, updatedAt: now });
+
+    pending.push(job.id);
+    this.pump();
+    return job;
+  }
+
+  // Drops finished jobs older than FINISHED_JOB_TTL_MS, except the latest run of a session turn, which its conversation still shows
+  private pruneFinishedJobs() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const job of this.jobs.find(job => this.isFinished(job) && job.updatedAt.getTime() < cutoff)) {
+      const session = job.sessionId ? this.sessionService.getSession(job.sessionId) : undefined;
+      if (!session?.turns.some(turn => turn.jobId === job.id)) {
+        this.jobs.remove(job.id);
+      }
+    }
+  }
+
+  // Runs the work once a worker is free, so it counts against PYTHON_MAX_WORKERS like an analysis job
+  runWithWorker<T>(work: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const id = uuidv4();
+      tasks.set(id, () => work().then(resolve, reject));
+      pending.push(id);
+      this.pump();
+    });
+  }
+
+  getJob(id: string): AnalysisJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  listJobs(workspaceId: string, status?: AnalysisJobStatus): AnalysisJob[] {
+    return this.jobs.find(job => workspaceOf(job) === workspaceId && (!status || job.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, MAX_LISTED_JOBS);
+  }
+
+  isFinished(job: AnalysisJob): boolean {
+    return TERMINAL_STATUSES.includes(job.status);
+  }
+
+  // Returns undefined when the job does not exist; finished jobs are returned unchanged
+  cancel(id: string): AnalysisJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || this.isFinished(job)) {
+      return job;
+    }
+
+    const queuedIndex = pending.indexOf(id);
+    if (queuedIndex !== -1) {
+      pending.splice(queuedIndex, 1);
+    }
+    running.get(id)?.abort();
+
+    return this.update(job, { status: 'cancelled', error: 'The job was cancelled', errorCode: 'CANCELLED', finishedAt: new Date() });
+  }
+
+  getProgress(id: string): AnalysisJobProgress | undefined {
+    return progress.get(id);
+  }
+
+  // Calls the listener with every event of the job; returns the unsubscribe function
+  subscribe(id: string, listener: (event: AnalysisJobEvent) => void): () => void {
+    jobEvents.on(id, listener);
+    return () => {
+      jobEvents.off(id, listener);
+    };
+  }
+
+  waitFor(id: string): Promise<AnalysisJob> {
+    return new Promise((resolve, reject) => {
+      const job = this.jobs.get(id);
+      if (!job) {
+        reject(new Error(`Job ${id} not found`));
+        return;
+      }
+      if (this.isFinished(job)) {
+        resolve(job);
+        return;
+      }
+
+      const unsubscribe = this.subscribe(id, event => {
+        if (event.type === 'status' && this.isFinished(event.job)) {
+          unsubscribe();
+          resolve(event.job);
+        }
+      });
+    });
+  }
+
+  private update(job: AnalysisJob, changes: Partial<AnalysisJob>): AnalysisJob {
+    const updated = this.jobs.put({ ...job, ...changes, updatedAt: new Date() });
+    this.emit(job.id, { type: 'status', job: updated });
+    if (this.isFinished(updated)) {
+      this.historyService.record(updated).catch(error => console.error('Analysis history error:', error));
+    }
+    return updated;
+  }
+
+  private emit(id: string, event: AnalysisJobEvent) {
+    jobEvents.emit(id, event);
+  }
+
+  // A cancelled job keeps its terminal status even if its worker finishes afterwards
+  private advance(id: string, changes: Partial<AnalysisJob>): AnalysisJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || this.isFinished(job)) {
+      return undefined;
+    }
+    return this.update(job, changes);
+  }
+
+  private pump() {
+    while (running.size < this.maxWorkers && pending.length > 0) {
+      const id = pending.shift()!;
+      const controller = new AbortController();
+      running.set(id, controller);
+
+      const task = tasks.get(id);
+      if (task) {
+        tasks.delete(id);
+        task().finally(() => {
+          running.delete(id);
+          this.pump();
+        });
+        continue;
+      }
+
+      progress.set(id, { text: '', output: [] });
+
+      this.run(id, controller.signal)
+        .catch(error => {
+          console.error('Analysis job error:', error);
+          this.advance(id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            errorCode: error instanceof AIResponseParseError ? 'INVALID_MODEL_RESPONSE' : 'GENERATION_FAILED',
+            finishedAt: new Date()
+          });
+        })
+        .finally(() => {
+          running.delete(id);
+          progress.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string, signal: AbortSignal) {
+    const job = this.advance(id, { status: 'generating', startedAt: new Date() });
+    if (!job) return;
+    const jobProgress = progress.get(id)!;
+
+    const datasetInfo = await this.fileProcessingService.getDatasetInfo(job.datasetId);
+    if (!datasetInfo) {
+      this.advance(id, { status: 'failed', error: 'Dataset not found', errorCode: 'DATASET_NOT_FOUND', finishedAt: new Date() });
+      return;
+    }
+
+    this.emit(id, { type: 'generation_started' });
+    const aiRequest: AIAnalysisRequest = {
+      query: job.query,
+      datasetInfo: {
+        columns: datasetInfo.columns,
+        sampleData: datasetInfo.sampleData,
+        dataTypes: datasetInfo.dataTypes,
+        columnTypes: datasetInfo.columnTypes,
+        rowCount: datasetInfo.rowCount
+      },
+      model: job.aiModel,
+      history: this.buildHistory(job)
+    };
+    if (isDeclarativeFormat(job.outputFormat)) {
+      await this.runChartSpec(job, aiRequest, signal);
+      return;
+    }
+
+    const aiResponse = await this.aiService.analyzeData({
+      ...aiRequest,
+      onToken: text => {
+        jobProgress.text += text;
+        this.emit(id, { type: 'token', text });
+      }
+    });
+    if (signal.aborted) return;
+
+    const result: AnalysisJobResult = {
+      analysis: {
+        id: aiResponse.id,
+        query: job.query,
+        analysis: aiResponse.analysis,
+        pythonCode: aiResponse.pythonCode,
+        visualizationType: aiResponse.visualizationType,
+        explanation: aiResponse.explanation,
+        timestamp: aiResponse.timestamp
+      }
+    };
+
+    let pythonCode = aiResponse.pythonCode;
+    let repair: Pick<AnalysisAttempt, 'diff' | 'fix'> = {};
+    result.attempts = [];
+
+    for (let attempt = 1; ; attempt++) {
+      // Check the code before it reaches the sandbox, including code the model repaired
+      const safety = await this.codeSafetyService.analyze(pythonCode);
+      result.safety = safety;
+      result.analysis.pythonCode = pythonCode;
+      this.emit(id, { type: 'code_ready', pythonCode, safety, attempt });
+
+      if (!safety.safe) {
+        const error = 'Generated code was blocked by safety checks';
+        result.attempts.push({ attempt, pythonCode, safety, success: false, output: '', error, errorCode: 'UNSAFE_CODE', ...repair });
+        this.advance(id, { status: 'failed', result, error, errorCode: 'UNSAFE_CODE', finishedAt: new Date() });
+        return;
+      }
+
+      if (!this.advance(id, { status: 'executing', result })) return;
+
+      const executionResult = await this.pythonSandboxService.executePythonCode({
+        pythonCode,
+        dataset: datasetInfo,
+        outputFormat: job.outputFormat,
+        signal,
+        onOutput: line => {
+          jobProgress.output.push(line);
+          this.emit(id, { type: 'stdout', line });
+        }
+      });
+      const succeeded = executionResult.success && !!executionResult.chartPath;
+      const error = executionResult.error || 'Chart generation failed';
+      const errorCode = executionResult.errorCode || 'EXECUTION_FAILED';
+
+      result.execution = { output: executionResult.output, success: executionResult.success };
+      result.attempts.push({
+        attempt,
+        pythonCode,
+        safety,
+        success: succeeded,
+        output: executionResult.output,
+        ...(!succeeded && { error, errorCode }),
+        ...repair
+      });
+
+      if (succeeded) {
+        result.chart = { path: executionResult.chartPath!, format: job.outputFormat };
+        this.chartOwnershipService.claim(result.chart.path, job.ownerId, workspaceOf(job)!);
+        this.emit(id, { type: 'chart_saved', chart: result.chart });
+        this.advance(id, { status: 'done', result, finishedAt: new Date() });
+        return;
+      }
+
+      const fail = () => this.advance(id, { status: 'failed', result, error, errorCode, finishedAt: new Date() });
+      if (attempt > this.maxRepairs || !REPAIRABLE_ERRORS.includes(errorCode) || signal.aborted) {
+        fail();
+        return;
+      }
+
+      if (!this.advance(id, { status: 'repairing', result })) return;
+      this.emit(id, { type: 'repair_started', attempt: attempt + 1, error });
+      jobProgress.text += `\n\n--- Repair attempt ${attempt + 1} ---\n`;
+      jobProgress.output.push(`--- Attempt ${attempt} failed: ${error.split('\n')[0]} ---`);
+
+      let repaired: AICodeRepairResponse;
+      try {
+        repaired = await this.aiService.repairCode({
+          query: job.query,
+          datasetInfo: aiRequest.datasetInfo,
+          model: job.aiModel,
+          pythonCode,
+          error: this.describeFailure(error, executionResult.output),
+          onToken: text => {
+            jobProgress.text += text;
+            this.emit(id, { type: 'token', text });
+          }
+        });
+      } catch (repairError) {
+        // The execution error is what the user needs to see, not the failed repair request
+        console.error('Code repair error:', repairError);
+        fail();
+        return;
+      }
+      if (signal.aborted) return;
+
+      // A repair that changes nothing would only fail the same way again
+      if (!repaired.pythonCode.trim() || repaired.pythonCode === pythonCode) {
+        fail();
+        return;
+      }
+
+      repair = {
+        diff: createUnifiedDiff(pythonCode, repaired.pythonCode, `attempt-${attempt}.py`, `attempt-${attempt + 1}.py`),
+        fix: repaired.explanation
+      };
+      pythonCode = repaired.pythonCode;
+    }
+  }
+
+  // A chart spec needs no sandbox: the spec is validated when it is generated and then evaluated over the dataset
+  private async runChartSpec(job: AnalysisJob, aiRequest: AIAnalysisRequest, signal: AbortSignal) {
+    const jobProgress = progress.get(job.id)!;
+    const aiResponse = await this.aiService.generateChartSpec({
+      ...aiRequest,
+      onToken: text => {
+        jobProgress.text += text;
+        this.emit(job.id, { type: 'token', text });
+      }
+    });
+    if (signal.aborted) return;
+
+    const { chartSpec, ...response } = aiResponse;
+    const result: AnalysisJobResult = {
+      analysis: { ...response, query: job.query, pythonCode: '', chartSpec }
+    };
+    if (!this.advance(job.id, { status: 'executing', result })) return;
+
+    const chartData = await this.fileProcessingService.evaluateChartSpec(job.datasetId, chartSpec);
+    if (!chartData) {
+      this.advance(job.id, { status: 'failed', result, error: 'Dataset not found', errorCode: 'DATASET_NOT_FOUND', finishedAt: new Date() });
+      return;
+    }
+
+    // Saved like any other chart so it can be downloaded and is removed with its analysis
+    const outputDir = join(process.cwd(), 'output');
+    if (!existsSync(outputDir)) {
+      mkdirSync(outputDir, { recursive: true });
+    }
+    const chartFile = job.outputFormat === 'vega-lite'
+      ? { name: `${uuidv4()}.vl.json`, data: toVegaLiteSpec(chartData, aiResponse.explanation) }
+      : { name: `${uuidv4()}.json`, data: chartData };
+    const chartPath = join(outputDir, chartFile.name);
+    writeFileSync(chartPath, JSON.stringify(chartFile.data, null, 2));
+
+    const summary = `Evaluated ${chartData.sourceRows} rows into ${chartData.rows.length} points${chartData.truncated ? ' (truncated)' : ''}`;
+    jobProgress.output.push(summary);
+    this.emit(job.id, { type: 'stdout', line: summary });
+
+    result.execution = { output: summary, success: true };
+    result.chart = { path: chartPath, format: job.outputFormat };
+    this.chartOwnershipService.claim(chartPath, job.ownerId, workspaceOf(job)!);
+    this.emit(job.id, { type: 'chart_saved', chart: result.chart });
+    this.advance(job.id, { status: 'done', result, finishedAt: new Date() });
+  }
+
+  // What the model should know about the session turns asked before this job's turn
+  private buildHistory(job: AnalysisJob): ConversationTurn[] | undefined {
+    if (!job.sessionId || !job.turnId) return undefined;
+
+    return this.sessionService.turnsBefore(job.sessionId, job.turnId).map(turn => {
+      const previous = this.jobs.get(turn.jobId);
+      const result = previous?.result;
+      const output = result?.execution?.output.split('\n').slice(-HISTORY_OUTPUT_LINES).join('\n').trim();
+
+      return {
+        query: turn.query,
+        pythonCode: result?.analysis.pythonCode || undefined,
+        chartSpec: result?.analysis.chartSpec,
+        analysis: result?.analysis.analysis,
+        outcome: previous?.status === 'done'
+          ? `succeeded${output ? `, last output:\n${output}` : ''}`
+          : previous && this.isFinished(previous) ? `failed: ${previous.error}` : 'not finished'
+      };
+    });
+  }
+
+  private describeFailure(error: string, output: string): string {
+    const lines = output.split('\n').slice(-REPAIR_OUTPUT_LINES).join('\n').trim();
+    return lines ? `${error}\n\nLast output before the failure:\n${lines}` : error;
+  }
+}
@@ -0,0 +1,99 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from './jsonFileStore.js';
+import { workspaceOf } from './workspaceService.js';
+
+export interface SessionTurn {
+  id: string;
+  query: string;
+  // The job holding the latest run of this turn; earlier runs are kept when it is re-run
+  jobId: string;
+  previousJobIds: string[];
+  createdAt: Date;
+}
+
+// A conversation about one dataset, where each turn sees the questions and results before it
+export interface AnalysisSession {
+  id: string;
+  ownerId: string;
+  workspaceId: string;
+  datasetId: string;
+  title: string;
+  turns: SessionTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+const reviveSession = (session: AnalysisSession): AnalysisSession => ({
+  ...session,
+  createdAt: new Date(session.createdAt),
+  updatedAt: new Date(session.updatedAt),
+  turns: session.turns.map(turn => ({ ...turn, createdAt: new Date(turn.createdAt) }))
+});
+
+const titleFromQuery = (query: string) =>
+  query.length > MAX_TITLE_LENGTH ? `${query.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : query;
+
+export class AnalysisSessionService {
+  private sessions = new JsonFileStore<AnalysisSession>('analysis-sessions', reviveSession);
+
+  createSession(ownerId: string, workspaceId: string, datasetId: string, title?: string): AnalysisSession {
+    const now = new Date();
+    return this.sessions.put({ id: uuidv4(), ownerId, workspaceId, datasetId, title: title?.trim() || '', turns: [], createdAt: now, updatedAt: now });
+  }
+
+  getSession(id: string): AnalysisSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  listSessions(workspaceId: string, datasetId?: string): AnalysisSession[] {
+    return this.sessions.find(session => workspaceOf(session) === workspaceId && (!datasetId || session.datasetId === datasetId))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  deleteSession(id: string): boolean {
+    return this.sessions.remove(id);
+  }
+
+  // The turn is added before its job exists so the job can find its place in the conversation
+  addTurn(sessionId: string, query: string): SessionTurn | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const turn: SessionTurn = { id: uuidv4(), query, jobId: '', previousJobIds: [], createdAt: new Date() };
+    this.sessions.put({
+      ...session,
+      // Untitled sessions are named after their first question
+      title: session.title || titleFromQuery(query),
+      turns: [...session.turns, turn],
+      updatedAt: new Date()
+    });
+    return turn;
+  }
+
+  setTurnJob(sessionId: string, turnId: string, jobId: string): SessionTurn | undefined {
+    const session = this.sessions.get(sessionId);
+    const turn = session?.turns.find(candidate => candidate.id === turnId);
+    if (!session || !turn) return undefined;
+
+    const updated: SessionTurn = {
+      ...turn,
+      jobId,
+      previousJobIds: turn.jobId ? [...turn.previousJobIds, turn.jobId] : turn.previousJobIds
+    };
+    this.sessions.put({
+      ...session,
+      turns: session.turns.map(candidate => (candidate.id === turnId ? updated : candidate)),
+      updatedAt: new Date()
+    });
+    return updated;
+  }
+
+  // Turns asked before the given one; the whole conversation when the turn is unknown
+  turnsBefore(sessionId: string, turnId: string): SessionTurn[] {
+    const turns = this.sessions.get(sessionId)?.turns || [];
+    const index = turns.findIndex(turn => turn.id === turnId);
+    return index === -1 ? turns : turns.slice(0, index);
+  }
+}
@@ -0,0 +1,204 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from './jsonFileStore.js';
+
+export interface User {
+  id: string;
+  // Stored lowercased, so it is matched case-insensitively
+  email: string;
+  name: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+// A refresh token handed out at login; it is revoked when it is exchanged or the user logs out
+interface RefreshTokenRecord {
+  // The token's jti claim
+  id: string;
+  userId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface AuthSession {
+  user: PublicUser;
+  accessToken: string;
+  refreshToken: string;
+  // Lifetimes in seconds, also used as the cookies' max age
+  accessTokenExpiresIn: number;
+  refreshTokenExpiresIn: number;
+}
+
+interface TokenClaims {
+  sub: string;
+  type: 'access' | 'refresh';
+  jti?: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+const BCRYPT_ROUNDS = 10;
+const PLACEHOLDER_SECRET = 'your_jwt_secret_here';
+
+const reviveUser = (user: User): User => ({
+  ...user,
+  createdAt: new Date(user.createdAt)
+});
+
+const reviveRefreshToken = (token: RefreshTokenRecord): RefreshTokenRecord => ({
+  ...token,
+  expiresAt: new Date(token.expiresAt),
+  revokedAt: token.revokedAt ? new Date(token.revokedAt) : undefined
+});
+
+const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+// Resolved on first use, after dotenv has loaded; outside production a missing secret falls back to a random one
+let jwtSecret: string | undefined;
+const getJwtSecret = (): string => {
+  if (jwtSecret) return jwtSecret;
+
+  const configured = process.env.JWT_SECRET;
+  if (configured && configured !== PLACEHOLDER_SECRET) {
+    jwtSecret = configured;
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new AuthError('Authentication is not configured', 500, 'JWT_SECRET must be set in production');
+  } else {
+    console.warn('JWT_SECRET is not set; using a random secret, so sessions end when the server restarts');
+    jwtSecret = randomBytes(48).toString('hex');
+  }
+  return jwtSecret;
+};
+
+export class AuthService {
+  private users = new JsonFileStore<User>('users', reviveUser);
+  private refreshTokens = new JsonFileStore<RefreshTokenRecord>('refresh-tokens', reviveRefreshToken);
+
+  async signup(email: string, password: string, name?: string): Promise<AuthSession> {
+    const normalized = email.trim().toLowerCase();
+    if (this.findByEmail(normalized)) {
+      throw new AuthError('An account with this email already exists', 409);
+    }
+
+    const user = this.users.put({
+      id: uuidv4(),
+      email: normalized,
+      name: name?.trim() || normalized.split('@')[0],
+      passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      createdAt: new Date()
+    });
+    return this.issueSession(user);
+  }
+
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = this.findByEmail(email.trim().toLowerCase());
+    // The same message for an unknown email and a wrong password, so accounts cannot be probed
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw new AuthError('Invalid email or password', 401);
+    }
+    return this.issueSession(user);
+  }
+
+  // Exchanges a refresh token for a new pair; each refresh token works once
+  refresh(refreshToken: string): AuthSession {
+    const claims = this.verify(refreshToken, 'refresh');
+    const record = claims?.jti ? this.refreshTokens.get(claims.jti) : undefined;
+    if (!claims || !record || record.userId !== claims.sub) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+    if (record.revokedAt) {
+      // A revoked token coming back means it was copied; end every session of the account
+      this.revokeAll(record.userId);
+      throw new AuthError('Invalid refresh token', 401);
+    }
+
+    const user = this.users.get(record.userId);
+    if (!user) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+    this.refreshTokens.put({ ...record, revokedAt: new Date() });
+    return this.issueSession(user);
+  }
+
+  logout(refreshToken: string) {
+    const claims = this.verify(refreshToken, 'refresh');
+    const record = claims?.jti ? this.refreshTokens.get(claims.jti) : undefined;
+    if (record && !record.revokedAt) {
+      this.refreshTokens.put({ ...record, revokedAt: new Date() });
+    }
+  }
+
+  // The user an access token was issued to, if the token is valid and the account still exists
+  authenticate(accessToken: string): PublicUser | undefined {
+    const claims = this.verify(accessToken, 'access');
+    const user = claims ? this.users.get(claims.sub) : undefined;
+    return user && toPublicUser(user);
+  }
+
+  getUser(id: string): PublicUser | undefined {
+    const user = this.users.get(id);
+    return user && toPublicUser(user);
+  }
+
+  findUserByEmail(email: string): PublicUser | undefined {
+    const user = this.findByEmail(email.trim().toLowerCase());
+    return user && toPublicUser(user);
+  }
+
+  private findByEmail(email: string): User | undefined {
+    return this.users.find(user => user.email === email)[0];
+  }
+
+  private verify(token: string, type: TokenClaims['type']): TokenClaims | undefined {
+    try {
+      const claims = jwt.verify(token, getJwtSecret()) as TokenClaims;
+      return claims.type === type && typeof claims.sub === 'string' ? claims : undefined;
+    } catch (error) {
+      if (error instanceof AuthError) throw error;
+      return undefined;
+    }
+  }
+
+  private issueSession(user: User): AuthSession {
+    const secret = getJwtSecret();
+    const jti = uuidv4();
+    this.pruneRefreshTokens();
+    this.refreshTokens.put({
+      id: jti,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+    });
+
+    return {
+      user: toPublicUser(user),
+      accessToken: jwt.sign({ type: 'access' }, secret, { subject: user.id, expiresIn: ACCESS_TOKEN_TTL_SECONDS }),
+      refreshToken: jwt.sign({ type: 'refresh' }, secret, { subject: user.id, jwtid: jti, expiresIn: REFRESH_TOKEN_TTL_SECONDS }),
+      accessTokenExpiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      refreshTokenExpiresIn: REFRESH_TOKEN_TTL_SECONDS
+    };
+  }
+
+  private revokeAll(userId: string) {
+    const now = new Date();
+    this.refreshTokens.find(token => token.userId === userId && !token.revokedAt)
+      .forEach(token => this.refreshTokens.put({ ...token, revokedAt: now }));
+  }
+
+  // Expired tokens can no longer be replayed, so their records are dropped
+  private pruneRefreshTokens() {
+    const now = Date.now();
+    this.refreshTokens.find(token => token.expiresAt.getTime() < now)
+      .forEach(token => this.refreshTokens.remove(token.id));
+  }
+}
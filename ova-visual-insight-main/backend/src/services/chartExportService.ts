@@ -0,0 +1,142 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { AnalysisHistoryService, AnalysisRecord } from './analysisHistoryService.js';
+import { ChartData } from './chartSpec.js';
+import { CodeSafetyService } from './codeSafetyService.js';
+import { FileProcessingService } from './fileProcessingService.js';
+import { PythonSandboxService, ChartFileFormat, ChartRenderOptions, PythonExecutionResult } from './pythonSandboxService.js';
+
+export const CHART_EXPORT_FORMATS: ChartFileFormat[] = ['png', 'jpg', 'svg', 'pdf', 'webp', 'html'];
+
+// Raster files Pillow can read when a chart has to be converted instead of re-rendered
+const CONVERTIBLE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+export interface ChartExportOptions extends ChartRenderOptions {
+  targetFormat: ChartFileFormat;
+}
+
+// How the exported file was made: from the analysis' chart spec, by running its code again, or from the file itself
+export type ChartExportMethod = 'spec' | 'code' | 'conversion';
+
+export interface ChartExport {
+  filename: string;
+  path: string;
+  format: ChartFileFormat;
+  size: number;
+  method: ChartExportMethod;
+  // The analysis the chart belongs to, when it is still in the history
+  analysisId?: string;
+  // Why a re-render was skipped or failed before falling back to conversion
+  notes: string[];
+}
+
+// The export could not be made; statusCode is what the endpoint should answer with
+export class ChartExportError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'ChartExportError';
+  }
+}
+
+export class ChartExportService {
+  private outputDir = join(process.cwd(), 'output');
+  private historyService = new AnalysisHistoryService();
+  private fileProcessingService = new FileProcessingService();
+  private pythonSandboxService = new PythonSandboxService();
+  private codeSafetyService = new CodeSafetyService();
+
+  // Re-renders from the stored spec or code when possible, since that keeps vectors and text sharp at any size
+  async exportChart(filename: string, options: ChartExportOptions): Promise<ChartExport> {
+    const sourcePath = join(this.outputDir, basename(filename));
+    if (!existsSync(sourcePath)) {
+      throw new ChartExportError('Chart not found', 404);
+    }
+
+    const { targetFormat, ...render } = options;
+    const record = this.historyService.findByChartFile(basename(filename));
+    const notes: string[] = [];
+    const finish = (result: PythonExecutionResult, method: ChartExportMethod): ChartExport => ({
+      filename: basename(result.chartPath!),
+      path: result.chartPath!,
+      format: targetFormat,
+      size: statSync(result.chartPath!).size,
+      method,
+      analysisId: record?.id,
+      notes
+    });
+
+    const chartData = await this.loadChartData(sourcePath, record, notes);
+    if (chartData) {
+      const result = await this.pythonSandboxService.renderChartData(chartData, targetFormat, render);
+      if (result.success) return finish(result, 'spec');
+      notes.push(`Rendering the chart spec failed: ${result.error}`);
+    } else if (record?.analysis?.pythonCode) {
+      const result = await this.rerunCode(record, targetFormat, render, notes);
+      if (result?.success) return finish(result, 'code');
+      if (result) notes.push(`Re-running the analysis code failed: ${result.error}`);
+    } else if (!record) {
+      notes.push('The analysis that made this chart is not in the history, so it cannot be re-rendered');
+    }
+
+    const extension = sourcePath.split('.').pop()?.toLowerCase() || '';
+    if (!CONVERTIBLE_EXTENSIONS.includes(extension)) {
+      throw new ChartExportError(
+        `${extension.toUpperCase()} charts can only be exported by re-rendering them, which is not possible for this one`,
+        422,
+        notes.join('; ')
+      );
+    }
+
+    const result = await this.pythonSandboxService.convertChartImage(sourcePath, targetFormat, render);
+    if (!result.success) {
+      throw new ChartExportError('Chart conversion failed', 500, result.error);
+    }
+    return finish(result, 'conversion');
+  }
+
+  // Spec charts are evaluated again so the export reflects the current dataset; the saved data is used if it is gone
+  private async loadChartData(sourcePath: string, record: AnalysisRecord | undefined, notes: string[]): Promise<ChartData | null> {
+    const spec = record?.analysis?.chartSpec;
+    if (record && spec) {
+      const chartData = await this.fileProcessingService.evaluateChartSpec(record.datasetId, spec);
+      if (chartData) return chartData;
+      notes.push('The dataset of this chart was deleted, so the spec cannot be evaluated again');
+    }
+
+    // A native chart's file is its evaluated data; a Vega-Lite file is not, and needs the dataset
+    if (sourcePath.endsWith('.json') && !sourcePath.endsWith('.vl.json')) {
+      try {
+        const saved = JSON.parse(readFileSync(sourcePath, 'utf-8'));
+        if (saved && saved.spec && Array.isArray(saved.rows) && Array.isArray(saved.series)) {
+          return saved as ChartData;
+        }
+      } catch (error) {
+        console.error('Chart data read error:', error);
+      }
+    }
+    return null;
+  }
+
+  // The code already ran once, but it is checked again in case the safety rules have changed since
+  private async rerunCode(
+    record: AnalysisRecord,
+    targetFormat: ChartFileFormat,
+    render: ChartRenderOptions,
+    notes: string[]
+  ): Promise<PythonExecutionResult | null> {
+    const dataset = await this.fileProcessingService.getDatasetInfo(record.datasetId);
+    if (!dataset) {
+      notes.push('The dataset of this chart was deleted, so its code cannot run again');
+      return null;
+    }
+
+    const pythonCode = record.analysis!.pythonCode;
+    const safety = await this.codeSafetyService.analyze(pythonCode);
+    if (!safety.safe) {
+      notes.push('The analysis code no longer passes the safety checks');
+      return null;
+    }
+
+    return this.pythonSandboxService.executePythonCode({ pythonCode, dataset, outputFormat: targetFormat, render });
+  }
+}
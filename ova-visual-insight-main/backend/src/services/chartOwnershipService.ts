@@ -0,0 +1,38 @@
+import { basename } from 'path';
+import { JsonFileStore } from './jsonFileStore.js';
+import { workspaceOf } from './workspaceService.js';
+
+// Who a file in the output directory belongs to; analyses, exports and dashboard tiles all write there
+export interface ChartOwner {
+  // The file name within the output directory
+  id: string;
+  ownerId: string;
+  workspaceId: string;
+  createdAt: Date;
+}
+
+const reviveChartOwner = (owner: ChartOwner): ChartOwner => ({
+  ...owner,
+  createdAt: new Date(owner.createdAt)
+});
+
+export class ChartOwnershipService {
+  private owners = new JsonFileStore<ChartOwner>('chart-owners', reviveChartOwner);
+
+  // Accepts a file name or a path into the output directory
+  claim(chartPath: string, ownerId: string, workspaceId: string) {
+    this.owners.put({ id: basename(chartPath), ownerId, workspaceId, createdAt: new Date() });
+  }
+
+  getOwner(chartPath: string): ChartOwner | undefined {
+    return this.owners.get(basename(chartPath));
+  }
+
+  listInWorkspace(workspaceId: string): string[] {
+    return this.owners.find(owner => workspaceOf(owner) === workspaceId).map(owner => owner.id);
+  }
+
+  release(chartPath: string) {
+    this.owners.remove(basename(chartPath));
+  }
+}
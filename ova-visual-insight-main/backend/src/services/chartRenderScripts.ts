@@ -0,0 +1,166 @@
+// Standalone Python scripts for the export endpoint. Each one reads the _CONFIG dict that the sandbox service
+// prepends: the input file, the output file, the target format and the render options.
+
+// Draws an evaluated chart spec (chartSpec.ts ChartData) with matplotlib, or with Plotly for HTML
+export const CHART_DATA_RENDERER = `
+import json
+import math
+
+with open(_CONFIG['input'], encoding='utf-8') as handle:
+    chart = json.load(handle)
+
+spec = chart['spec']
+series = chart['series']
+rows = chart['rows']
+fmt = _CONFIG['format']
+render = _CONFIG['render']
+dpi = render.get('dpi') or 100
+# Defaults to 1200x800 pixels; a single dimension keeps that 3:2 shape
+width = render.get('width') or (round(render['height'] * 1.5) if render.get('height') else 1200)
+height = render.get('height') or (round(width / 1.5))
+transparent = bool(render.get('transparent'))
+
+def value(row, key):
+    number = row.get(key)
+    return math.nan if number is None else number
+
+labels = [str(row['x']) for row in rows]
+# Numbers stay on a numeric axis except on bar charts, where each value is its own bar
+numeric_x = chart.get('xType') == 'number' and spec['type'] != 'bar'
+xs = [row['x'] for row in rows] if numeric_x else list(range(len(rows)))
+
+if fmt == 'html':
+    import plotly.graph_objects as go
+
+    fig = go.Figure()
+    if spec['type'] == 'pie':
+        fig.add_trace(go.Pie(labels=labels, values=[value(row, series[0]['key']) for row in rows], hole=0.4, sort=False))
+    for item in series if spec['type'] != 'pie' else []:
+        ys = [value(row, item['key']) for row in rows]
+        x = [row['x'] for row in rows] if numeric_x else labels
+        if spec['type'] == 'bar':
+            fig.add_trace(go.Bar(x=x, y=ys, name=item['label']))
+        elif spec['type'] == 'scatter':
+            fig.add_trace(go.Scatter(x=x, y=ys, name=item['label'], mode='markers'))
+        else:
+            fig.add_trace(go.Scatter(
+                x=x, y=ys, name=item['label'], mode='lines+markers' if len(rows) <= 60 else 'lines',
+                fill='tozeroy' if spec['type'] == 'area' else None
+            ))
+    fig.update_layout(
+        title=spec.get('title') or None,
+        xaxis_title=chart['xLabel'],
+        yaxis_title=chart['yLabel'],
+        barmode='group',
+        showlegend=len(series) > 1 or spec['type'] == 'pie',
+        width=width,
+        height=height,
+        template='plotly_white'
+    )
+    if transparent:
+        fig.update_layout(paper_bgcolor='rgba(0,0,0,0)', plot_bgcolor='rgba(0,0,0,0)')
+    fig.write_html(_CONFIG['output'])
+else:
+    import matplotlib.pyplot as plt
+
+    fig, ax = plt.subplots(figsize=(width / dpi, height / dpi), dpi=dpi)
+    if spec['type'] == 'pie':
+        ax.pie([value(row, series[0]['key']) for row in rows], labels=labels, wedgeprops={'width': 0.6}, startangle=90, counterclock=False)
+        ax.axis('equal')
+    else:
+        bar_width = 0.8 / max(len(series), 1)
+        for index, item in enumerate(series):
+            ys = [value(row, item['key']) for row in rows]
+            if spec['type'] == 'bar':
+                offset = (index - (len(series) - 1) / 2) * bar_width
+                ax.bar([x + offset for x in xs], ys, width=bar_width, label=item['label'])
+            elif spec['type'] == 'scatter':
+                ax.scatter(xs, ys, label=item['label'], alpha=0.7)
+            else:
+                ax.plot(xs, ys, label=item['label'], marker='o' if len(rows) <= 60 else None)
+                if spec['type'] == 'area':
+                    ax.fill_between(xs, ys, alpha=0.3)
+
+        if not numeric_x:
+            # Every label fits up to 30 categories; beyond that every nth is shown
+            step = max(1, math.ceil(len(labels) / 30))
+            ax.set_xticks(xs[::step])
+            ax.set_xticklabels(labels[::step])
+            if len(labels) > 8 or any(len(label) > 10 for label in labels):
+                plt.setp(ax.get_xticklabels(), rotation=45, ha='right')
+        ax.set_xlabel(chart['xLabel'])
+        ax.set_ylabel(chart['yLabel'])
+        ax.grid(axis='y', alpha=0.3)
+        if len(series) > 1:
+            ax.legend()
+
+    if spec.get('title'):
+        ax.set_title(spec['title'])
+    fig.tight_layout()
+    fig.savefig(_CONFIG['output'], format=fmt, dpi=dpi, transparent=transparent)
+
+print(f"Rendered {len(rows)} points to {fmt}")
+`;
+
+// Converts a raster chart with Pillow; SVG and HTML targets embed the result as a PNG
+export const IMAGE_CONVERTER = `
+import base64
+import io
+import numpy as np
+from PIL import Image
+
+fmt = _CONFIG['format']
+render = _CONFIG['render']
+image = Image.open(_CONFIG['input'])
+image.load()
+image = image.convert('RGBA')
+
+# A single dimension keeps the aspect ratio
+width = render.get('width')
+height = render.get('height')
+if width or height:
+    width = width or round(image.width * height / image.height)
+    height = height or round(image.height * width / image.width)
+    image = image.resize((width, height), Image.LANCZOS)
+
+if render.get('transparent'):
+    # A raster has no separate background, so the color of the top-left corner is taken as the background
+    pixels = np.array(image)
+    pixels[(pixels == pixels[0, 0]).all(axis=2), 3] = 0
+    image = Image.fromarray(pixels)
+else:
+    flattened = Image.new('RGBA', image.size, (255, 255, 255, 255))
+    flattened.alpha_composite(image)
+    image = flattened
+
+dpi = render.get('dpi')
+options = {'dpi': (dpi, dpi)} if dpi else {}
+
+def png_bytes():
+    buffer = io.BytesIO()
+    image.save(buffer, 'PNG', **options)
+    return base64.b64encode(buffer.getvalue()).decode('ascii')
+
+if fmt == 'png':
+    image.save(_CONFIG['output'], 'PNG', **options)
+elif fmt == 'webp':
+    image.save(_CONFIG['output'], 'WEBP', lossless=True)
+elif fmt == 'jpg':
+    image.convert('RGB').save(_CONFIG['output'], 'JPEG', quality=95, **options)
+elif fmt == 'pdf':
+    image.convert('RGB').save(_CONFIG['output'], 'PDF', resolution=float(dpi or 100))
+elif fmt == 'svg':
+    with open(_CONFIG['output'], 'w', encoding='utf-8') as handle:
+        handle.write(
+            f'<svg xmlns="http://www.w3.org/2000/svg" width="{image.width}" height="{image.height}" viewBox="0 0 {image.width} {image.height}">'
+            f'<image width="{image.width}" height="{image.height}" href="data:image/png;base64,{png_bytes()}"/></svg>'
+        )
+elif fmt == 'html':
+    with open(_CONFIG['output'], 'w', encoding='utf-8') as handle:
+        handle.write(
+            '<!DOCTYPE html><html><head><meta charset="utf-8"><title>Chart</title></head>'
+            f'<body style="margin:0"><img src="data:image/png;base64,{png_bytes()}" width="{image.width}" height="{image.height}" alt="Chart"></body></html>'
+        )
+
+print(f"Converted a {image.width}x{image.height} image to {fmt}")
+`;
@@ -0,0 +1,366 @@
+import { ColumnTypeInfo, CellValue, parseNumericValue, parseDateValue } from './columnTypeInference.js';
+
+export type ChartSpecType = 'bar' | 'line' | 'area' | 'scatter' | 'pie';
+export type ChartAggregate = 'count' | 'sum' | 'mean' | 'median' | 'min' | 'max' | 'distinct' | 'none';
+export type ChartTimeUnit = 'year' | 'month' | 'day';
+export type ChartSort = 'x' | '-x' | 'y' | '-y';
+
+// What the model answers with instead of code: a chart described by its encodings, evaluated here against the full dataset
+export interface ChartSpec {
+  type: ChartSpecType;
+  title: string;
+  x: { field: string; timeUnit?: ChartTimeUnit; label?: string };
+  // `field` may be left out only for count; scatter plots use "none" to plot rows as they are
+  y: { field?: string; aggregate: ChartAggregate; label?: string };
+  // Splits the chart into one colored series per value of this column
+  series?: { field: string };
+  sort?: ChartSort;
+  limit?: number;
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+// One point on the x axis, with a value for each series key
+export type ChartRow = { x: string | number } & Record<string, string | number | null>;
+
+export interface ChartData {
+  spec: ChartSpec;
+  // How the x values were read: calendar buckets, numbers or category labels
+  xType: 'date' | 'number' | 'category';
+  xLabel: string;
+  yLabel: string;
+  series: ChartSeries[];
+  rows: ChartRow[];
+  // Rows of the dataset the chart was computed from
+  sourceRows: number;
+  // Set when categories, series or points were cut to keep the chart readable
+  truncated: boolean;
+}
+
+export const CHART_TYPES: ChartSpecType[] = ['bar', 'line', 'area', 'scatter', 'pie'];
+export const CHART_AGGREGATES: ChartAggregate[] = ['count', 'sum', 'mean', 'median', 'min', 'max', 'distinct', 'none'];
+const TIME_UNITS: ChartTimeUnit[] = ['year', 'month', 'day'];
+const SORTS: ChartSort[] = ['x', '-x', 'y', '-y'];
+
+const MAX_CATEGORIES = 500;
+const DEFAULT_CATEGORY_LIMIT = 50;
+const DEFAULT_PIE_SLICES = 10;
+const MAX_SERIES = 12;
+const MAX_POINTS = 5000;
+
+// Describes the spec format for prompts, in the same shape the validator accepts
+export const CHART_SPEC_FORMAT = `{
+  "type": one of ${CHART_TYPES.map(type => `"${type}"`).join(', ')},
+  "title": chart title,
+  "x": { "field": column name, "timeUnit": optional "year" | "month" | "day" for date columns, "label": optional axis label },
+  "y": { "field": column name (optional for "count"), "aggregate": one of ${CHART_AGGREGATES.map(aggregate => `"${aggregate}"`).join(', ')}, "label": optional axis label },
+  "series": optional { "field": column whose values become separate colored series; not for pie charts },
+  "sort": optional "x" | "-x" | "y" | "-y" (a leading "-" sorts descending),
+  "limit": optional maximum number of x values to keep, after sorting
+}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a spec against the dataset's columns; returns the spec with defaults applied, or the problems found
+export function validateChartSpec(value: unknown, columns: string[]): { spec?: ChartSpec; issues: string[] } {
+  if (!isObject(value)) {
+    return { issues: ['The chart spec must be a JSON object'] };
+  }
+
+  const issues: string[] = [];
+  const checkField = (path: string, field: unknown) => {
+    if (typeof field !== 'string' || !field) {
+      issues.push(`"${path}" must be a column name`);
+    } else if (!columns.includes(field)) {
+      issues.push(`"${path}" names the unknown column "${field}"; columns are ${columns.join(', ')}`);
+    }
+  };
+  const optionalString = (path: string, text: unknown) => {
+    if (text !== undefined && text !== null && typeof text !== 'string') issues.push(`"${path}" must be a string`);
+  };
+
+  const { type, title, x, y, series, sort, limit } = value;
+  if (!CHART_TYPES.includes(type as ChartSpecType)) {
+    issues.push(`"type" must be one of ${CHART_TYPES.join(', ')}`);
+  }
+  optionalString('title', title);
+
+  if (!isObject(x)) {
+    issues.push('"x" must be an object with a "field"');
+  } else {
+    checkField('x.field', x.field);
+    if (x.timeUnit !== undefined && x.timeUnit !== null && !TIME_UNITS.includes(x.timeUnit as ChartTimeUnit)) {
+      issues.push(`"x.timeUnit" must be one of ${TIME_UNITS.join(', ')}`);
+    }
+    optionalString('x.label', x.label);
+  }
+
+  if (!isObject(y)) {
+    issues.push('"y" must be an object with an "aggregate"');
+  } else {
+    const aggregate = y.aggregate as ChartAggregate;
+    if (!CHART_AGGREGATES.includes(aggregate)) {
+      issues.push(`"y.aggregate" must be one of ${CHART_AGGREGATES.join(', ')}`);
+    }
+    if (aggregate !== 'count' || (y.field !== undefined && y.field !== null)) {
+      checkField('y.field', y.field);
+    }
+    if (type === 'scatter' && aggregate !== 'none') {
+      issues.push('Scatter plots need "y.aggregate": "none"');
+    }
+    if (type !== 'scatter' && aggregate === 'none') {
+      issues.push('Only scatter plots can use "y.aggregate": "none"');
+    }
+    optionalString('y.label', y.label);
+  }
+
+  if (series !== undefined && series !== null) {
+    if (!isObject(series)) {
+      issues.push('"series" must be an object with a "field"');
+    } else {
+      checkField('series.field', series.field);
+    }
+    if (type === 'pie') {
+      issues.push('Pie charts cannot have "series"');
+    }
+  }
+  if (sort !== undefined && sort !== null && !SORTS.includes(sort as ChartSort)) {
+    issues.push(`"sort" must be one of ${SORTS.join(', ')}`);
+  }
+  if (limit !== undefined && limit !== null && (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_CATEGORIES)) {
+    issues.push(`"limit" must be an integer between 1 and ${MAX_CATEGORIES}`);
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+
+  const xSpec = x as Record<string, string | undefined>;
+  const ySpec = y as Record<string, string | undefined>;
+  return {
+    issues,
+    spec: {
+      type: type as ChartSpecType,
+      title: (title as string | undefined)?.trim() || '',
+      x: { field: xSpec.field!, ...(xSpec.timeUnit && { timeUnit: xSpec.timeUnit as ChartTimeUnit }), ...(xSpec.label && { label: xSpec.label }) },
+      y: { ...(ySpec.field && { field: ySpec.field }), aggregate: ySpec.aggregate as ChartAggregate, ...(ySpec.label && { label: ySpec.label }) },
+      ...(isObject(series) && { series: { field: series.field as string } }),
+      ...(typeof sort === 'string' && { sort: sort as ChartSort }),
+      ...(typeof limit === 'number' && { limit })
+    }
+  };
+}
+
+class Accumulator {
+  count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private values: number[] = [];
+  private distinct = new Set<string>();
+
+  constructor(private aggregate: ChartAggregate) {}
+
+  add(raw: CellValue, number: number | null) {
+    if (this.aggregate === 'count') {
+      this.count++;
+      return;
+    }
+    if (this.aggregate === 'distinct') {
+      if (raw !== null && raw !== undefined && String(raw).trim() !== '') {
+        this.distinct.add(raw instanceof Date ? raw.toISOString() : String(raw).trim());
+      }
+      return;
+    }
+    if (number === null) return;
+
+    this.count++;
+    this.sum += number;
+    this.min = Math.min(this.min, number);
+    this.max = Math.max(this.max, number);
+    if (this.aggregate === 'median') this.values.push(number);
+  }
+
+  result(): number | null {
+    switch (this.aggregate) {
+      case 'count':
+        return this.count;
+      case 'distinct':
+        return this.distinct.size;
+      case 'sum':
+        return this.count ? this.sum : null;
+      case 'mean':
+        return this.count ? this.sum / this.count : null;
+      case 'min':
+        return this.count ? this.min : null;
+      case 'max':
+        return this.count ? this.max : null;
+      case 'median': {
+        if (!this.values.length) return null;
+        const sorted = this.values.sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+const AGGREGATE_LABELS: Record<ChartAggregate, string> = {
+  count: 'Count',
+  sum: 'Total',
+  mean: 'Average',
+  median: 'Median',
+  min: 'Minimum',
+  max: 'Maximum',
+  distinct: 'Distinct',
+  none: ''
+};
+
+function formatDate(timestamp: number, unit: ChartTimeUnit): string {
+  const iso = new Date(timestamp).toISOString();
+  return unit === 'year' ? iso.slice(0, 4) : unit === 'month' ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+function compareX(a: string | number, b: string | number): number {
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+// Computes the chart's rows in one pass over the dataset
+export async function evaluateChartSpec(
+  spec: ChartSpec,
+  columns: string[],
+  columnTypes: Record<string, ColumnTypeInfo> | undefined,
+  rows: AsyncIterable<CellValue[]>
+): Promise<ChartData> {
+  const xIndex = columns.indexOf(spec.x.field);
+  const yIndex = spec.y.field ? columns.indexOf(spec.y.field) : -1;
+  const seriesIndex = spec.series ? columns.indexOf(spec.series.field) : -1;
+  const xInfo = columnTypes?.[spec.x.field];
+  const yInfo = spec.y.field ? columnTypes?.[spec.y.field] : undefined;
+
+  const toNumber = (value: CellValue, info?: ColumnTypeInfo): number | null => {
+    if (info) return parseNumericValue(value, info);
+    const number = typeof value === 'number' ? value : Number(String(value ?? '').trim() || NaN);
+    return Number.isFinite(number) ? number : null;
+  };
+  const isNumericX = xInfo ? xInfo.type === 'integer' || xInfo.type === 'float' : false;
+  // Dates are grouped by calendar unit so that their labels sort chronologically as text
+  const dateUnit = xInfo?.type === 'date' ? spec.x.timeUnit || 'day' : undefined;
+  const toX = (value: CellValue): string | number | null => {
+    if (value === null || value === undefined || String(value).trim() === '') return null;
+    if (dateUnit && xInfo) {
+      const timestamp = parseDateValue(value, xInfo);
+      return timestamp === null ? null : formatDate(timestamp, dateUnit);
+    }
+    if (isNumericX || spec.y.aggregate === 'none') return toNumber(value, xInfo);
+    return value instanceof Date ? value.toISOString() : String(value).trim();
+  };
+
+  const xLabel = spec.x.label || spec.x.field;
+  const yLabel = spec.y.label || (spec.y.field ? `${AGGREGATE_LABELS[spec.y.aggregate]} ${spec.y.field}`.trim() : 'Rows');
+  let sourceRows = 0;
+  let truncated = false;
+
+  // Scatter plots keep rows as points rather than grouping them
+  if (spec.y.aggregate === 'none') {
+    const points: { x: number; y: number; series: string }[] = [];
+    for await (const row of rows) {
+      sourceRows++;
+      const x = toX(row[xIndex]);
+      const y = toNumber(row[yIndex], yInfo);
+      if (typeof x !== 'number' || y === null) continue;
+      if (points.length >= MAX_POINTS) {
+        truncated = true;
+        continue;
+      }
+      points.push({ x, y, series: seriesIndex === -1 ? '' : String(row[seriesIndex] ?? '').trim() });
+    }
+
+    const seriesValues = [...new Set(points.map(point => point.series))];
+    if (seriesValues.length > MAX_SERIES) truncated = true;
+    const series = seriesValues.slice(0, MAX_SERIES).map((value, index) => ({
+      key: seriesIndex === -1 ? 'value' : `s${index}`,
+      label: seriesIndex === -1 ? yLabel : value || '(empty)'
+    }));
+    const keyBySeries = new Map(seriesValues.slice(0, MAX_SERIES).map((value, index) => [value, series[index].key]));
+
+    return {
+      spec,
+      xType: 'number',
+      xLabel,
+      yLabel,
+      series,
+      rows: points.flatMap(point => {
+        const key = keyBySeries.get(point.series);
+        return key ? [{ x: point.x, [key]: point.y } as ChartRow] : [];
+      }),
+      sourceRows,
+      truncated
+    };
+  }
+
+  const groups = new Map<string | number, Map<string, Accumulator>>();
+  const seriesTotals = new Map<string, number>();
+  for await (const row of rows) {
+    sourceRows++;
+    const x = toX(row[xIndex]);
+    if (x === null) continue;
+    const seriesValue = seriesIndex === -1 ? '' : String(row[seriesIndex] ?? '').trim();
+
+    let group = groups.get(x);
+    if (!group) {
+      if (groups.size >= MAX_CATEGORIES) {
+        truncated = true;
+        continue;
+      }
+      group = new Map();
+      groups.set(x, group);
+    }
+    let accumulator = group.get(seriesValue);
+    if (!accumulator) {
+      accumulator = new Accumulator(spec.y.aggregate);
+      group.set(seriesValue, accumulator);
+    }
+    const raw = yIndex === -1 ? null : row[yIndex];
+    accumulator.add(raw, yIndex === -1 ? null : toNumber(raw, yInfo));
+    seriesTotals.set(seriesValue, (seriesTotals.get(seriesValue) || 0) + 1);
+  }
+
+  // The most common series values are kept when there are too many to tell apart
+  const seriesValues = [...seriesTotals.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  if (seriesValues.length > MAX_SERIES) truncated = true;
+  const keptSeries = seriesValues.slice(0, MAX_SERIES).sort((a, b) => compareX(a, b));
+  const series = keptSeries.map((value, index) => ({
+    key: seriesIndex === -1 ? 'value' : `s${index}`,
+    label: seriesIndex === -1 ? yLabel : value || '(empty)'
+  }));
+
+  let chartRows: ChartRow[] = [...groups.entries()].map(([x, group]) => {
+    const row: ChartRow = { x };
+    keptSeries.forEach((value, index) => {
+      row[series[index].key] = group.get(value)?.result() ?? null;
+    });
+    return row;
+  });
+
+  const total = (row: ChartRow) => series.reduce((sum, { key }) => sum + (Number(row[key]) || 0), 0);
+  // Ordered axes read best in order; categories read best largest first
+  const sort = spec.sort || (dateUnit || isNumericX ? 'x' : '-y');
+  const direction = sort.startsWith('-') ? -1 : 1;
+  chartRows.sort((a, b) => (sort.endsWith('x') ? compareX(a.x, b.x) : total(a) - total(b)) * direction);
+
+  const limit = spec.limit || (spec.type === 'pie' ? DEFAULT_PIE_SLICES : dateUnit || isNumericX ? MAX_CATEGORIES : DEFAULT_CATEGORY_LIMIT);
+  if (chartRows.length > limit) {
+    chartRows = chartRows.slice(0, limit);
+    truncated = true;
+  }
+
+  const xType = dateUnit ? 'date' : isNumericX ? 'number' : 'category';
+  return { spec, xType, xLabel, yLabel, series, rows: chartRows, sourceRows, truncated };
+}
@@ -0,0 +1,81 @@
+type DiffOperation = { type: 'equal' | 'remove' | 'add'; line: string };
+
+// Lines of unchanged code shown around each change
+const CONTEXT_LINES = 3;
+// Above this many cells the LCS table gets too large; the diff degrades to remove-all/add-all
+const MAX_TABLE_CELLS = 4_000_000;
+
+function diffLines(before: string[], after: string[]): DiffOperation[] {
+  if (before.length * after.length > MAX_TABLE_CELLS) {
+    return [
+      ...before.map(line => ({ type: 'remove' as const, line })),
+      ...after.map(line => ({ type: 'add' as const, line }))
+    ];
+  }
+
+  // lcs[i][j] is the longest common subsequence of before[i..] and after[j..]
+  const lcs = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      operations.push({ type: 'equal', line: before[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      operations.push({ type: 'remove', line: before[i++] });
+    } else {
+      operations.push({ type: 'add', line: after[j++] });
+    }
+  }
+  while (i < before.length) operations.push({ type: 'remove', line: before[i++] });
+  while (j < after.length) operations.push({ type: 'add', line: after[j++] });
+  return operations;
+}
+
+// Unified diff of two versions of a script, or an empty string when they are identical
+export function createUnifiedDiff(before: string, after: string, beforeName = 'before.py', afterName = 'after.py'): string {
+  const operations = diffLines(before.split(/\r?\n/), after.split(/\r?\n/));
+  const changes = operations.flatMap((operation, index) => (operation.type === 'equal' ? [] : [index]));
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Changes closer together than twice the context share one hunk
+  const groups: number[][] = [[changes[0]]];
+  for (const index of changes.slice(1)) {
+    const group = groups[groups.length - 1];
+    if (index - group[group.length - 1] <= CONTEXT_LINES * 2 + 1) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  }
+
+  const lines = [`--- ${beforeName}`, `+++ ${afterName}`];
+  for (const group of groups) {
+    const start = Math.max(0, group[0] - CONTEXT_LINES);
+    const end = Math.min(operations.length, group[group.length - 1] + CONTEXT_LINES + 1);
+    const preceding = operations.slice(0, start);
+    const hunk = operations.slice(start, end);
+
+    const oldStart = preceding.filter(operation => operation.type !== 'add').length;
+    const newStart = preceding.filter(operation => operation.type !== 'remove').length;
+    const oldCount = hunk.filter(operation => operation.type !== 'add').length;
+    const newCount = hunk.filter(operation => operation.type !== 'remove').length;
+
+    // An empty side points at the line before the hunk, as in diff -u
+    lines.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`);
+    for (const operation of hunk) {
+      lines.push(`${operation.type === 'equal' ? ' ' : operation.type === 'remove' ? '-' : '+'}${operation.line}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,199 @@
+import { spawn } from 'child_process';
+import { loadSandboxConfig } from './sandboxIsolation.js';
+
+export type SafetyRule =
+  | 'syntax-error'
+  | 'disallowed-import'
+  | 'dangerous-builtin'
+  | 'dunder-access'
+  | 'module-access'
+  | 'dynamic-attribute'
+  | 'file-access';
+
+export interface SafetyFinding {
+  rule: SafetyRule;
+  // Errors block execution; warnings are reported alongside the result
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SafetyReport {
+  safe: boolean;
+  findings: SafetyFinding[];
+}
+
+// Top-level packages generated code may import; anything else (os, subprocess, socket, requests...) is rejected
+const ALLOWED_MODULES = [
+  'pandas', 'numpy', 'matplotlib', 'seaborn', 'plotly', 'scipy', 'sklearn', 'statsmodels',
+  'math', 'statistics', 'datetime', 'time', 'calendar', 'json', 're', 'collections', 'itertools',
+  'functools', 'operator', 'warnings', 'textwrap', 'string', 'decimal', 'fractions', 'random',
+  'typing', 'dataclasses', 'enum', 'copy'
+];
+
+// Allowed packages import these themselves, so they are reachable as attributes, e.g. matplotlib.os or pandas.io.common.os
+const BLOCKED_MODULE_ATTRIBUTES = [
+  'os', 'sys', 'subprocess', 'shutil', 'socket', 'builtins', 'importlib', 'ctypes', 'posix', 'nt', 'pty',
+  'pathlib', 'multiprocessing', 'pickle', 'marshal', 'tempfile', 'glob', 'runpy', 'urllib', 'requests'
+];
+
+const CHECK_TIMEOUT_MS = 10000;
+
+// Parses the code with Python's own ast module, so findings match what the interpreter would run
+const CHECKER = `
+import ast, json, re, sys
+
+allowed = set(json.loads(sys.argv[1]))
+blocked_attributes = set(json.loads(sys.argv[2]))
+source = sys.stdin.buffer.read().decode('utf-8')
+findings = []
+
+BUILTINS = {
+    'eval': 'error', 'exec': 'error', 'compile': 'error', 'breakpoint': 'error',
+    'globals': 'error', 'vars': 'error', 'memoryview': 'error', 'input': 'warning'
+}
+ATTRIBUTE_FUNCTIONS = {'getattr', 'setattr', 'delattr', 'hasattr'}
+SAFE_DUNDERS = {'__init__', '__name__', '__doc__', '__len__', '__str__', '__repr__'}
+PATH_KEYWORDS = {'file', 'path', 'fname', 'filename', 'filepath_or_buffer', 'path_or_buf', 'path_or_buffer', 'buf', 'excel_writer', 'io'}
+# Only methods that take a path, so conversions like to_datetime(df['day']) are not mistaken for file access
+FILE_METHOD = re.compile(r'^(read_\\w+|to_(csv|json|excel|parquet|pickle|feather|hdf|stata|orc|sql|gbq|html|xml|latex|markdown|string|clipboard)|savefig|write_html|write_image|load|loadtxt|genfromtxt|fromfile|tofile|save|savez\\w*)$')
+
+def report(node, rule, severity, message):
+    findings.append({
+        'rule': rule,
+        'severity': severity,
+        'message': message,
+        'line': getattr(node, 'lineno', None),
+        'column': getattr(node, 'col_offset', None)
+    })
+
+def is_dunder(name):
+    return len(name) > 4 and name.startswith('__') and name.endswith('__') and name not in SAFE_DUNDERS
+
+def escapes_sandbox(path):
+    parts = path.replace('\\\\', '/').split('/')
+    return path.startswith(('/', '\\\\', '~')) or re.match(r'^[A-Za-z]:', path) is not None or '..' in parts
+
+def path_argument(node):
+    for keyword in node.keywords:
+        if keyword.arg in PATH_KEYWORDS:
+            return keyword.value
+    return node.args[0] if node.args else None
+
+class Checker(ast.NodeVisitor):
+    def check_module(self, node, name):
+        if name.split('.')[0] not in allowed:
+            report(node, 'disallowed-import', 'error', f"Import of '{name}' is not allowed")
+
+    def visit_Import(self, node):
+        for alias in node.names:
+            self.check_module(node, alias.name)
+
+    def visit_ImportFrom(self, node):
+        if node.level:
+            report(node, 'disallowed-import', 'error', 'Relative imports are not allowed')
+        else:
+            self.check_module(node, node.module or '')
+
+    def visit_Name(self, node):
+        if node.id in BUILTINS and isinstance(node.ctx, ast.Load):
+            report(node, 'dangerous-builtin', BUILTINS[node.id], f"Use of '{node.id}' is not allowed" if BUILTINS[node.id] == 'error' else f"'{node.id}' cannot read input in the sandbox")
+        elif is_dunder(node.id):
+            report(node, 'dunder-access', 'error', f"Access to '{node.id}' is not allowed")
+
+    def visit_Attribute(self, node):
+        if is_dunder(node.attr):
+            report(node, 'dunder-access', 'error', f"Access to attribute '{node.attr}' is not allowed")
+        elif node.attr in blocked_attributes:
+            report(node, 'module-access', 'error', f"Access to module '{node.attr}' through another module is not allowed")
+        self.generic_visit(node)
+
+    def visit_Constant(self, node):
+        if isinstance(node.value, str) and is_dunder(node.value):
+            report(node, 'dunder-access', 'error', f"String '{node.value}' looks like a dunder lookup")
+
+    def visit_Call(self, node):
+        func = node.func
+        name = func.id if isinstance(func, ast.Name) else func.attr if isinstance(func, ast.Attribute) else None
+
+        if isinstance(func, ast.Name) and name in ATTRIBUTE_FUNCTIONS and len(node.args) > 1:
+            attribute = node.args[1]
+            if not (isinstance(attribute, ast.Constant) and isinstance(attribute.value, str)):
+                report(node, 'dynamic-attribute', 'error', f"'{name}' with a computed attribute name is not allowed")
+            elif attribute.value in blocked_attributes:
+                report(node, 'module-access', 'error', f"Access to module '{attribute.value}' through another module is not allowed")
+
+        if (isinstance(func, ast.Name) and name == 'open') or (isinstance(func, ast.Attribute) and name and FILE_METHOD.match(name)):
+            path = path_argument(node)
+            if isinstance(path, ast.Constant) and isinstance(path.value, str):
+                if escapes_sandbox(path.value):
+                    report(node, 'file-access', 'error', f"'{name}' on '{path.value}' is outside the sandbox directory")
+            elif path is not None:
+                # A computed path cannot be checked, e.g. p = '/etc/passwd'; pd.read_csv(p)
+                report(node, 'file-access', 'error', f"'{name}' with a computed path is not allowed")
+
+        self.generic_visit(node)
+
+try:
+    Checker().visit(ast.parse(source))
+except SyntaxError as error:
+    findings.append({'rule': 'syntax-error', 'severity': 'error', 'message': error.msg, 'line': error.lineno, 'column': error.offset})
+except RecursionError:
+    findings.append({'rule': 'syntax-error', 'severity': 'error', 'message': 'Code is nested too deeply to analyze'})
+
+print(json.dumps(findings))
+`;
+
+export class CodeSafetyService {
+  private pythonPath: string;
+  private allowedModules: string[];
+
+  constructor() {
+    this.pythonPath = loadSandboxConfig().pythonPath;
+    // PYTHON_EXTRA_MODULES widens the allowlist without a code change, e.g. "geopandas,wordcloud"
+    const extra = (process.env.PYTHON_EXTRA_MODULES || '').split(',').map(name => name.trim()).filter(Boolean);
+    this.allowedModules = [...ALLOWED_MODULES, ...extra];
+  }
+
+  async analyze(code: string): Promise<SafetyReport> {
+    const output = await this.runChecker(code);
+    const findings = (JSON.parse(output) as SafetyFinding[])
+      .map(finding => ({ ...finding, line: finding.line ?? undefined, column: finding.column ?? undefined }))
+      .sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+
+    return {
+      safe: !findings.some(finding => finding.severity === 'error'),
+      findings
+    };
+  }
+
+  private runChecker(code: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      // -I keeps PYTHON* variables and the user site directory out of the checker
+      const child = spawn(this.pythonPath, ['-I', '-c', CHECKER, JSON.stringify(this.allowedModules), JSON.stringify(BLOCKED_MODULE_ATTRIBUTES)], {
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      let stdout = '';
+      let stderr = '';
+      const timer = setTimeout(() => child.kill('SIGKILL'), CHECK_TIMEOUT_MS);
+
+      child.stdout.on('data', chunk => (stdout += chunk.toString()));
+      child.stderr.on('data', chunk => (stderr += chunk.toString()));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new Error(`Safety checker could not start: ${error.message}`));
+      });
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        if (exitCode === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`Safety checker failed: ${signal === 'SIGKILL' ? 'timed out' : stderr.trim() || `exit code ${exitCode}`}`));
+        }
+      });
+
+      child.stdin.end(code);
+    });
+  }
+}
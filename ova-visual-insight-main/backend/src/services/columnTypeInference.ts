@@ -0,0 +1,309 @@
+export type StorageType = 'integer' | 'float' | 'boolean' | 'date' | 'string';
+
+export type SemanticType =
+  | 'numeric'
+  | 'currency'
+  | 'percentage'
+  | 'boolean'
+  | 'datetime'
+  | 'identifier'
+  | 'categorical'
+  | 'free_text'
+  | 'text';
+
+export interface ColumnTypeInfo {
+  type: StorageType;
+  semanticType: SemanticType;
+  // Share of sampled non-empty values that parse as the reported type (0-1)
+  confidence: number;
+  sampleSize: number;
+  nullCount: number;
+  distinctCount: number;
+  dateFormat?: string;
+  locale?: string;
+  currencySymbol?: string;
+  decimalSeparator?: '.' | ',';
+}
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+interface ParsedNumber {
+  value: number;
+  isInteger: boolean;
+  decimalSeparator?: '.' | ',';
+}
+
+interface DateMatch {
+  format: string;
+  locale: string;
+}
+
+// Share of values that must agree before a column is given a non-string type
+const TYPE_THRESHOLD = 0.9;
+const MAX_CATEGORIES = 50;
+const FREE_TEXT_MIN_LENGTH = 40;
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f']);
+const CURRENCY_SYMBOLS = ['$', '€', '£', '¥', '₹', '₩', '₽', 'R$', 'CHF', 'USD', 'EUR', 'GBP', 'JPY', 'ZAR', 'R'];
+const ID_HEADER = /(^id$|_id$|\bid$|Id$|^uuid$|^guid$|^key$|_key$|^code$|_code$)/;
+
+function parseNumber(token: string): ParsedNumber | null {
+  const compact = token.replace(/[\s\u00a0']/g, '');
+  if (!/^[-+]?[\d.,]+$/.test(compact) || !/\d/.test(compact)) {
+    return null;
+  }
+
+  // 1,234.56 (en) | 1.234,56 (de) | 1234.5 | 1234,5 | 1,234 | 1.234
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(compact)) {
+    return { value: Number(compact.replace(/,/g, '')), isInteger: !compact.includes('.'), decimalSeparator: compact.includes('.') ? '.' : undefined };
+  }
+  if (/^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$/.test(compact)) {
+    return { value: Number(compact.replace(/\./g, '').replace(',', '.')), isInteger: !compact.includes(','), decimalSeparator: compact.includes(',') ? ',' : undefined };
+  }
+  if (/^[-+]?\d+$/.test(compact)) {
+    return { value: Number(compact), isInteger: true };
+  }
+  if (/^[-+]?\d*\.\d+$/.test(compact)) {
+    return { value: Number(compact), isInteger: false, decimalSeparator: '.' };
+  }
+  if (/^[-+]?\d*,\d+$/.test(compact)) {
+    return { value: Number(compact.replace(',', '.')), isInteger: false, decimalSeparator: ',' };
+  }
+  return null;
+}
+
+function parsePercentage(token: string): ParsedNumber | null {
+  const match = token.match(/^(.+?)\s*%$/);
+  return match ? parseNumber(match[1]) : null;
+}
+
+function parseCurrency(token: string): { number: ParsedNumber; symbol: string } | null {
+  for (const symbol of CURRENCY_SYMBOLS) {
+    const escaped = symbol.replace(/\$/g, '\\$');
+    const match = token.match(new RegExp(`^([-+]?)\\s*${escaped}\\s*(.+)$`)) || token.match(new RegExp(`^(.+?)\\s*${escaped}$`));
+    if (!match) continue;
+
+    const amount = match.length === 3 ? `${match[1]}${match[2]}` : match[1];
+    const number = parseNumber(amount);
+    if (number) {
+      return { number, symbol };
+    }
+  }
+  return null;
+}
+
+function matchDate(token: string): DateMatch[] {
+  if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(token)) {
+    return [{ format: token.length > 10 ? 'YYYY-MM-DDTHH:mm:ss' : 'YYYY-MM-DD', locale: 'ISO 8601' }];
+  }
+  if (/^\d{4}\/\d{1,2}\/\d{1,2}$/.test(token)) {
+    return [{ format: 'YYYY/MM/DD', locale: 'ISO 8601' }];
+  }
+
+  const dayMonth = token.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})( \d{1,2}:\d{2}(:\d{2})?)?$/);
+  if (dayMonth) {
+    const first = Number(dayMonth[1]);
+    const second = Number(dayMonth[3]);
+    const separator = dayMonth[2];
+    const year = dayMonth[4].length === 4 ? 'YYYY' : 'YY';
+    const candidates: DateMatch[] = [];
+
+    if (first <= 12 && second <= 31) {
+      candidates.push({ format: `MM${separator}DD${separator}${year}`, locale: 'en-US' });
+    }
+    if (second <= 12 && first <= 31) {
+      candidates.push({ format: `DD${separator}MM${separator}${year}`, locale: separator === '.' ? 'de-DE' : 'en-GB' });
+    }
+    return candidates;
+  }
+
+  // Month names ("Jan 5, 2024", "5 January 2024") are left to the platform parser
+  if (/[a-z]{3,}/i.test(token) && /\d{4}/.test(token) && !isNaN(Date.parse(token))) {
+    return [{ format: 'textual', locale: 'en' }];
+  }
+  return [];
+}
+
+function toToken(value: CellValue): string {
+  if (value instanceof Date) return value.toISOString();
+  return String(value).trim();
+}
+
+function isEmpty(value: CellValue): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function mostCommon<T>(items: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const item of items) {
+    const count = (counts.get(item) || 0) + 1;
+    counts.set(item, count);
+    if (count > bestCount) {
+      best = item;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function classifyText(header: string, tokens: string[], distinctCount: number): SemanticType {
+  const uniqueRatio = distinctCount / tokens.length;
+  const averageLength = tokens.reduce((sum, token) => sum + token.length, 0) / tokens.length;
+  const hasSpaces = tokens.filter(token => /\s/.test(token)).length / tokens.length > 0.5;
+
+  if (ID_HEADER.test(header) || (uniqueRatio === 1 && tokens.length > 1 && !hasSpaces && averageLength <= 40 && /\d/.test(tokens.join('')))) {
+    return 'identifier';
+  }
+  if (averageLength >= FREE_TEXT_MIN_LENGTH && hasSpaces) {
+    return 'free_text';
+  }
+  if (distinctCount <= MAX_CATEGORIES && uniqueRatio <= 0.5) {
+    return 'categorical';
+  }
+  return 'text';
+}
+
+export function inferColumnType(header: string, values: CellValue[]): ColumnTypeInfo {
+  const present = values.filter(value => !isEmpty(value));
+  const nullCount = values.length - present.length;
+  const tokens = present.map(toToken);
+  const distinctCount = new Set(tokens).size;
+  const base = { sampleSize: present.length, nullCount, distinctCount };
+
+  if (present.length === 0) {
+    return { type: 'string', semanticType: 'text', confidence: 0, ...base };
+  }
+
+  const total = present.length;
+  const share = (count: number) => Math.round((count / total) * 1000) / 1000;
+
+  // Native spreadsheet values carry their own type
+  if (present.every(value => typeof value === 'boolean')) {
+    return { type: 'boolean', semanticType: 'boolean', confidence: 1, ...base };
+  }
+  if (present.every(value => value instanceof Date)) {
+    return { type: 'date', semanticType: 'datetime', confidence: 1, dateFormat: 'native', ...base };
+  }
+
+  const booleans = tokens.filter(token => BOOLEAN_TOKENS.has(token.toLowerCase()));
+  if (share(booleans.length) >= TYPE_THRESHOLD && distinctCount <= 4) {
+    return { type: 'boolean', semanticType: 'boolean', confidence: share(booleans.length), ...base };
+  }
+
+  const numbers = present.map(value => (typeof value === 'number' ? { value, isInteger: Number.isInteger(value) } as ParsedNumber : parseNumber(toToken(value))));
+  const parsedNumbers = numbers.filter((number): number is ParsedNumber => number !== null);
+  if (share(parsedNumbers.length) >= TYPE_THRESHOLD) {
+    const allIntegers = parsedNumbers.every(number => number.isInteger);
+    const decimalSeparator = mostCommon(parsedNumbers.map(number => number.decimalSeparator).filter(Boolean) as ('.' | ',')[]);
+    const isIdentifier = allIntegers && (ID_HEADER.test(header) || (distinctCount === total && total > 1 && !/(count|total|amount|qty|quantity|year)/i.test(header) && parsedNumbers.every(number => number.value >= 0) && isSequential(parsedNumbers.map(number => number.value))));
+
+    return {
+      type: allIntegers ? 'integer' : 'float',
+      semanticType: isIdentifier ? 'identifier' : 'numeric',
+      confidence: share(parsedNumbers.length),
+      ...(decimalSeparator && { decimalSeparator, locale: decimalSeparator === ',' ? 'de-DE' : 'en-US' }),
+      ...base
+    };
+  }
+
+  const percentages = tokens.map(parsePercentage).filter((number): number is ParsedNumber => number !== null);
+  if (share(percentages.length) >= TYPE_THRESHOLD) {
+    return { type: 'float', semanticType: 'percentage', confidence: share(percentages.length), ...base };
+  }
+
+  const currencies = tokens.map(parseCurrency).filter((currency): currency is NonNullable<ReturnType<typeof parseCurrency>> => currency !== null);
+  if (share(currencies.length) >= TYPE_THRESHOLD) {
+    const decimalSeparator = mostCommon(currencies.map(currency => currency.number.decimalSeparator).filter(Boolean) as ('.' | ',')[]);
+    return {
+      type: currencies.every(currency => currency.number.isInteger) ? 'integer' : 'float',
+      semanticType: 'currency',
+      confidence: share(currencies.length),
+      currencySymbol: mostCommon(currencies.map(currency => currency.symbol)),
+      ...(decimalSeparator && { decimalSeparator }),
+      ...base
+    };
+  }
+
+  const dateMatches = tokens.map(matchDate);
+  const datedCount = dateMatches.filter(matches => matches.length > 0).length;
+  if (share(datedCount) >= TYPE_THRESHOLD) {
+    // Day/month order is ambiguous until some value has a day above 12, so keep only formats every value allows
+    const formats = new Map<string, DateMatch & { count: number }>();
+    for (const matches of dateMatches) {
+      for (const match of matches) {
+        const entry = formats.get(match.format) || { ...match, count: 0 };
+        entry.count++;
+        formats.set(match.format, entry);
+      }
+    }
+    // Sorting is stable, so month-first (en-US) wins when every value fits both orders
+    const best = Array.from(formats.values()).sort((a, b) => b.count - a.count)[0];
+
+    return {
+      type: 'date',
+      semanticType: 'datetime',
+      confidence: share(best.count),
+      dateFormat: best.format,
+      locale: best.locale,
+      ...base
+    };
+  }
+
+  return {
+    type: 'string',
+    semanticType: classifyText(header, tokens, distinctCount),
+    confidence: 1,
+    ...base
+  };
+}
+
+function isSequential(values: number[]): boolean {
+  if (values.length < 3) return false;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[sorted.length - 1] - sorted[0] === sorted.length - 1;
+}
+
+// Reads a cell as a number using the conventions detected for its column (currency, %, locale)
+export function parseNumericValue(value: CellValue, info: ColumnTypeInfo): number | null {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'number') return value;
+
+  const token = toToken(value);
+  const parsed = info.semanticType === 'percentage'
+    ? parsePercentage(token)
+    : info.semanticType === 'currency'
+      ? parseCurrency(token)?.number ?? null
+      : parseNumber(token);
+  return parsed ? parsed.value : null;
+}
+
+// Reads a cell as a timestamp (ms since epoch) using the date format detected for its column
+export function parseDateValue(value: CellValue, info: ColumnTypeInfo): number | null {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return value.getTime();
+
+  const token = toToken(value);
+  const dayMonth = token.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})/);
+  if (dayMonth && info.dateFormat && /^(DD|MM)/.test(info.dateFormat)) {
+    const [first, second] = [Number(dayMonth[1]), Number(dayMonth[2])];
+    const [day, month] = info.dateFormat.startsWith('DD') ? [first, second] : [second, first];
+    const year = dayMonth[3].length === 2 ? 2000 + Number(dayMonth[3]) : Number(dayMonth[3]);
+    return Date.UTC(year, month - 1, day);
+  }
+
+  const timestamp = Date.parse(token);
+  return isNaN(timestamp) ? null : timestamp;
+}
+
+// Collapses a detailed type into the coarse labels the UI and older clients understand
+export function toDataTypeLabel(info: ColumnTypeInfo): string {
+  switch (info.type) {
+    case 'integer':
+    case 'float':
+      return 'number';
+    default:
+      return info.type;
+  }
+}
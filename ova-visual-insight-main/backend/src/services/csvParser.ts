@@ -0,0 +1,204 @@
+import { createReadStream } from 'fs';
+import { open } from 'fs/promises';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: string;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_BYTES = 64 * 1024;
+const SNIFF_ROWS = 20;
+
+// Incremental RFC 4180 parser: feed it text chunks and it returns every row completed so far.
+// Quoted fields may contain delimiters, "" escapes and line breaks; CRLF, LF and CR all end a row.
+export class CsvParser {
+  private delimiter: string;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private atFieldStart = true;
+  private skipLineFeed = false;
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (this.inQuotes) {
+        if (!this.quotePending) {
+          if (char === '"') {
+            this.quotePending = true;
+          } else {
+            this.field += char;
+          }
+          continue;
+        }
+
+        // A quote inside a quoted field is either an escaped quote or the closing quote
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (char === '"' && this.atFieldStart) {
+        this.inQuotes = true;
+        this.atFieldStart = false;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endRow(rows);
+        this.skipLineFeed = char === '\r';
+      } else {
+        this.field += char;
+        this.atFieldStart = false;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): string[][] {
+    const rows: string[][] = [];
+    this.inQuotes = false;
+    this.quotePending = false;
+    if (this.field !== '' || this.row.length > 0) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.atFieldStart = true;
+  }
+
+  private endRow(rows: string[][]) {
+    this.endField();
+    rows.push(this.row);
+    this.row = [];
+  }
+}
+
+export function detectEncoding(sample: Buffer): CsvEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // UTF-16 text without a BOM still gives itself away: ASCII characters leave every other byte zero
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) {
+    return 'utf-16le';
+  }
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) {
+    return 'utf-16be';
+  }
+
+  // The sample may end in the middle of a multi-byte sequence, so drop the trailing partial character
+  let end = sample.length;
+  for (let back = 1; back <= 3 && end - back >= 0; back++) {
+    const byte = sample[end - back];
+    if ((byte & 0xc0) === 0xc0) {
+      const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+      if (back < expected) end -= back;
+      break;
+    }
+    if ((byte & 0x80) === 0) break;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+export function detectDelimiter(sampleText: string): string {
+  let best = { delimiter: ',', consistentRows: 0, fieldCount: 0 };
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const parser = new CsvParser(delimiter);
+    // The last row of a sample is usually cut off, so only complete rows are scored
+    const rows = parser.push(sampleText).filter(row => row.some(cell => cell.trim() !== '')).slice(0, SNIFF_ROWS);
+    if (rows.length === 0) continue;
+
+    const fieldCount = rows[0].length;
+    if (fieldCount < 2) continue;
+
+    const consistentRows = rows.filter(row => row.length === fieldCount).length;
+    if (
+      consistentRows > best.consistentRows ||
+      (consistentRows === best.consistentRows && fieldCount > best.fieldCount)
+    ) {
+      best = { delimiter, consistentRows, fieldCount };
+    }
+  }
+
+  return best.delimiter;
+}
+
+export async function detectCsvFormat(filePath: string): Promise<CsvFormat> {
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    const sample = buffer.subarray(0, bytesRead);
+    const encoding = detectEncoding(sample);
+    const sampleText = new TextDecoder(encoding).decode(sample);
+
+    return {
+      encoding,
+      delimiter: detectDelimiter(sampleText)
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Streams rows out of a CSV file without ever holding the whole file in memory
+export async function* readCsvRows(filePath: string, format: CsvFormat): AsyncGenerator<string[]> {
+  // TextDecoder strips a leading BOM and keeps multi-byte characters split across chunks intact
+  const decoder = new TextDecoder(format.encoding);
+  const parser = new CsvParser(format.delimiter);
+
+  for await (const chunk of createReadStream(filePath, { highWaterMark: SNIFF_BYTES })) {
+    yield* parser.push(decoder.decode(chunk as Buffer, { stream: true }));
+  }
+
+  yield* parser.push(decoder.decode());
+  yield* parser.end();
+}
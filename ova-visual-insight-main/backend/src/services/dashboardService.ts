@@ -0,0 +1,353 @@
+import { copyFileSync, existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisHistoryService } from './analysisHistoryService.js';
+import { AnalysisJobService } from './analysisJobService.js';
+import { ChartOwnershipService } from './chartOwnershipService.js';
+import { ChartSpec } from './chartSpec.js';
+import { CodeSafetyService } from './codeSafetyService.js';
+import { DatasetInfo, FileProcessingService, lineageOf } from './fileProcessingService.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { PythonSandboxService } from './pythonSandboxService.js';
+import { workspaceOf } from './workspaceService.js';
+
+// Tiles are drawn inline, so HTML and Vega-Lite analyses are shown as a PNG or a native chart instead
+export type DashboardTileFormat = 'png' | 'jpg' | 'svg' | 'chart-spec';
+
+// A pinned analysis; it keeps its own copy of the code or spec so it still refreshes after the analysis is deleted
+export interface DashboardTile {
+  id: string;
+  analysisId: string;
+  title: string;
+  query: string;
+  // The dataset version the chart was last drawn from; refreshes draw from the newest version of lineageId
+  datasetId: string;
+  datasetName: string;
+  // Unset on tiles pinned before datasets had versions, whose datasetId is their lineage
+  lineageId?: string;
+  format: DashboardTileFormat;
+  pythonCode?: string;
+  chartSpec?: ChartSpec;
+  // The tile's own chart file, replaced on every refresh
+  chart?: { path: string; format: DashboardTileFormat };
+  refreshedAt?: Date;
+  // Why the last refresh failed; the previous chart is kept
+  error?: string;
+  createdAt: Date;
+}
+
+// Rows top to bottom, tiles left to right; sizes are percentages of the dashboard height and of the row width
+export interface DashboardLayoutRow {
+  size: number;
+  tiles: { tileId: string; size: number }[];
+}
+
+export interface Dashboard {
+  id: string;
+  ownerId: string;
+  workspaceId: string;
+  name: string;
+  tiles: DashboardTile[];
+  layout: DashboardLayoutRow[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The request could not be carried out; statusCode is what the endpoint should answer with
+export class DashboardError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'DashboardError';
+  }
+}
+
+export const MAX_TILES_PER_ROW = 4;
+// New tiles fill a row up to this many before a new row is started
+const DEFAULT_TILES_PER_ROW = 2;
+const MIN_PANEL_SIZE = 5;
+
+// Scales sizes so they add up to 100, keeping their proportions
+function normalize(sizes: number[]): number[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  return sizes.map(size => total > 0 ? Math.round((size / total) * 10000) / 100 : 100 / sizes.length);
+}
+
+function resizeRows(rows: DashboardLayoutRow[]): DashboardLayoutRow[] {
+  const rowSizes = normalize(rows.map(row => row.size));
+  return rows.map((row, index) => {
+    const tileSizes = normalize(row.tiles.map(tile => tile.size));
+    return { size: rowSizes[index], tiles: row.tiles.map((tile, position) => ({ ...tile, size: tileSizes[position] })) };
+  });
+}
+
+// Checks that a layout places every tile of the dashboard exactly once, with usable sizes
+export function validateLayout(layout: unknown, tileIds: string[]): string | null {
+  if (!Array.isArray(layout)) {
+    return 'layout must be an array of rows';
+  }
+
+  const placed: string[] = [];
+  for (const row of layout) {
+    if (typeof row !== 'object' || row === null || typeof row.size !== 'number' || row.size < MIN_PANEL_SIZE || !Array.isArray(row.tiles)) {
+      return `Each row needs a size of at least ${MIN_PANEL_SIZE} and a tiles array`;
+    }
+    if (row.tiles.length === 0 || row.tiles.length > MAX_TILES_PER_ROW) {
+      return `Each row must hold between 1 and ${MAX_TILES_PER_ROW} tiles`;
+    }
+    for (const tile of row.tiles) {
+      if (typeof tile !== 'object' || tile === null || typeof tile.tileId !== 'string' || typeof tile.size !== 'number' || tile.size < MIN_PANEL_SIZE) {
+        return `Each tile needs a tileId and a size of at least ${MIN_PANEL_SIZE}`;
+      }
+      placed.push(tile.tileId);
+    }
+  }
+
+  if (new Set(placed).size !== placed.length) {
+    return 'A tile is placed more than once';
+  }
+  const unknown = placed.filter(id => !tileIds.includes(id));
+  if (unknown.length > 0) {
+    return `Unknown tiles: ${unknown.join(', ')}`;
+  }
+  const missing = tileIds.filter(id => !placed.includes(id));
+  if (missing.length > 0) {
+    return `The layout leaves out tiles: ${missing.join(', ')}`;
+  }
+  return null;
+}
+
+const reviveDashboard = (dashboard: Dashboard): Dashboard => ({
+  ...dashboard,
+  tiles: dashboard.tiles.map(tile => ({
+    ...tile,
+    refreshedAt: tile.refreshedAt ? new Date(tile.refreshedAt) : undefined,
+    createdAt: new Date(tile.createdAt)
+  })),
+  createdAt: new Date(dashboard.createdAt),
+  updatedAt: new Date(dashboard.updatedAt)
+});
+
+export class DashboardService {
+  private outputDir = join(process.cwd(), 'output');
+  private dashboards = new JsonFileStore<Dashboard>('dashboards', reviveDashboard);
+  private historyService = new AnalysisHistoryService();
+  private analysisJobService = new AnalysisJobService();
+  private fileProcessingService = new FileProcessingService();
+  private pythonSandboxService = new PythonSandboxService();
+  private codeSafetyService = new CodeSafetyService();
+  private chartOwnershipService = new ChartOwnershipService();
+
+  listDashboards(workspaceId: string): Dashboard[] {
+    return this.dashboards.find(dashboard => workspaceOf(dashboard) === workspaceId).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  getDashboard(id: string): Dashboard | undefined {
+    return this.dashboards.get(id);
+  }
+
+  createDashboard(ownerId: string, workspaceId: string, name: string): Dashboard {
+    const now = new Date();
+    return this.dashboards.put({ id: uuidv4(), ownerId, workspaceId, name, tiles: [], layout: [], createdAt: now, updatedAt: now });
+  }
+
+  renameDashboard(id: string, name: string): Dashboard | undefined {
+    const dashboard = this.dashboards.get(id);
+    if (!dashboard) return undefined;
+    return this.dashboards.put({ ...dashboard, name, updatedAt: new Date() });
+  }
+
+  // Removes the dashboard and the chart files of its tiles; the pinned analyses are untouched
+  deleteDashboard(id: string): boolean {
+    const dashboard = this.dashboards.get(id);
+    if (!dashboard) return false;
+
+    for (const tile of dashboard.tiles) {
+      this.removeChartFile(tile);
+    }
+    return this.dashboards.remove(id);
+  }
+
+  // Pins an analysis's chart; the chart is copied, or drawn again when the tile shows it in another format
+  async pinAnalysis(dashboardId: string, analysisId: string): Promise<{ dashboard: Dashboard; tile: DashboardTile }> {
+    const dashboard = this.requireDashboard(dashboardId);
+    const analysis = this.historyService.getAnalysis(analysisId);
+    if (!analysis || workspaceOf(analysis) !== workspaceOf(dashboard)) {
+      throw new DashboardError('Analysis not found', 404);
+    }
+    if (analysis.status !== 'done' || !analysis.analysis) {
+      throw new DashboardError('Only analyses that finished successfully can be pinned', 400);
+    }
+
+    const chartSpec = analysis.analysis.chartSpec;
+    const format: DashboardTileFormat = chartSpec
+      ? 'chart-spec'
+      : ['png', 'jpg', 'svg'].includes(analysis.outputFormat) ? analysis.outputFormat as DashboardTileFormat : 'png';
+    const dataset = await this.fileProcessingService.getDatasetInfo(analysis.datasetId);
+    let tile: DashboardTile = {
+      id: uuidv4(),
+      analysisId,
+      title: analysis.title,
+      query: analysis.query,
+      datasetId: analysis.datasetId,
+      datasetName: analysis.datasetName,
+      lineageId: dataset ? lineageOf(dataset) : analysis.datasetId,
+      format,
+      ...(chartSpec ? { chartSpec } : { pythonCode: analysis.analysis.pythonCode }),
+      createdAt: new Date()
+    };
+
+    const chartPath = analysis.chart && join(this.outputDir, basename(analysis.chart.path));
+    if (chartPath && analysis.outputFormat === format && existsSync(chartPath)) {
+      const copy = join(this.outputDir, `${uuidv4()}.${chartPath.split('.').pop()}`);
+      copyFileSync(chartPath, copy);
+      this.chartOwnershipService.claim(copy, dashboard.ownerId, workspaceOf(dashboard)!);
+      tile = { ...tile, chart: { path: copy, format }, refreshedAt: analysis.createdAt };
+    } else {
+      tile = await this.renderTile(tile, dashboard);
+    }
+
+    // The row the tile joins is split evenly again; a new row gets the average row height
+    const layout = [...dashboard.layout];
+    const lastRow = layout[layout.length - 1];
+    if (lastRow && lastRow.tiles.length < DEFAULT_TILES_PER_ROW) {
+      layout[layout.length - 1] = { ...lastRow, tiles: [...lastRow.tiles, { tileId: tile.id, size: 0 }].map(placed => ({ ...placed, size: 1 })) };
+    } else {
+      layout.push({ size: layout.length > 0 ? 100 / layout.length : 100, tiles: [{ tileId: tile.id, size: 100 }] });
+    }
+
+    const updated = this.dashboards.put({
+      ...dashboard,
+      tiles: [...dashboard.tiles, tile],
+      layout: resizeRows(layout),
+      updatedAt: new Date()
+    });
+    return { dashboard: updated, tile };
+  }
+
+  unpinTile(dashboardId: string, tileId: string): Dashboard {
+    const dashboard = this.requireDashboard(dashboardId);
+    const tile = this.requireTile(dashboard, tileId);
+    this.removeChartFile(tile);
+
+    const layout = dashboard.layout
+      .map(row => ({ ...row, tiles: row.tiles.filter(placed => placed.tileId !== tileId) }))
+      .filter(row => row.tiles.length > 0);
+    return this.dashboards.put({
+      ...dashboard,
+      tiles: dashboard.tiles.filter(item => item.id !== tileId),
+      layout: resizeRows(layout),
+      updatedAt: new Date()
+    });
+  }
+
+  // The layout must have been checked with validateLayout
+  updateLayout(dashboardId: string, layout: DashboardLayoutRow[]): Dashboard {
+    const dashboard = this.requireDashboard(dashboardId);
+    const rows = layout.map(row => ({ size: row.size, tiles: row.tiles.map(({ tileId, size }) => ({ tileId, size })) }));
+    return this.dashboards.put({ ...dashboard, layout: resizeRows(rows), updatedAt: new Date() });
+  }
+
+  // Re-runs the tile's code or re-evaluates its spec against the latest version of its dataset
+  async refreshTile(dashboardId: string, tileId: string): Promise<DashboardTile> {
+    const dashboard = this.requireDashboard(dashboardId);
+    const refreshed = await this.renderTile(this.requireTile(dashboard, tileId), dashboard);
+    this.saveTile(dashboardId, refreshed);
+    return refreshed;
+  }
+
+  // Tiles refresh one after another, so a large dashboard holds at most one of the workers shared with analysis jobs
+  async refreshDashboard(dashboardId: string): Promise<Dashboard> {
+    const dashboard = this.requireDashboard(dashboardId);
+    for (const tile of dashboard.tiles) {
+      this.saveTile(dashboardId, await this.renderTile(tile, dashboard));
+    }
+    return this.requireDashboard(dashboardId);
+  }
+
+  private requireDashboard(id: string): Dashboard {
+    const dashboard = this.dashboards.get(id);
+    if (!dashboard) {
+      throw new DashboardError('Dashboard not found', 404);
+    }
+    return dashboard;
+  }
+
+  private requireTile(dashboard: Dashboard, tileId: string): DashboardTile {
+    const tile = dashboard.tiles.find(item => item.id === tileId);
+    if (!tile) {
+      throw new DashboardError('Tile not found', 404);
+    }
+    return tile;
+  }
+
+  // Stores a refreshed tile, unless it was unpinned while it rendered
+  private saveTile(dashboardId: string, tile: DashboardTile) {
+    const dashboard = this.dashboards.get(dashboardId);
+    if (!dashboard || !dashboard.tiles.some(item => item.id === tile.id)) {
+      this.removeChartFile(tile);
+      return;
+    }
+    this.dashboards.put({
+      ...dashboard,
+      tiles: dashboard.tiles.map(item => item.id === tile.id ? tile : item),
+      updatedAt: new Date()
+    });
+  }
+
+  // A failed render keeps the previous chart and records the error on the tile
+  private async renderTile(tile: DashboardTile, dashboard: Dashboard): Promise<DashboardTile> {
+    try {
+      const dataset = await this.fileProcessingService.getLatestVersion(tile.lineageId || tile.datasetId);
+      if (!dataset) {
+        throw new Error('The dataset of this tile has been deleted');
+      }
+      const path = await this.renderChart(tile, dataset);
+      this.chartOwnershipService.claim(path, dashboard.ownerId, workspaceOf(dashboard)!);
+      this.removeChartFile(tile);
+      const { error, ...rest } = tile;
+      return { ...rest, datasetId: dataset.id, chart: { path, format: tile.format }, refreshedAt: new Date() };
+    } catch (error) {
+      console.error('Dashboard tile refresh error:', error);
+      return { ...tile, error: error instanceof Error ? error.message : 'Refresh failed' };
+    }
+  }
+
+  private async renderChart(tile: DashboardTile, dataset: DatasetInfo): Promise<string> {
+    if (tile.chartSpec) {
+      const chartData = await this.fileProcessingService.evaluateChartSpec(dataset.id, tile.chartSpec);
+      if (!chartData) {
+        throw new Error('The dataset of this tile has been deleted');
+      }
+      const path = join(this.outputDir, `${uuidv4()}.json`);
+      if (!existsSync(this.outputDir)) {
+        mkdirSync(this.outputDir, { recursive: true });
+      }
+      writeFileSync(path, JSON.stringify(chartData, null, 2));
+      return path;
+    }
+
+    // Checked again in case the safety rules have changed since the analysis ran
+    const safety = await this.codeSafetyService.analyze(tile.pythonCode || '');
+    if (!safety.safe) {
+      throw new Error('The tile code no longer passes the safety checks');
+    }
+
+    // Waits for a worker in the analysis queue, so refreshes stay within PYTHON_MAX_WORKERS
+    const result = await this.analysisJobService.runWithWorker(() => this.pythonSandboxService.executePythonCode({
+      pythonCode: tile.pythonCode || '',
+      dataset,
+      outputFormat: tile.format === 'chart-spec' ? 'png' : tile.format
+    }));
+    if (!result.success || !result.chartPath) {
+      throw new Error(result.error || 'The tile code did not produce a chart');
+    }
+    return result.chartPath;
+  }
+
+  private removeChartFile(tile: DashboardTile) {
+    if (tile.chart) {
+      rmSync(tile.chart.path, { force: true });
+      this.chartOwnershipService.release(tile.chart.path);
+    }
+  }
+}
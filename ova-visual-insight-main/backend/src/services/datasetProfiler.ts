@@ -0,0 +1,180 @@
+import { ColumnTypeInfo, CellValue, SemanticType, StorageType, parseNumericValue, parseDateValue } from './columnTypeInference.js';
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface NumericStatistics {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  std: number;
+  quantiles: Record<string, number>;
+  histogram: HistogramBin[];
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: StorageType;
+  semanticType: SemanticType;
+  count: number;
+  nullCount: number;
+  nullPercentage: number;
+  distinctCount: number;
+  numeric?: NumericStatistics;
+  dateRange?: { min: string; max: string };
+  topValues: ValueFrequency[];
+}
+
+export interface DatasetProfile {
+  id: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+  generatedAt: Date;
+}
+
+const QUANTILES = [0.05, 0.25, 0.5, 0.75, 0.95];
+const HISTOGRAM_BINS = 10;
+const TOP_VALUES = 10;
+
+class ColumnAccumulator {
+  private name: string;
+  private typeInfo: ColumnTypeInfo;
+  private nullCount = 0;
+  private frequencies = new Map<string, number>();
+  private numbers: number[] = [];
+  private minDate = Infinity;
+  private maxDate = -Infinity;
+
+  constructor(name: string, typeInfo: ColumnTypeInfo) {
+    this.name = name;
+    this.typeInfo = typeInfo;
+  }
+
+  add(value: CellValue) {
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      this.nullCount++;
+      return;
+    }
+
+    const token = value instanceof Date ? value.toISOString() : String(value).trim();
+    this.frequencies.set(token, (this.frequencies.get(token) || 0) + 1);
+
+    if (this.isNumeric()) {
+      const number = parseNumericValue(value, this.typeInfo);
+      if (number !== null && Number.isFinite(number)) {
+        this.numbers.push(number);
+      }
+    } else if (this.typeInfo.type === 'date') {
+      const timestamp = parseDateValue(value, this.typeInfo);
+      if (timestamp !== null) {
+        this.minDate = Math.min(this.minDate, timestamp);
+        this.maxDate = Math.max(this.maxDate, timestamp);
+      }
+    }
+  }
+
+  finish(rowCount: number): ColumnProfile {
+    const count = rowCount - this.nullCount;
+    const topValues = Array.from(this.frequencies.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, frequency]) => ({ value, count: frequency }));
+
+    return {
+      name: this.name,
+      type: this.typeInfo.type,
+      semanticType: this.typeInfo.semanticType,
+      count,
+      nullCount: this.nullCount,
+      nullPercentage: rowCount > 0 ? Math.round((this.nullCount / rowCount) * 10000) / 100 : 0,
+      distinctCount: this.frequencies.size,
+      ...(this.numbers.length > 0 && { numeric: summarizeNumbers(this.numbers) }),
+      ...(this.minDate !== Infinity && {
+        dateRange: { min: new Date(this.minDate).toISOString(), max: new Date(this.maxDate).toISOString() }
+      }),
+      topValues
+    };
+  }
+
+  private isNumeric(): boolean {
+    return (this.typeInfo.type === 'integer' || this.typeInfo.type === 'float') && this.typeInfo.semanticType !== 'identifier';
+  }
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function summarizeNumbers(values: number[]): NumericStatistics {
+  const sorted = Float64Array.from(values).sort();
+  const sortedValues = Array.from(sorted);
+  const min = sortedValues[0];
+  const max = sortedValues[sortedValues.length - 1];
+  const mean = sortedValues.reduce((sum, value) => sum + value, 0) / sortedValues.length;
+  const variance = sortedValues.length > 1
+    ? sortedValues.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sortedValues.length - 1)
+    : 0;
+
+  const quantiles: Record<string, number> = {};
+  for (const q of QUANTILES) {
+    quantiles[`p${Math.round(q * 100)}`] = quantile(sortedValues, q);
+  }
+
+  // A constant column gets a single bin rather than ten zero-width ones
+  const binCount = min === max ? 1 : HISTOGRAM_BINS;
+  const width = (max - min) / binCount || 1;
+  const histogram: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    start: min + index * width,
+    end: index === binCount - 1 ? max : min + (index + 1) * width,
+    count: 0
+  }));
+  for (const value of sortedValues) {
+    const index = Math.min(binCount - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  }
+
+  return {
+    min,
+    max,
+    mean,
+    median: quantile(sortedValues, 0.5),
+    std: Math.sqrt(variance),
+    quantiles,
+    histogram
+  };
+}
+
+// Builds column statistics in a single pass over the dataset's rows
+export async function profileRows(
+  datasetId: string,
+  columns: string[],
+  columnTypes: Record<string, ColumnTypeInfo>,
+  rows: AsyncIterable<CellValue[]>
+): Promise<DatasetProfile> {
+  const accumulators = columns.map(column => new ColumnAccumulator(String(column), columnTypes[column]));
+  let rowCount = 0;
+
+  for await (const row of rows) {
+    rowCount++;
+    accumulators.forEach((accumulator, index) => accumulator.add(row[index]));
+  }
+
+  return {
+    id: datasetId,
+    rowCount,
+    columns: accumulators.map(accumulator => accumulator.finish(rowCount)),
+    generatedAt: new Date()
+  };
+}
@@ -0,0 +1,122 @@
+import { createReadStream } from 'fs';
+import { open, readFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import { parquetMetadataAsync, parquetSchema, parquetRead } from 'hyparquet';
+import type { AsyncBuffer, FileMetaData } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { CellValue } from './columnTypeInference.js';
+
+export type JsonRecord = Record<string, unknown>;
+
+// Rows are pulled from Parquet files one slice at a time so large files never decode in one go
+const PARQUET_BATCH_ROWS = 10000;
+
+// Nested values have no spreadsheet equivalent, so they are profiled as their JSON text
+export function toCellValue(value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+  return JSON.stringify(value, (_key, nested) => (typeof nested === 'bigint' ? Number(nested) : nested));
+}
+
+function assertRecord(value: unknown, position: string): JsonRecord {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Expected a JSON object at ${position}`);
+  }
+  return value as JsonRecord;
+}
+
+// A .json dataset is a single array of records
+export async function* readJsonRecords(filePath: string): AsyncGenerator<JsonRecord> {
+  const parsed: unknown = JSON.parse(await readFile(filePath, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON file must contain an array of records');
+  }
+
+  for (let index = 0; index < parsed.length; index++) {
+    yield assertRecord(parsed[index], `record ${index + 1}`);
+  }
+}
+
+// .jsonl / .ndjson datasets hold one record per line and are streamed
+export async function* readNdjsonRecords(filePath: string): AsyncGenerator<JsonRecord> {
+  const lines = createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    const trimmed = line.replace(/^\uFEFF/, '').trim();
+    if (!trimmed) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber}`);
+    }
+    yield assertRecord(parsed, `line ${lineNumber}`);
+  }
+}
+
+async function openParquet(filePath: string): Promise<{ file: AsyncBuffer; metadata: FileMetaData; close: () => Promise<void> }> {
+  const handle = await open(filePath, 'r');
+  const { size } = await handle.stat();
+
+  const file: AsyncBuffer = {
+    byteLength: size,
+    async slice(start: number, end: number = size) {
+      const buffer = Buffer.alloc(end - start);
+      await handle.read(buffer, 0, end - start, start);
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    }
+  };
+
+  try {
+    const metadata = await parquetMetadataAsync(file);
+    return { file, metadata, close: () => handle.close() };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+export async function readParquetInfo(filePath: string): Promise<{ columns: string[]; rowCount: number }> {
+  const { metadata, close } = await openParquet(filePath);
+  try {
+    return {
+      columns: parquetSchema(metadata).children.map(child => child.element.name),
+      rowCount: Number(metadata.num_rows)
+    };
+  } finally {
+    await close();
+  }
+}
+
+export async function* readParquetRows(filePath: string, limit?: number): AsyncGenerator<CellValue[]> {
+  const { file, metadata, close } = await openParquet(filePath);
+  try {
+    const total = Math.min(Number(metadata.num_rows), limit ?? Infinity);
+
+    for (let rowStart = 0; rowStart < total; rowStart += PARQUET_BATCH_ROWS) {
+      let batch: unknown[][] = [];
+      await parquetRead({
+        file,
+        metadata,
+        compressors,
+        rowStart,
+        rowEnd: Math.min(rowStart + PARQUET_BATCH_ROWS, total),
+        onComplete: rows => {
+          batch = rows;
+        }
+      });
+
+      for (const row of batch) {
+        yield row.map(toCellValue);
+      }
+    }
+  } finally {
+    await close();
+  }
+}
@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import * as XLSX from 'xlsx';
+import { CellValue } from './columnTypeInference.js';
+
+export interface SheetTable {
+  name: string;
+  // Zero-based sheet row and column where the table's header starts, as pandas counts them
+  headerRow: number;
+  firstColumn: number;
+  columns: string[];
+  rows: CellValue[][];
+}
+
+// Title rows, notes and blank lines above a table are searched this far down
+const HEADER_SEARCH_ROWS = 20;
+
+function isBlank(value: CellValue): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function countFilled(row: CellValue[]): number {
+  return row.filter(cell => !isBlank(cell)).length;
+}
+
+// Merged ranges only store a value in their top-left cell; copy it to the rest of the range
+function fillMergedCells(rows: CellValue[][], worksheet: XLSX.WorkSheet, lastRow: number) {
+  const origin = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+  for (const merge of worksheet['!merges'] || []) {
+    const top = merge.s.r - origin.s.r;
+    if (top > lastRow) continue;
+
+    const value = rows[top]?.[merge.s.c - origin.s.c];
+    for (let r = top; r <= Math.min(merge.e.r - origin.s.r, lastRow); r++) {
+      for (let c = merge.s.c - origin.s.c; c <= merge.e.c - origin.s.c; c++) {
+        if (rows[r]) rows[r][c] = value;
+      }
+    }
+  }
+}
+
+// A group band has horizontally merged cells but, unlike a title spanning the whole table, more than one label
+function isGroupBand(worksheet: XLSX.WorkSheet, rows: CellValue[][], rowIndex: number, headerRow: number): boolean {
+  const origin = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const hasHorizontalMerge = (worksheet['!merges'] || []).some(merge =>
+    merge.s.r - origin.s.r <= rowIndex && merge.e.r - origin.s.r >= rowIndex && merge.e.c > merge.s.c
+  );
+  if (!hasHorizontalMerge) return false;
+
+  const band = rows[rowIndex] || [];
+  const width = (rows[headerRow] || []).length;
+  const labels = new Set(band.slice(0, width).filter(cell => !isBlank(cell)).map(cell => String(cell)));
+  const hasGaps = band.slice(0, width).some(isBlank) || band.length < width;
+  return labels.size > 1 || hasGaps;
+}
+
+function isTextRow(row: CellValue[] | undefined, minFilled: number): boolean {
+  const filled = (row || []).filter(cell => !isBlank(cell));
+  const textCells = filled.filter(cell => typeof cell === 'string' && isNaN(Number(cell)));
+  return filled.length >= minFilled && filled.length > 0 && textCells.length / filled.length >= 0.8;
+}
+
+// The header is the first row that is about as wide as the table and mostly text
+export function detectHeaderRow(rows: CellValue[][]): number {
+  const candidates = rows.slice(0, HEADER_SEARCH_ROWS);
+  const tableWidth = Math.max(0, ...candidates.map(countFilled));
+  if (tableWidth === 0) return 0;
+
+  const minFilled = Math.max(Math.min(2, tableWidth), Math.ceil(tableWidth * 0.6));
+  for (let index = 0; index < candidates.length; index++) {
+    const hasDataBelow = rows.slice(index + 1).some(row => countFilled(row) > 0);
+    if (isTextRow(candidates[index], minFilled) && hasDataBelow) {
+      return index;
+    }
+  }
+  return 0;
+}
+
+function filledWidth(row: CellValue[]): number {
+  for (let c = row.length - 1; c >= 0; c--) {
+    if (!isBlank(row[c])) return c + 1;
+  }
+  return 0;
+}
+
+function firstFilled(row: CellValue[]): number {
+  const index = row.findIndex(cell => !isBlank(cell));
+  return index === -1 ? Infinity : index;
+}
+
+function buildColumnNames(rows: CellValue[][], headerRow: number, groupRow: number | null): string[] {
+  const header = rows[headerRow] || [];
+  // Ignore trailing columns that are blank in both the header and the data
+  const width = rows.slice(headerRow).reduce((max, row) => Math.max(max, filledWidth(row)), 0);
+  const seen = new Map<string, number>();
+  const columns: string[] = [];
+
+  for (let c = 0; c < width; c++) {
+    const label = isBlank(header[c]) ? '' : String(header[c]).trim();
+    const group = groupRow !== null && !isBlank(rows[groupRow]?.[c]) ? String(rows[groupRow][c]).trim() : '';
+    let name = [group, label].filter(Boolean).filter((part, index, parts) => parts.indexOf(part) === index).join(' ') || `Column ${c + 1}`;
+
+    // Duplicate headers get a numeric suffix, as pandas does with mangle_dupe_cols
+    const occurrences = seen.get(name) || 0;
+    seen.set(name, occurrences + 1);
+    if (occurrences > 0) name = `${name}.${occurrences}`;
+    columns.push(name);
+  }
+  return columns;
+}
+
+export function extractSheetTable(worksheet: XLSX.WorkSheet, name: string): SheetTable {
+  const rows = XLSX.utils.sheet_to_json<CellValue[]>(worksheet, { header: 1, blankrows: true, defval: null });
+  let headerRow = detectHeaderRow(rows);
+
+  // Fill one row past the detected header in case it turns out to be the upper half of a two-level header
+  fillMergedCells(rows, worksheet, headerRow + 1);
+  if (isGroupBand(worksheet, rows, headerRow, headerRow) && isTextRow(rows[headerRow + 1], 2)) {
+    headerRow++;
+  }
+
+  // A horizontally merged band right above the header (e.g. "Q1" over "Revenue | Cost") prefixes the names below it
+  const groupRow = headerRow > 0 && isGroupBand(worksheet, rows, headerRow - 1, headerRow) ? headerRow - 1 : null;
+
+  // Drop leading columns that are blank in the header and every data row, like the trailing ones
+  const leading = Math.min(...rows.slice(groupRow ?? headerRow).map(firstFilled));
+  const table = Number.isFinite(leading) && leading > 0 ? rows.map(row => row.slice(leading)) : rows;
+  const columns = buildColumnNames(table, headerRow, groupRow);
+  const dataRows = table.slice(headerRow + 1)
+    .filter(row => countFilled(row) > 0)
+    .map(row => row.slice(0, columns.length));
+
+  // sheet_to_json starts at the used range, which may not begin at A1
+  const origin = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const firstColumn = origin.s.c + (Number.isFinite(leading) ? leading : 0);
+  return { name, headerRow: origin.s.r + headerRow, firstColumn, columns, rows: dataRows };
+}
+
+export function readWorkbookSheets(filePath: string, sheetNames?: string[]): SheetTable[] {
+  // XLSX.readFile is missing from the ESM namespace import, so read the bytes ourselves
+  const workbook = XLSX.read(readFileSync(filePath), { type: 'buffer', cellDates: true });
+  const names = sheetNames || workbook.SheetNames;
+
+  return names.map(name => {
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet) {
+      throw new Error(`Worksheet "${name}" not found in Excel file`);
+    }
+    return extractSheetTable(worksheet, name);
+  });
+}
@@ -1,31 +1,133 @@
 import multer from 'multer';
-import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { existsSync, mkdirSync, unlinkSync, readdirSync, statSync } from 'fs';
 import { join, extname } from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import * as XLSX from 'xlsx';
+import { JsonFileStore } from './jsonFileStore.js';
+import { workspaceOf } from './workspaceService.js';
+import { detectCsvFormat, readCsvRows, CsvEncoding } from './csvParser.js';
+import { inferColumnType, toDataTypeLabel, ColumnTypeInfo, CellValue } from './columnTypeInference.js';
+import { profileRows, DatasetProfile } from './datasetProfiler.js';
+import { evaluateChartSpec, ChartData, ChartSpec } from './chartSpec.js';
+import { readWorkbookSheets, SheetTable } from './excelReader.js';
+import { readJsonRecords, readNdjsonRecords, readParquetInfo, readParquetRows, toCellValue, JsonRecord } from './datasetReaders.js';
+
+export type DatasetFormat = 'csv' | 'tsv' | 'excel' | 'json' | 'ndjson' | 'parquet';
 
 export interface DatasetInfo {
   id: string;
+  // The user who uploaded it and its workspace; unset for datasets from before there were accounts, which nobody can see
+  ownerId?: string;
+  workspaceId?: string;
   filename: string;
   originalName: string;
+  format: DatasetFormat;
   columns: string[];
   dataTypes: Record<string, string>;
+  columnTypes: Record<string, ColumnTypeInfo>;
   rowCount: number;
   sampleData: any[];
   filePath: string;
   uploadTime: Date;
   fileSize: number;
+  delimiter?: string;
+  encoding?: string;
+  sheetName?: string;
+  headerRow?: number;
+  firstColumn?: number;
+  // Shared by every dataset imported from the same workbook upload
+  workbookId?: string;
+  // Re-uploads of a dataset share the ID of its first upload and count up from version 1; both unset on the first upload
+  lineageId?: string;
+  version?: number;
+  displayName?: string;
+  description?: string;
+  tags?: string[];
+}
+
+export interface SheetSummary {
+  name: string;
+  headerRow: number;
+  firstColumn: number;
+  rowCount: number;
+  columns: string[];
+  dataTypes: Record<string, string>;
+  columnTypes: Record<string, ColumnTypeInfo>;
+  sampleData: any[];
+  datasetId?: string;
+}
+
+export interface UploadOptions {
+  ownerId?: string;
+  workspaceId?: string;
+  sheets?: string[];
+  // The dataset this upload is a new version of
+  replaces?: DatasetInfo;
 }
 
 export interface FileUploadResult {
   success: boolean;
   datasetInfo?: DatasetInfo;
+  linkedDatasets?: DatasetInfo[];
+  sheets?: SheetSummary[];
   error?: string;
 }
 
+export interface DatasetListOptions {
+  workspaceId: string;
+  page: number;
+  pageSize: number;
+  sortBy: 'uploadTime' | 'fileSize';
+  sortOrder: 'asc' | 'desc';
+  name?: string;
+  column?: string;
+}
+
+export interface DatasetListResult {
+  datasets: DatasetInfo[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type DatasetMetadataUpdate = Pick<DatasetInfo, 'displayName' | 'description' | 'tags'>;
+
+const FORMAT_BY_EXTENSION: Record<string, DatasetFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.xlsx': 'excel',
+  '.xls': 'excel',
+  '.json': 'json',
+  '.jsonl': 'ndjson',
+  '.ndjson': 'ndjson',
+  '.parquet': 'parquet'
+};
+
+// Rows kept in memory for type inference while the rest of the file streams past
+const INFERENCE_SAMPLE_ROWS = 1000;
+
+const UUID_PREFIX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// JSON has no Date type, so timestamps come back from the catalog as strings
+const reviveDataset = (dataset: DatasetInfo): DatasetInfo => ({
+  ...dataset,
+  // Entries catalogued before formats were recorded are read by their file extension, then as delimited text or Excel
+  format: dataset.format || FORMAT_BY_EXTENSION[extname(dataset.filename).toLowerCase()] || (dataset.delimiter ? 'csv' : 'excel'),
+  uploadTime: new Date(dataset.uploadTime)
+});
+
+// Every version of a dataset resolves to the same lineage
+export const lineageOf = (dataset: DatasetInfo): string => dataset.lineageId || dataset.id;
+
+const reviveProfile = (profile: DatasetProfile): DatasetProfile => ({
+  ...profile,
+  generatedAt: new Date(profile.generatedAt)
+});
+
 export class FileProcessingService {
   private uploadDir: string;
-  private allowedExtensions = ['.csv', '.xlsx', '.xls'];
+  private allowedExtensions = Object.keys(FORMAT_BY_EXTENSION);
+  private datasets = new JsonFileStore<DatasetInfo>('datasets', reviveDataset);
+  private profiles = new JsonFileStore<DatasetProfile>('profiles', reviveProfile);
 
   constructor() {
     this.uploadDir = join(process.cwd(), 'uploads');
@@ -55,7 +157,7 @@ export class FileProcessingService {
       if (this.allowedExtensions.includes(ext)) {
         cb(null, true);
       } else {
-        cb(new Error(`File type ${ext} is not allowed. Please upload CSV or Excel files.`));
+        cb(new Error(`File type ${ext} is not allowed. Supported types: ${this.allowedExtensions.join(', ')}`));
       }
     };
 
@@ -69,22 +171,60 @@ export class FileProcessingService {
     });
   }
 
-  async processUploadedFile(file: Express.Multer.File): Promise<FileUploadResult> {
+  getSupportedExtensions(): string[] {
+    return [...this.allowedExtensions];
+  }
+
+  isSupportedFile(filename: string): boolean {
+    return this.allowedExtensions.includes(extname(filename).toLowerCase());
+  }
+
+  async processUploadedFile(file: Express.Multer.File, options: UploadOptions = {}): Promise<FileUploadResult> {
     try {
       const filePath = join(this.uploadDir, file.filename);
-      const fileStats = require('fs').statSync(filePath);
-      
-      let datasetInfo: DatasetInfo;
+      const format = FORMAT_BY_EXTENSION[extname(file.originalname).toLowerCase()];
 
-      if (file.mimetype === 'text/csv' || extname(file.originalname).toLowerCase() === '.csv') {
-        datasetInfo = await this.processCSVFile(filePath, file);
-      } else {
-        datasetInfo = await this.processExcelFile(filePath, file);
+      if (!format) {
+        throw new Error(`Unsupported file type: ${extname(file.originalname) || file.originalname}`);
+      }
+
+      if (format !== 'excel') {
+        let datasetInfo: DatasetInfo;
+        if (format === 'csv' || format === 'tsv') {
+          datasetInfo = await this.processCSVFile(filePath, file, format);
+        } else if (format === 'parquet') {
+          datasetInfo = await this.processParquetFile(filePath, file);
+        } else {
+          datasetInfo = await this.processRecordsFile(filePath, file, format);
+        }
+
+        // Profile once at upload time; every later lookup is served from the catalog
+        datasetInfo = this.datasets.put({
+          ...datasetInfo,
+          ownerId: options.ownerId,
+          workspaceId: options.workspaceId,
+          ...this.nextVersionOf(options.replaces)
+        });
+
+        return {
+          success: true,
+          datasetInfo
+        };
+      }
+
+      const { datasets, sheets } = await this.processExcelFile(filePath, file, options);
+      if (options.replaces) {
+        // The sheet named like the replaced one carries on its lineage, else the first imported sheet does
+        const index = Math.max(0, datasets.findIndex(datasetInfo => datasetInfo.sheetName === options.replaces!.sheetName));
+        datasets[index] = { ...datasets[index], ...this.nextVersionOf(options.replaces) };
       }
+      datasets.forEach(datasetInfo => this.datasets.put(datasetInfo));
 
       return {
         success: true,
-        datasetInfo
+        datasetInfo: datasets[0],
+        linkedDatasets: datasets.slice(1),
+        sheets
       };
     } catch (error) {
       // Clean up uploaded file on error
@@ -100,186 +240,445 @@ export class FileProcessingService {
     }
   }
 
-  private async processCSVFile(filePath: string, file: Express.Multer.File): Promise<DatasetInfo> {
-    const csvContent = readFileSync(filePath, 'utf-8');
-    const lines = csvContent.split('\n').filter(line => line.trim());
-    
-    if (lines.length < 2) {
+  private async processCSVFile(filePath: string, file: Express.Multer.File, fileFormat: 'csv' | 'tsv'): Promise<DatasetInfo> {
+    const detected = await detectCsvFormat(filePath);
+    // A .tsv extension is an explicit promise about the delimiter; only the encoding is sniffed
+    const format = fileFormat === 'tsv' ? { ...detected, delimiter: '\t' } : detected;
+
+    let headers: string[] | null = null;
+    const sampleRows: string[][] = [];
+    let rowCount = 0;
+
+    for await (const row of readCsvRows(filePath, format)) {
+      // Skip empty rows
+      if (!row.some(cell => cell.trim() !== '')) {
+        continue;
+      }
+
+      if (!headers) {
+        headers = row.map(header => header.trim());
+        continue;
+      }
+
+      rowCount++;
+      if (sampleRows.length < INFERENCE_SAMPLE_ROWS) {
+        sampleRows.push(row);
+      }
+    }
+
+    if (!headers || rowCount === 0) {
       throw new Error('CSV file must contain at least a header row and one data row');
     }
 
-    const headers = this.parseCSVLine(lines[0]);
-    const dataRows = lines.slice(1).map(line => this.parseCSVLine(line));
-    
-    // Filter out empty rows
-    const validDataRows = dataRows.filter(row => row.some(cell => cell.trim() !== ''));
-    
-    const dataTypes = this.inferDataTypes(headers, validDataRows);
-    const sampleData = validDataRows.slice(0, 5);
+    const { dataTypes, columnTypes } = this.inferColumnTypes(headers, sampleRows);
+    const sampleData = sampleRows.slice(0, 5);
 
     return {
-      id: uuidv4(),
+      id: this.getDatasetId(file.filename),
       filename: file.filename,
       originalName: file.originalname,
+      format: fileFormat,
       columns: headers,
       dataTypes,
-      rowCount: validDataRows.length,
+      columnTypes,
+      rowCount,
       sampleData,
       filePath,
       uploadTime: new Date(),
+      fileSize: file.size,
+      delimiter: format.delimiter,
+      encoding: format.encoding
+    };
+  }
+
+  // JSON arrays and NDJSON streams: columns are the union of record keys in order of first appearance
+  private async processRecordsFile(filePath: string, file: Express.Multer.File, format: 'json' | 'ndjson'): Promise<DatasetInfo> {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    const sampleRecords: JsonRecord[] = [];
+    let rowCount = 0;
+
+    for await (const record of this.readRecords(filePath, format)) {
+      for (const key of Object.keys(record)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          columns.push(key);
+        }
+      }
+
+      rowCount++;
+      if (sampleRecords.length < INFERENCE_SAMPLE_ROWS) {
+        sampleRecords.push(record);
+      }
+    }
+
+    if (rowCount === 0 || columns.length === 0) {
+      throw new Error(`${format === 'json' ? 'JSON' : 'NDJSON'} file must contain at least one record`);
+    }
+
+    const sampleRows = sampleRecords.map(record => columns.map(column => toCellValue(record[column])));
+    const { dataTypes, columnTypes } = this.inferColumnTypes(columns, sampleRows);
+
+    return {
+      id: this.getDatasetId(file.filename),
+      filename: file.filename,
+      originalName: file.originalname,
+      format,
+      columns,
+      dataTypes,
+      columnTypes,
+      rowCount,
+      sampleData: sampleRows.slice(0, 5),
+      filePath,
+      uploadTime: new Date(),
+      fileSize: file.size
+    };
+  }
+
+  private async processParquetFile(filePath: string, file: Express.Multer.File): Promise<DatasetInfo> {
+    const { columns, rowCount } = await readParquetInfo(filePath);
+
+    if (rowCount === 0 || columns.length === 0) {
+      throw new Error('Parquet file must contain at least one row');
+    }
+
+    const sampleRows: CellValue[][] = [];
+    for await (const row of readParquetRows(filePath, INFERENCE_SAMPLE_ROWS)) {
+      sampleRows.push(row);
+    }
+
+    const { dataTypes, columnTypes } = this.inferColumnTypes(columns, sampleRows);
+
+    return {
+      id: this.getDatasetId(file.filename),
+      filename: file.filename,
+      originalName: file.originalname,
+      format: 'parquet',
+      columns,
+      dataTypes,
+      columnTypes,
+      rowCount,
+      sampleData: sampleRows.slice(0, 5),
+      filePath,
+      uploadTime: new Date(),
       fileSize: file.size
     };
   }
 
-  private async processExcelFile(filePath: string, file: Express.Multer.File): Promise<DatasetInfo> {
+  private readRecords(filePath: string, format: 'json' | 'ndjson'): AsyncGenerator<JsonRecord> {
+    return format === 'json' ? readJsonRecords(filePath) : readNdjsonRecords(filePath);
+  }
+
+  private async processExcelFile(
+    filePath: string,
+    file: Express.Multer.File,
+    options: UploadOptions
+  ): Promise<{ datasets: DatasetInfo[]; sheets: SheetSummary[] }> {
     try {
-      const workbook = XLSX.readFile(filePath);
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      if (!worksheet) {
+      const tables = readWorkbookSheets(filePath);
+      if (tables.length === 0) {
         throw new Error('No worksheet found in Excel file');
       }
 
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      if (jsonData.length < 2) {
+      const sheets = tables.map(table => this.summarizeSheet(table));
+      let selected: SheetTable[];
+
+      if (options.sheets && options.sheets.length > 0) {
+        const missing = options.sheets.filter(name => !tables.some(table => table.name === name));
+        if (missing.length > 0) {
+          throw new Error(`Worksheet not found: ${missing.join(', ')}`);
+        }
+        selected = tables.filter(table => options.sheets!.includes(table.name));
+      } else {
+        // Default to the sheet a new version replaces, else the first that actually holds a table, skipping cover and notes sheets
+        const replacedSheet = tables.find(table => table.name === options.replaces?.sheetName && table.rows.length > 0);
+        const firstWithData = replacedSheet || tables.find(table => table.rows.length > 0);
+        selected = firstWithData ? [firstWithData] : [];
+      }
+
+      if (selected.length === 0 || selected.some(table => table.rows.length === 0)) {
         throw new Error('Excel file must contain at least a header row and one data row');
       }
 
-      const headers = jsonData[0] as string[];
-      const dataRows = jsonData.slice(1) as any[][];
-      
-      // Filter out empty rows
-      const validDataRows = dataRows.filter(row => row.some(cell => cell !== null && cell !== undefined && cell !== ''));
-      
-      const dataTypes = this.inferDataTypes(headers, validDataRows);
-      const sampleData = validDataRows.slice(0, 5);
+      const workbookId = this.getDatasetId(file.filename);
+      const datasets = selected.map((table, index) => {
+        const summary = sheets.find(sheet => sheet.name === table.name)!;
+        const datasetInfo = this.buildSheetDataset(summary, table.rows.length, {
+          id: index === 0 ? workbookId : uuidv4(),
+          ownerId: options.ownerId,
+          workspaceId: options.workspaceId,
+          workbookId,
+          filePath,
+          filename: file.filename,
+          originalName: file.originalname,
+          fileSize: file.size
+        });
+        summary.datasetId = datasetInfo.id;
+        return datasetInfo;
+      });
 
-      return {
-        id: uuidv4(),
-        filename: file.filename,
-        originalName: file.originalname,
-        columns: headers,
-        dataTypes,
-        rowCount: validDataRows.length,
-        sampleData,
-        filePath,
-        uploadTime: new Date(),
-        fileSize: file.size
-      };
+      return { datasets, sheets };
     } catch (error) {
       throw new Error(`Excel processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current.trim());
-    return result;
+  private summarizeSheet(table: SheetTable): SheetSummary {
+    const { dataTypes, columnTypes } = this.inferColumnTypes(table.columns, table.rows.slice(0, INFERENCE_SAMPLE_ROWS));
+
+    return {
+      name: table.name,
+      headerRow: table.headerRow,
+      firstColumn: table.firstColumn,
+      rowCount: table.rows.length,
+      columns: table.columns,
+      dataTypes,
+      columnTypes,
+      sampleData: table.rows.slice(0, 5)
+    };
+  }
+
+  private buildSheetDataset(
+    summary: SheetSummary,
+    rowCount: number,
+    source: Pick<DatasetInfo, 'id' | 'ownerId' | 'workspaceId' | 'workbookId' | 'filePath' | 'filename' | 'originalName' | 'fileSize'>
+  ): DatasetInfo {
+    return {
+      ...source,
+      format: 'excel',
+      columns: summary.columns,
+      dataTypes: summary.dataTypes,
+      columnTypes: summary.columnTypes,
+      rowCount,
+      sampleData: summary.sampleData,
+      uploadTime: new Date(),
+      sheetName: summary.name,
+      headerRow: summary.headerRow,
+      firstColumn: summary.firstColumn
+    };
   }
 
-  private inferDataTypes(headers: string[], dataRows: any[][]): Record<string, string> {
+  private inferColumnTypes(headers: string[], dataRows: CellValue[][]): { dataTypes: Record<string, string>; columnTypes: Record<string, ColumnTypeInfo> } {
     const dataTypes: Record<string, string> = {};
+    const columnTypes: Record<string, ColumnTypeInfo> = {};
     
     headers.forEach((header, colIndex) => {
-      const columnValues = dataRows.map(row => row[colIndex]).filter(val => val !== null && val !== undefined && val !== '');
-      
-      if (columnValues.length === 0) {
-        dataTypes[header] = 'string';
-        return;
-      }
-
-      const sampleValue = columnValues[0];
-      
-      if (typeof sampleValue === 'number' || !isNaN(Number(sampleValue))) {
-        dataTypes[header] = 'number';
-      } else if (sampleValue instanceof Date || !isNaN(Date.parse(sampleValue))) {
-        dataTypes[header] = 'date';
-      } else {
-        dataTypes[header] = 'string';
-      }
+      const columnType = inferColumnType(String(header), dataRows.map(row => row[colIndex]));
+      columnTypes[header] = columnType;
+      dataTypes[header] = toDataTypeLabel(columnType);
     });
     
-    return dataTypes;
+    return { dataTypes, columnTypes };
+  }
+
+  // Multer names uploads `${uuid}-${timestamp}${ext}`; the UUID doubles as the dataset ID
+  private getDatasetId(filename: string): string {
+    return filename.match(UUID_PREFIX)?.[0] || uuidv4();
   }
 
   async getDatasetInfo(datasetId: string): Promise<DatasetInfo | null> {
-    try {
-      // In a real application, you'd store this in a database
-      // For now, we'll scan the uploads directory
-      const fs = require('fs');
-      const files = fs.readdirSync(this.uploadDir);
-      
-      for (const file of files) {
-        if (file.includes(datasetId)) {
-          const filePath = join(this.uploadDir, file);
-          const stats = fs.statSync(filePath);
-          
-          // Re-process the file to get info
-          const mockFile = {
-            filename: file,
-            originalname: file,
-            size: stats.size,
-            mimetype: this.getMimeType(file)
-          } as Express.Multer.File;
-          
-          const result = await this.processUploadedFile(mockFile);
-          return result.datasetInfo || null;
+    return this.datasets.get(datasetId) || null;
+  }
+
+  // The newest version of a dataset still in the catalog; older versions may have been deleted or expired
+  async getLatestVersion(lineageId: string): Promise<DatasetInfo | null> {
+    const versions = this.datasets.find(dataset => lineageOf(dataset) === lineageId);
+    return versions.sort((a, b) => (b.version || 1) - (a.version || 1))[0] || null;
+  }
+
+  // A new version joins the replaced dataset's lineage and workspace and keeps its name, description and tags
+  private nextVersionOf(replaces?: DatasetInfo): Partial<DatasetInfo> {
+    if (!replaces) {
+      return {};
+    }
+
+    const lineageId = lineageOf(replaces);
+    const versions = this.datasets.find(dataset => lineageOf(dataset) === lineageId).map(dataset => dataset.version || 1);
+    return {
+      lineageId,
+      version: Math.max(1, ...versions) + 1,
+      workspaceId: workspaceOf(replaces),
+      displayName: replaces.displayName,
+      description: replaces.description,
+      tags: replaces.tags
+    };
+  }
+
+  async listDatasets(options: DatasetListOptions): Promise<DatasetListResult> {
+    const { workspaceId, page, pageSize, sortBy, sortOrder, name, column } = options;
+    const nameFilter = name?.toLowerCase();
+    const columnFilter = column?.toLowerCase();
+
+    const matching = this.datasets.find(dataset => {
+      if (workspaceOf(dataset) !== workspaceId) {
+        return false;
+      }
+      if (nameFilter) {
+        const names = [dataset.displayName, dataset.originalName].filter(Boolean) as string[];
+        if (!names.some(value => value.toLowerCase().includes(nameFilter))) {
+          return false;
         }
       }
-      
+      if (columnFilter && !dataset.columns.some(col => String(col).toLowerCase().includes(columnFilter))) {
+        return false;
+      }
+      return true;
+    });
+
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = sortBy === 'fileSize' ? a.fileSize : a.uploadTime.getTime();
+      const right = sortBy === 'fileSize' ? b.fileSize : b.uploadTime.getTime();
+      return (left - right) * direction;
+    });
+
+    const start = (page - 1) * pageSize;
+    return {
+      datasets: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page,
+      pageSize
+    };
+  }
+
+  async updateDatasetMetadata(datasetId: string, updates: DatasetMetadataUpdate): Promise<DatasetInfo | null> {
+    const datasetInfo = this.datasets.get(datasetId);
+    if (!datasetInfo) {
       return null;
-    } catch (error) {
-      console.error('Error getting dataset info:', error);
+    }
+
+    return this.datasets.put({
+      ...datasetInfo,
+      ...(updates.displayName !== undefined && { displayName: updates.displayName }),
+      ...(updates.description !== undefined && { description: updates.description }),
+      ...(updates.tags !== undefined && { tags: updates.tags })
+    });
+  }
+
+  // Full-dataset statistics are computed on first request and cached until the dataset is deleted
+  async getDatasetProfile(datasetId: string): Promise<DatasetProfile | null> {
+    const datasetInfo = this.datasets.get(datasetId);
+    if (!datasetInfo) {
+      return null;
+    }
+
+    const cached = this.profiles.get(datasetId);
+    if (cached) {
+      return cached;
+    }
+
+    const profile = await profileRows(datasetId, datasetInfo.columns, datasetInfo.columnTypes, this.readDataRows(datasetInfo));
+    return this.profiles.put(profile);
+  }
+
+  // Computes a chart spec's rows over the whole dataset
+  async evaluateChartSpec(datasetId: string, spec: ChartSpec): Promise<ChartData | null> {
+    const datasetInfo = this.datasets.get(datasetId);
+    if (!datasetInfo) {
       return null;
     }
+
+    return evaluateChartSpec(spec, datasetInfo.columns, datasetInfo.columnTypes, this.readDataRows(datasetInfo));
   }
 
-  private getMimeType(filename: string): string {
-    const ext = extname(filename).toLowerCase();
-    switch (ext) {
-      case '.csv':
-        return 'text/csv';
-      case '.xlsx':
-        return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      case '.xls':
-        return 'application/vnd.ms-excel';
-      default:
-        return 'application/octet-stream';
+  // Yields every non-empty data row (header excluded) of a stored dataset
+  private async *readDataRows(datasetInfo: DatasetInfo): AsyncGenerator<CellValue[]> {
+    if (datasetInfo.format === 'json' || datasetInfo.format === 'ndjson') {
+      for await (const record of this.readRecords(datasetInfo.filePath, datasetInfo.format)) {
+        yield datasetInfo.columns.map(column => toCellValue(record[column]));
+      }
+      return;
+    }
+
+    if (datasetInfo.format === 'parquet') {
+      yield* readParquetRows(datasetInfo.filePath);
+      return;
+    }
+
+    if (datasetInfo.delimiter && datasetInfo.encoding) {
+      let headerSkipped = false;
+      const format = { delimiter: datasetInfo.delimiter, encoding: datasetInfo.encoding as CsvEncoding };
+
+      for await (const row of readCsvRows(datasetInfo.filePath, format)) {
+        if (!row.some(cell => cell.trim() !== '')) continue;
+        if (!headerSkipped) {
+          headerSkipped = true;
+          continue;
+        }
+        yield row;
+      }
+      return;
     }
+
+    const [table] = readWorkbookSheets(datasetInfo.filePath, datasetInfo.sheetName ? [datasetInfo.sheetName] : undefined);
+    yield* table.rows;
+  }
+
+  // Lists every sheet of the workbook a dataset came from, marking the ones already imported
+  async getWorkbookSheets(datasetId: string): Promise<SheetSummary[] | null> {
+    const datasetInfo = this.datasets.get(datasetId);
+    if (!datasetInfo || !datasetInfo.sheetName) {
+      return null;
+    }
+
+    const imported = this.getLinkedDatasets(datasetInfo);
+    return readWorkbookSheets(datasetInfo.filePath).map(table => ({
+      ...this.summarizeSheet(table),
+      datasetId: imported.find(dataset => dataset.sheetName === table.name)?.id
+    }));
+  }
+
+  // Imports further sheets of an uploaded workbook as datasets linked to the original upload
+  async importSheets(datasetId: string, sheetNames: string[]): Promise<DatasetInfo[] | null> {
+    const datasetInfo = this.datasets.get(datasetId);
+    if (!datasetInfo || !datasetInfo.sheetName) {
+      return null;
+    }
+
+    const imported = this.getLinkedDatasets(datasetInfo);
+    const pending = sheetNames.filter(name => !imported.some(dataset => dataset.sheetName === name));
+    const tables = pending.length > 0 ? readWorkbookSheets(datasetInfo.filePath, pending) : [];
+
+    const empty = tables.filter(table => table.rows.length === 0).map(table => table.name);
+    if (empty.length > 0) {
+      throw new Error(`Worksheet has no data rows: ${empty.join(', ')}`);
+    }
+
+    for (const table of tables) {
+      imported.push(this.datasets.put(this.buildSheetDataset(this.summarizeSheet(table), table.rows.length, {
+        id: uuidv4(),
+        ownerId: datasetInfo.ownerId,
+        workspaceId: datasetInfo.workspaceId,
+        workbookId: datasetInfo.workbookId || datasetInfo.id,
+        filePath: datasetInfo.filePath,
+        filename: datasetInfo.filename,
+        originalName: datasetInfo.originalName,
+        fileSize: datasetInfo.fileSize
+      })));
+    }
+
+    return sheetNames.map(name => imported.find(dataset => dataset.sheetName === name)!);
+  }
+
+  private getLinkedDatasets(datasetInfo: DatasetInfo): DatasetInfo[] {
+    const workbookId = datasetInfo.workbookId || datasetInfo.id;
+    return this.datasets.find(dataset => (dataset.workbookId || dataset.id) === workbookId && dataset.filePath === datasetInfo.filePath);
   }
 
   async deleteDataset(datasetId: string): Promise<boolean> {
     try {
-      const fs = require('fs');
-      const files = fs.readdirSync(this.uploadDir);
-      
-      for (const file of files) {
-        if (file.includes(datasetId)) {
-          const filePath = join(this.uploadDir, file);
-          unlinkSync(filePath);
-          return true;
-        }
+      const datasetInfo = this.datasets.get(datasetId);
+      if (!datasetInfo) {
+        return false;
       }
-      
-      return false;
+
+      // Sheets imported from the same workbook share its file
+      const sharesFile = this.datasets.find(dataset => dataset.id !== datasetId && dataset.filePath === datasetInfo.filePath).length > 0;
+      if (!sharesFile && existsSync(datasetInfo.filePath)) {
+        unlinkSync(datasetInfo.filePath);
+      }
+      this.profiles.remove(datasetId);
+      return this.datasets.remove(datasetId);
     } catch (error) {
       console.error('Error deleting dataset:', error);
       return false;
@@ -288,16 +687,20 @@ export class FileProcessingService {
 
   async cleanupOldFiles(maxAge: number = 24 * 60 * 60 * 1000): Promise<void> {
     try {
-      const fs = require('fs');
       const currentTime = Date.now();
-      const files = fs.readdirSync(this.uploadDir);
+      const files = readdirSync(this.uploadDir);
       
       files.forEach((file: string) => {
         const filePath = join(this.uploadDir, file);
-        const stats = fs.statSync(filePath);
+        const stats = statSync(filePath);
         
         if (currentTime - stats.mtime.getTime() > maxAge) {
-          fs.unlinkSync(filePath);
+          unlinkSync(filePath);
+          this.datasets.find(dataset => dataset.filename === file)
+            .forEach(dataset => {
+              this.profiles.remove(dataset.id);
+              this.datasets.remove(dataset.id);
+            });
         }
       });
     } catch (error) {
@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { join } from 'path';
+
+export interface StoredRecord {
+  id: string;
+}
+
+// Collections are shared by file path so every service instance sees the same records
+const collections = new Map<string, Map<string, StoredRecord>>();
+
+export class JsonFileStore<T extends StoredRecord> {
+  private dataDir: string;
+  private filePath: string;
+  private revive?: (record: T) => T;
+
+  constructor(collectionName: string, revive?: (record: T) => T) {
+    this.dataDir = join(process.cwd(), process.env.DATA_DIR || 'data');
+    this.filePath = join(this.dataDir, `${collectionName}.json`);
+    this.revive = revive;
+    this.ensureDataDirectory();
+  }
+
+  private ensureDataDirectory() {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  private load(): Map<string, T> {
+    let records = collections.get(this.filePath);
+
+    if (!records) {
+      records = new Map();
+      if (existsSync(this.filePath)) {
+        const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as T[];
+        for (const record of parsed) {
+          records.set(record.id, this.revive ? this.revive(record) : record);
+        }
+      }
+      collections.set(this.filePath, records);
+    }
+
+    return records as Map<string, T>;
+  }
+
+  private persist(records: Map<string, T>) {
+    // Write to a temporary file first so a crash never leaves a truncated collection behind
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(Array.from(records.values()), null, 2));
+    renameSync(tempPath, this.filePath);
+  }
+
+  all(): T[] {
+    return Array.from(this.load().values());
+  }
+
+  get(id: string): T | undefined {
+    return this.load().get(id);
+  }
+
+  find(predicate: (record: T) => boolean): T[] {
+    return this.all().filter(predicate);
+  }
+
+  put(record: T): T {
+    const records = this.load();
+    records.set(record.id, record);
+    this.persist(records);
+    return record;
+  }
+
+  remove(id: string): boolean {
+    const records = this.load();
+    const deleted = records.delete(id);
+    if (deleted) {
+      this.persist(records);
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,44 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { toJsonSchema } from '../aiResponseSchema.js';
+import { Availability, CompletionRequest, LLMProvider, ProviderConfig } from './types.js';
+
+export class AnthropicProvider implements LLMProvider {
+  private client: Anthropic;
+
+  constructor(readonly config: ProviderConfig, apiKey?: string) {
+    this.client = new Anthropic({ apiKey, baseURL: config.baseUrl });
+  }
+
+  async complete<T>({ system, prompt, schema, onToken }: CompletionRequest<T>): Promise<string> {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: this.config.model,
+      system,
+      messages: [{ role: 'user', content: prompt }],
+      // A forced tool call makes the model answer with input matching the schema
+      tools: [{ name: schema.name, description: schema.description, input_schema: toJsonSchema(schema) }],
+      tool_choice: { type: 'tool', name: schema.name },
+      temperature: this.config.temperature ?? 0.3,
+      max_tokens: this.config.maxTokens ?? 2000
+    };
+
+    if (onToken) {
+      const stream = this.client.messages.stream(params);
+      stream.on('inputJson', partialJson => {
+        if (partialJson) onToken(partialJson);
+      });
+      return this.readToolInput(await stream.finalMessage());
+    }
+
+    return this.readToolInput(await this.client.messages.create(params));
+  }
+
+  async checkAvailability(signal: AbortSignal): Promise<Availability> {
+    await this.client.models.retrieve(this.config.model, { signal });
+    return { reachable: true };
+  }
+
+  private readToolInput(message: Anthropic.Message): string {
+    const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+    return toolUse ? JSON.stringify(toolUse.input) : '';
+  }
+}
@@ -0,0 +1,55 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { toGeminiSchema } from '../aiResponseSchema.js';
+import { Availability, CompletionRequest, LLMProvider, ProviderConfig } from './types.js';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+
+export class GeminiProvider implements LLMProvider {
+  private client: GoogleGenerativeAI;
+
+  constructor(readonly config: ProviderConfig, private apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete<T>({ system, prompt, schema, onToken }: CompletionRequest<T>): Promise<string> {
+    // Response schemas need a 1.5 or newer model; gemini-pro ignores them
+    const model = this.client.getGenerativeModel(
+      {
+        model: this.config.model,
+        systemInstruction: system,
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(schema),
+          temperature: this.config.temperature ?? 0.3,
+          maxOutputTokens: this.config.maxTokens ?? 2000
+        }
+      },
+      { baseUrl: this.config.baseUrl }
+    );
+
+    if (onToken) {
+      let response = '';
+      const result = await model.generateContentStream(prompt);
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          response += text;
+          onToken(text);
+        }
+      }
+      return response;
+    }
+
+    const result = await model.generateContent(prompt);
+    return result.response.text();
+  }
+
+  async checkAvailability(signal: AbortSignal): Promise<Availability> {
+    const root = (this.config.baseUrl || GEMINI_API_URL).replace(/\/+$/, '');
+    const response = await fetch(`${root}/v1beta/models/${encodeURIComponent(this.config.model)}`, {
+      headers: { 'x-goog-api-key': this.apiKey },
+      signal
+    });
+    return response.ok ? { reachable: true } : { reachable: false, error: `Gemini answered with HTTP ${response.status}` };
+  }
+}
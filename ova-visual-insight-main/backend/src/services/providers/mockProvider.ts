@@ -0,0 +1,263 @@
+import { ANALYSIS_OUTPUT, AnalysisOutput, CHART_SPEC_OUTPUT, ChartSpecOutput, RepairOutput } from '../aiResponseSchema.js';
+import { ChartSpec } from '../chartSpec.js';
+import { Availability, CompletionContext, CompletionRequest, LLMProvider, ProviderConfig } from './types.js';
+
+type Intent = 'bar' | 'line' | 'histogram' | 'scatter' | 'pie';
+
+interface ColumnGroups {
+  numeric: string[];
+  dates: string[];
+  categories: string[];
+}
+
+// The chart picked for a question and the columns it uses; a column the chart does not need may be missing
+interface ChartChoice {
+  intent: Intent;
+  summary: string;
+  value: string;
+  second: string;
+  category: string;
+  date: string;
+}
+
+// Checked in order: a chart named outright wins over the hints, and the generic "by" of a bar chart comes last
+const INTENT_KEYWORDS: [Intent, RegExp][] = [
+  ['histogram', /\bhistogram\b/],
+  ['scatter', /\bscatter\b/],
+  ['pie', /\bpie\b/],
+  ['line', /\bline (chart|graph|plot)\b/],
+  ['bar', /\b(bar|column) (chart|graph|plot)\b/],
+  ['histogram', /\b(distribution|spread|frequency of)\b/],
+  ['scatter', /\b(correlat\w*|relationship|versus|vs\.?)\b/],
+  ['pie', /\b(share|proportion|percentage of|breakdown)\b/],
+  ['line', /\b(trend\w*|over time|timeline|time series|monthly|daily|weekly|yearly|per (day|week|month|year))\b/],
+  ['bar', /\b(by|per|compare|comparison|top|rank\w*)\b/]
+];
+
+// Splits the columns by how a chart can use them; identifiers and free text suit none
+function groupColumns(datasetInfo: CompletionContext['datasetInfo']): ColumnGroups {
+  const groups: ColumnGroups = { numeric: [], dates: [], categories: [] };
+
+  for (const column of datasetInfo.columns) {
+    const info = datasetInfo.columnTypes?.[column];
+    const type = info?.type || datasetInfo.dataTypes[column];
+    if (info?.semanticType === 'identifier' || info?.semanticType === 'free_text') continue;
+
+    if (type === 'integer' || type === 'float' || type === 'number') {
+      groups.numeric.push(column);
+    } else if (type === 'date') {
+      groups.dates.push(column);
+    } else {
+      groups.categories.push(column);
+    }
+  }
+  return groups;
+}
+
+// Columns the query names, in the order it names them, followed by the rest
+function rankColumns(columns: string[], query: string): string[] {
+  const position = (column: string) => {
+    const index = query.indexOf(column.toLowerCase());
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return [...columns].sort((a, b) => position(a) - position(b));
+}
+
+const py = (value: string) => JSON.stringify(value);
+
+function chartLines(setup: string[], plot: string, title: string, xLabel: string, yLabel: string): string {
+  return [
+    ...setup,
+    'fig, ax = plt.subplots()',
+    plot,
+    `ax.set_title(${py(title)})`,
+    `ax.set_xlabel(${py(xLabel)})`,
+    `ax.set_ylabel(${py(yLabel)})`
+  ].join('\n');
+}
+
+// Works on any DataFrame, so it doubles as the mock's answer to every repair request
+const OVERVIEW_CODE = chartLines(
+  ['data = df.count()', 'print(data.to_string())'],
+  "data.plot(kind='bar', ax=ax, color='steelblue')",
+  'Non-empty values per column', 'Column', 'Values'
+);
+
+function chooseChart({ query, datasetInfo }: CompletionContext): ChartChoice {
+  const text = query.toLowerCase();
+  const groups = groupColumns(datasetInfo);
+  const numeric = rankColumns(groups.numeric, text);
+  const dates = rankColumns(groups.dates, text);
+  const categories = rankColumns(groups.categories, text);
+  const requested = INTENT_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  // Fall back to a chart the columns can actually support
+  let intent: Intent = requested || (dates.length ? 'line' : categories.length ? 'bar' : 'histogram');
+  if (intent === 'line' && !dates.length) intent = 'bar';
+  if (intent === 'scatter' && numeric.length < 2) intent = 'histogram';
+  if ((intent === 'bar' || intent === 'pie') && !categories.length) intent = numeric.length ? 'histogram' : 'bar';
+  if (intent === 'histogram' && !numeric.length) intent = 'bar';
+
+  return {
+    intent,
+    summary: `The dataset has ${datasetInfo.rowCount} rows and ${datasetInfo.columns.length} columns.`,
+    value: numeric[0],
+    second: numeric[1],
+    category: categories[0],
+    date: dates[0]
+  };
+}
+
+function buildAnalysis(context: CompletionContext): AnalysisOutput {
+  const { intent, summary, value, second, category, date } = chooseChart(context);
+
+  switch (intent) {
+    case 'line': {
+      const series = value ? `df.groupby(${py(date)})[${py(value)}].sum().sort_index()` : `df.groupby(${py(date)}).size().sort_index()`;
+      const measure = value ? `total ${value}` : 'row count';
+      return {
+        analysis: `${summary} This shows how the ${measure} changes over ${date}.`,
+        pythonCode: chartLines(
+          [`data = ${series}`, 'print(data.tail(10).to_string())'],
+          "data.plot(kind='line', ax=ax, marker='o')",
+          `${value ? `Total ${value}` : 'Rows'} over ${date}`, date, value || 'Rows'
+        ),
+        visualizationType: 'line chart',
+        explanation: `Each point is the ${measure} for one ${date} value, in chronological order.`
+      };
+    }
+    case 'histogram':
+      return {
+        analysis: `${summary} This shows how the values of ${value} are distributed.`,
+        pythonCode: chartLines(
+          [`data = df[${py(value)}].dropna()`, 'print(data.describe().to_string())'],
+          "data.plot(kind='hist', bins=20, ax=ax, edgecolor='white')",
+          `Distribution of ${value}`, value, 'Frequency'
+        ),
+        visualizationType: 'histogram',
+        explanation: `The bars count how many rows fall into each of 20 equal ranges of ${value}.`
+      };
+    case 'scatter':
+      return {
+        analysis: `${summary} This compares ${value} with ${second} row by row.`,
+        pythonCode: chartLines(
+          [`print(df[[${py(value)}, ${py(second)}]].corr().to_string())`],
+          `df.plot(kind='scatter', x=${py(value)}, y=${py(second)}, ax=ax, alpha=0.6)`,
+          `${second} vs ${value}`, value, second
+        ),
+        visualizationType: 'scatter plot',
+        explanation: `Each dot is one row; a rising cloud means ${second} tends to grow with ${value}.`
+      };
+    case 'pie': {
+      const series = value
+        ? `df.groupby(${py(category)})[${py(value)}].sum().sort_values(ascending=False).head(8)`
+        : `df[${py(category)}].value_counts().head(8)`;
+      return {
+        analysis: `${summary} This shows each ${category}'s share of the ${value ? `total ${value}` : 'rows'}.`,
+        pythonCode: chartLines(
+          [`data = ${series}`, 'print(data.to_string())'],
+          "data.plot(kind='pie', ax=ax, autopct='%1.1f%%')",
+          `Share of ${value || 'rows'} by ${category}`, '', ''
+        ),
+        visualizationType: 'pie chart',
+        explanation: `Slice sizes are proportional to the ${value ? `total ${value}` : 'row count'} of the eight largest ${category} values.`
+      };
+    }
+    case 'bar':
+    default: {
+      if (!category) {
+        return {
+          analysis: `${summary} No column is suitable for grouping, so this shows how complete each column is.`,
+          pythonCode: OVERVIEW_CODE,
+          visualizationType: 'bar chart',
+          explanation: 'Each bar is the number of non-empty values in a column.'
+        };
+      }
+      const series = value
+        ? `df.groupby(${py(category)})[${py(value)}].sum().sort_values(ascending=False).head(20)`
+        : `df[${py(category)}].value_counts().head(20)`;
+      return {
+        analysis: `${summary} This compares the ${value ? `total ${value}` : 'number of rows'} for each ${category}.`,
+        pythonCode: chartLines(
+          [`data = ${series}`, 'print(data.to_string())'],
+          "data.plot(kind='bar', ax=ax, color='steelblue')",
+          `${value ? `Total ${value}` : 'Rows'} by ${category}`, category, value || 'Rows'
+        ),
+        visualizationType: 'bar chart',
+        explanation: `Bars are sorted from largest to smallest and limited to the top 20 ${category} values.`
+      };
+    }
+  }
+}
+
+// The same chart as buildAnalysis, described as a spec; histograms become counts per value since specs do not bin
+function buildChartSpec(context: CompletionContext): ChartSpecOutput {
+  const choice = chooseChart(context);
+  const { value, second, category, date } = choice;
+  const { analysis, visualizationType, explanation } = buildAnalysis(context);
+  const measure: ChartSpec['y'] = value ? { field: value, aggregate: 'sum' } : { aggregate: 'count' };
+
+  let spec: ChartSpec;
+  switch (choice.intent) {
+    case 'line':
+      // Daily points are too noisy to read unless the question asks for them
+      spec = {
+        type: 'line',
+        title: `${value ? `Total ${value}` : 'Rows'} over ${date}`,
+        x: { field: date, timeUnit: /\b(daily|day|days)\b/i.test(context.query) ? 'day' : /\b(year|years|yearly|annual)\b/i.test(context.query) ? 'year' : 'month' },
+        y: measure
+      };
+      break;
+    case 'histogram':
+      spec = { type: 'bar', title: `Rows per ${value} value`, x: { field: value }, y: { aggregate: 'count', label: 'Rows' }, sort: 'x' };
+      return {
+        analysis,
+        chartSpec: JSON.stringify(spec),
+        visualizationType: 'bar chart',
+        explanation: `Each bar counts the rows with one value of ${value}.`
+      };
+    case 'scatter':
+      spec = { type: 'scatter', title: `${second} vs ${value}`, x: { field: value }, y: { field: second, aggregate: 'none' } };
+      break;
+    case 'pie':
+      spec = { type: 'pie', title: `Share of ${value || 'rows'} by ${category}`, x: { field: category }, y: measure, sort: '-y', limit: 8 };
+      break;
+    case 'bar':
+    default:
+      spec = category
+        ? { type: 'bar', title: `${value ? `Total ${value}` : 'Rows'} by ${category}`, x: { field: category }, y: measure, sort: '-y', limit: 20 }
+        : { type: 'bar', title: `Rows per ${context.datasetInfo.columns[0]}`, x: { field: context.datasetInfo.columns[0] }, y: { aggregate: 'count' }, limit: 20 };
+  }
+
+  return { analysis, chartSpec: JSON.stringify(spec), visualizationType, explanation };
+}
+
+// Rule-based stand-in for a model: no network, and the same question always gets the same answer
+export class MockProvider implements LLMProvider {
+  constructor(readonly config: ProviderConfig) {}
+
+  async complete<T>({ schema, context, onToken }: CompletionRequest<T>): Promise<string> {
+    if (!context) {
+      throw new Error('The mock provider needs the query and dataset context');
+    }
+
+    const output: AnalysisOutput | ChartSpecOutput | RepairOutput = schema.name === ANALYSIS_OUTPUT.name
+      ? buildAnalysis(context)
+      : schema.name === CHART_SPEC_OUTPUT.name
+        ? buildChartSpec(context)
+        : { fix: 'Replaced the failing code with an overview of non-empty values per column.', pythonCode: OVERVIEW_CODE };
+    const response = JSON.stringify(output);
+
+    // Stream in small pieces like a real model so progress events can be exercised offline
+    if (onToken) {
+      for (const piece of response.match(/.{1,24}/gs) || []) {
+        onToken(piece);
+      }
+    }
+    return response;
+  }
+
+  async checkAvailability(): Promise<Availability> {
+    return { reachable: true };
+  }
+}
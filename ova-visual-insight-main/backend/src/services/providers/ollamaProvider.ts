@@ -0,0 +1,30 @@
+import { OpenAIProvider } from './openaiProvider.js';
+import { Availability, ProviderConfig } from './types.js';
+
+export const OLLAMA_DEFAULT_URL = 'http://localhost:11434';
+
+// Ollama serves an OpenAI-compatible API under /v1; its native API tells us which models are pulled
+export class OllamaProvider extends OpenAIProvider {
+  private root: string;
+
+  constructor(config: ProviderConfig, apiKey?: string) {
+    const root = (config.baseUrl || OLLAMA_DEFAULT_URL).replace(/\/+$/, '').replace(/\/v1$/, '');
+    super({ ...config, baseUrl: `${root}/v1` }, apiKey);
+    this.root = root;
+  }
+
+  async checkAvailability(signal: AbortSignal): Promise<Availability> {
+    const response = await fetch(`${this.root}/api/tags`, { signal });
+    if (!response.ok) {
+      return { reachable: false, error: `Ollama answered with HTTP ${response.status}` };
+    }
+
+    const { models = [] } = await response.json() as { models?: { name: string }[] };
+    const names = models.map(model => model.name);
+    const { model } = this.config;
+    if (!names.includes(model) && !names.includes(`${model}:latest`)) {
+      return { reachable: false, error: `Model ${model} is not pulled; run "ollama pull ${model}"` };
+    }
+    return { reachable: true };
+  }
+}
@@ -0,0 +1,84 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { OutputSchema, toJsonSchema } from '../aiResponseSchema.js';
+import { Availability, CompletionRequest, LLMProvider, ProviderConfig, StructuredOutputMode } from './types.js';
+
+type OutputParams = Pick<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'tools' | 'tool_choice' | 'response_format'>;
+
+// OpenAI, Azure OpenAI and any server speaking the OpenAI chat completions API (llama.cpp, vLLM, LM Studio...)
+export class OpenAIProvider implements LLMProvider {
+  protected client: OpenAI;
+  private structuredOutput: StructuredOutputMode;
+
+  constructor(readonly config: ProviderConfig, apiKey?: string) {
+    this.client = config.type === 'azure-openai'
+      ? new AzureOpenAI({
+        endpoint: config.baseUrl,
+        apiKey,
+        deployment: config.deployment || config.model,
+        apiVersion: config.apiVersion || '2024-06-01'
+      })
+      // Local servers usually ignore the key, but the client refuses to start without one
+      : new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: config.baseUrl });
+
+    // Function calling is reliable on the hosted APIs; local servers are better at grammar-constrained JSON
+    this.structuredOutput = config.structuredOutput ||
+      (config.type === 'openai' || config.type === 'azure-openai' ? 'tools' : 'json_schema');
+  }
+
+  async complete<T>({ system, prompt, schema, onToken }: CompletionRequest<T>): Promise<string> {
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt }
+      ],
+      temperature: this.config.temperature ?? 0.3,
+      max_tokens: this.config.maxTokens ?? 2000,
+      ...this.outputParams(schema)
+    };
+
+    if (onToken) {
+      let response = '';
+      const stream = await this.client.chat.completions.create({ ...params, stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        const text = (this.structuredOutput === 'tools' ? delta?.tool_calls?.[0]?.function?.arguments : delta?.content) || '';
+        if (text) {
+          response += text;
+          onToken(text);
+        }
+      }
+      return response;
+    }
+
+    const message = (await this.client.chat.completions.create(params)).choices[0]?.message;
+    return (this.structuredOutput === 'tools' ? message?.tool_calls?.[0]?.function.arguments : message?.content) || '';
+  }
+
+  async checkAvailability(signal: AbortSignal): Promise<Availability> {
+    await this.client.models.list({ signal });
+    return { reachable: true };
+  }
+
+  private outputParams<T>(schema: OutputSchema<T>): OutputParams {
+    switch (this.structuredOutput) {
+      case 'tools':
+        // A forced tool choice makes the model answer with arguments matching the schema
+        return {
+          tools: [{ type: 'function', function: { name: schema.name, description: schema.description, parameters: toJsonSchema(schema) } }],
+          tool_choice: { type: 'function', function: { name: schema.name } }
+        };
+      case 'json_schema':
+        return {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: schema.name, description: schema.description, schema: toJsonSchema(schema), strict: true }
+          }
+        };
+      case 'json_object':
+      default:
+        // The prompt names the fields; the server only guarantees valid JSON
+        return { response_format: { type: 'json_object' } };
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { AnthropicProvider } from './anthropicProvider.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { MockProvider } from './mockProvider.js';
+import { OllamaProvider } from './ollamaProvider.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { Availability, LLMProvider, ProviderConfig, ProviderStatus, ProviderType } from './types.js';
+
+const PROVIDER_TYPES: ProviderType[] = ['openai', 'azure-openai', 'openai-compatible', 'ollama', 'anthropic', 'gemini', 'mock'];
+// Hosted APIs cannot be called without a key; local servers usually need none
+const KEY_REQUIRED: ProviderType[] = ['openai', 'azure-openai', 'anthropic', 'gemini'];
+
+const DEFAULT_DESCRIPTIONS: Record<ProviderType, string> = {
+  'openai': 'OpenAI hosted model',
+  'azure-openai': 'Azure OpenAI deployment',
+  'openai-compatible': 'OpenAI-compatible server',
+  'ollama': 'Local model served by Ollama',
+  'anthropic': 'Anthropic hosted model',
+  'gemini': 'Google Gemini hosted model',
+  'mock': 'Offline rule-based answers for tests and demos'
+};
+
+// Availability checks are cached briefly so listing models does not call every provider each time
+const AVAILABILITY_TTL_MS = 30000;
+const CHECK_TIMEOUT_MS = 3000;
+const availabilityCache = new Map<string, { checkedAt: number; availability: Availability }>();
+
+// Providers implied by the usual API key variables, so a plain .env keeps working without a providers file
+function configsFromEnv(env: NodeJS.ProcessEnv): ProviderConfig[] {
+  const configs: ProviderConfig[] = [];
+
+  // Listed first so clients that pick the first reachable model use it
+  if (env.LLM_MOCK === 'true') {
+    configs.push({ id: 'mock', type: 'mock', name: 'Mock (offline)', model: 'rule-based' });
+  }
+  if (env.OPENAI_API_KEY) {
+    configs.push({ id: 'openai', type: 'openai', name: 'OpenAI GPT-4', model: env.OPENAI_MODEL || 'gpt-4', apiKeyEnv: 'OPENAI_API_KEY' });
+  }
+  if (env.GEMINI_API_KEY) {
+    configs.push({ id: 'gemini', type: 'gemini', name: 'Google Gemini', model: env.GEMINI_MODEL || 'gemini-1.5-pro', apiKeyEnv: 'GEMINI_API_KEY' });
+  }
+  if (env.ANTHROPIC_API_KEY) {
+    configs.push({ id: 'anthropic', type: 'anthropic', name: 'Anthropic Claude', model: env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest', apiKeyEnv: 'ANTHROPIC_API_KEY' });
+  }
+  if (env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_DEPLOYMENT) {
+    configs.push({
+      id: 'azure-openai',
+      type: 'azure-openai',
+      name: 'Azure OpenAI',
+      baseUrl: env.AZURE_OPENAI_ENDPOINT,
+      model: env.AZURE_OPENAI_DEPLOYMENT,
+      deployment: env.AZURE_OPENAI_DEPLOYMENT,
+      apiVersion: env.AZURE_OPENAI_API_VERSION,
+      apiKeyEnv: 'AZURE_OPENAI_API_KEY'
+    });
+  }
+  if (env.OLLAMA_MODEL) {
+    configs.push({ id: 'ollama', type: 'ollama', name: `Ollama ${env.OLLAMA_MODEL}`, model: env.OLLAMA_MODEL, baseUrl: env.OLLAMA_BASE_URL });
+  }
+
+  return configs;
+}
+
+// Returns the problem with an entry of the providers file, or null when it is usable
+function validateConfig(config: Partial<ProviderConfig>): string | null {
+  if (!config || typeof config !== 'object') return 'entry is not an object';
+  if (!config.id || typeof config.id !== 'string') return 'missing "id"';
+  if (!config.type || !PROVIDER_TYPES.includes(config.type)) return `"type" must be one of ${PROVIDER_TYPES.join(', ')}`;
+  if (!config.model || typeof config.model !== 'string') return 'missing "model"';
+  if ((config.type === 'openai-compatible' || config.type === 'azure-openai') && !config.baseUrl) return 'missing "baseUrl"';
+  return null;
+}
+
+function configsFromFile(path: string): ProviderConfig[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(resolve(path), 'utf-8'));
+  } catch (error) {
+    console.error(`Could not read LLM providers file ${path}:`, error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.error(`LLM providers file ${path} must contain a JSON array`);
+    return [];
+  }
+
+  return entries.filter((entry: Partial<ProviderConfig>, index) => {
+    const problem = validateConfig(entry);
+    if (problem) {
+      console.warn(`⚠️  Skipping LLM provider #${index + 1} in ${path}: ${problem}`);
+    }
+    return !problem;
+  });
+}
+
+export function loadProviderConfigs(env: NodeJS.ProcessEnv = process.env): ProviderConfig[] {
+  const configs = new Map(configsFromEnv(env).map(config => [config.id, config]));
+  // File entries replace the implied provider with the same id
+  if (env.LLM_PROVIDERS_FILE) {
+    for (const config of configsFromFile(env.LLM_PROVIDERS_FILE)) {
+      configs.set(config.id, config);
+    }
+  }
+  return [...configs.values()];
+}
+
+function createProvider(config: ProviderConfig, apiKey?: string): LLMProvider {
+  switch (config.type) {
+    case 'anthropic':
+      return new AnthropicProvider(config, apiKey);
+    case 'gemini':
+      return new GeminiProvider(config, apiKey || '');
+    case 'ollama':
+      return new OllamaProvider(config, apiKey);
+    case 'mock':
+      return new MockProvider(config);
+    case 'openai':
+    case 'azure-openai':
+    case 'openai-compatible':
+    default:
+      return new OpenAIProvider(config, apiKey);
+  }
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    for (const config of loadProviderConfigs(env)) {
+      const apiKey = config.apiKey || (config.apiKeyEnv ? env[config.apiKeyEnv] : undefined);
+      if (!apiKey && KEY_REQUIRED.includes(config.type)) {
+        console.warn(`⚠️  LLM provider "${config.id}" has no API key and is disabled`);
+        continue;
+      }
+      this.providers.set(config.id, createProvider(config, apiKey));
+    }
+
+    if (this.providers.size === 0) {
+      console.warn('⚠️  No LLM providers configured: set OPENAI_API_KEY, GEMINI_API_KEY or LLM_PROVIDERS_FILE, or LLM_MOCK=true to run offline');
+    }
+  }
+
+  get(id: string): LLMProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  // Every configured provider with the result of a live reachability check
+  async describe(): Promise<ProviderStatus[]> {
+    return Promise.all([...this.providers.values()].map(async provider => {
+      const { id, type, model, name, description } = provider.config;
+      return {
+        id,
+        type,
+        model,
+        name: name || `${id} (${model})`,
+        description: description || DEFAULT_DESCRIPTIONS[type],
+        ...(await this.checkAvailability(provider))
+      };
+    }));
+  }
+
+  private async checkAvailability(provider: LLMProvider): Promise<Availability> {
+    const cached = availabilityCache.get(provider.config.id);
+    if (cached && Date.now() - cached.checkedAt < AVAILABILITY_TTL_MS) {
+      return cached.availability;
+    }
+
+    let availability: Availability;
+    try {
+      availability = await provider.checkAvailability(AbortSignal.timeout(CHECK_TIMEOUT_MS));
+    } catch (error) {
+      // fetch reports connection failures as "fetch failed" with the reason in its cause
+      const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+      availability = { reachable: false, error: error instanceof Error ? error.message + cause : 'Unknown error' };
+    }
+    availabilityCache.set(provider.config.id, { checkedAt: Date.now(), availability });
+    return availability;
+  }
+}
@@ -0,0 +1,65 @@
+import { OutputSchema } from '../aiResponseSchema.js';
+import { AIAnalysisRequest } from '../aiService.js';
+
+export type ProviderType = 'openai' | 'azure-openai' | 'openai-compatible' | 'ollama' | 'anthropic' | 'gemini' | 'mock';
+
+// How an OpenAI-style endpoint is asked for schema-shaped output; local servers differ in what they support
+export type StructuredOutputMode = 'tools' | 'json_schema' | 'json_object';
+
+// One entry of LLM_PROVIDERS_FILE, or a provider derived from the API key variables
+export interface ProviderConfig {
+  // Sent by clients as the analysis `aiModel`
+  id: string;
+  type: ProviderType;
+  model: string;
+  name?: string;
+  description?: string;
+  // API root, e.g. http://localhost:8080/v1 for llama.cpp or the Azure resource endpoint
+  baseUrl?: string;
+  // Prefer apiKeyEnv so the file can be committed without secrets
+  apiKey?: string;
+  apiKeyEnv?: string;
+  // Azure OpenAI only
+  deployment?: string;
+  apiVersion?: string;
+  structuredOutput?: StructuredOutputMode;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// The structured request behind a prompt, for providers that do not read prose
+export interface CompletionContext {
+  query: string;
+  datasetInfo: AIAnalysisRequest['datasetInfo'];
+}
+
+export interface CompletionRequest<T> {
+  system: string;
+  prompt: string;
+  schema: OutputSchema<T>;
+  context?: CompletionContext;
+  onToken?: (text: string) => void;
+}
+
+export interface Availability {
+  reachable: boolean;
+  error?: string;
+}
+
+export interface LLMProvider {
+  readonly config: ProviderConfig;
+  // Returns the raw JSON text of the answer; parsing and validation are left to the caller
+  complete<T>(request: CompletionRequest<T>): Promise<string>;
+  checkAvailability(signal: AbortSignal): Promise<Availability>;
+}
+
+// What GET /api/analyze/models reports for each configured provider
+export interface ProviderStatus {
+  id: string;
+  type: ProviderType;
+  name: string;
+  description: string;
+  model: string;
+  reachable: boolean;
+  error?: string;
+}
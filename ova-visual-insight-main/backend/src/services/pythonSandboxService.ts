@@ -1,30 +1,101 @@
-import { PythonShell } from 'python-shell';
-import { writeFileSync, readFileSync, unlinkSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { writeFileSync, readFileSync, existsSync, mkdirSync, renameSync, rmSync, copyFileSync } from 'fs';
+import { basename, join, resolve } from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { DatasetInfo } from './fileProcessingService.js';
+import { ColumnTypeInfo } from './columnTypeInference.js';
+import { SandboxConfig, SandboxErrorCode, loadSandboxConfig, resolveSandboxPaths, runInSandbox } from './sandboxIsolation.js';
+import { CHART_DATA_RENDERER, IMAGE_CONVERTER } from './chartRenderScripts.js';
+import { REPORT_RENDERER } from './reportRenderScript.js';
 
 export interface PythonExecutionResult {
   success: boolean;
   output: string;
   error?: string;
+  errorCode?: SandboxErrorCode;
   chartPath?: string;
   chartData?: any;
 }
 
+// Everything the generated preamble needs to load a dataset with the right pandas reader
+export type SandboxDataset = Pick<
+  DatasetInfo,
+  'filePath' | 'format' | 'delimiter' | 'encoding' | 'sheetName' | 'headerRow' | 'firstColumn' | 'columns' | 'columnTypes'
+>;
+
+// Runs right after loading so the generated code sees the column types the UI showed
+const APPLY_COLUMN_TYPES = `
+_BOOLEAN_VALUES = {'true': True, 'yes': True, 'y': True, 't': True, 'false': False, 'no': False, 'n': False, 'f': False}
+
+def _to_number(series, info):
+    if pd.api.types.is_numeric_dtype(series):
+        return series
+    text = series.astype('string').str.replace(r'[^0-9,.+-]', '', regex=True)
+    if info.get('type') == 'integer':
+        # Integer columns have no decimals, so any separator is a thousands separator
+        text = text.str.replace(r'[,.]', '', regex=True)
+    elif info.get('decimalSeparator') == ',':
+        text = text.str.replace('.', '', regex=False).str.replace(',', '.', regex=False)
+    else:
+        text = text.str.replace(',', '', regex=False)
+    return pd.to_numeric(text, errors='coerce')
+
+def _apply_column_types(df, column_types):
+    for column, info in column_types.items():
+        if column not in df.columns:
+            continue
+        try:
+            if info['type'] in ('integer', 'float'):
+                values = _to_number(df[column], info)
+                whole = values.dropna().mod(1).eq(0).all()
+                df[column] = values.astype('Int64') if info['type'] == 'integer' and whole else values.astype('float64')
+            elif info['type'] == 'date':
+                if not pd.api.types.is_datetime64_any_dtype(df[column]):
+                    dayfirst = str(info.get('dateFormat', '')).startswith('DD')
+                    df[column] = pd.to_datetime(df[column], errors='coerce', dayfirst=dayfirst)
+            elif info['type'] == 'boolean':
+                if not pd.api.types.is_bool_dtype(df[column]):
+                    df[column] = df[column].map(lambda value: value if isinstance(value, bool) else _BOOLEAN_VALUES.get(str(value).strip().lower(), pd.NA) if pd.notna(value) else pd.NA).astype('boolean')
+            elif info['semanticType'] == 'categorical':
+                df[column] = df[column].astype('category')
+        except Exception as e:
+            print(f"Could not apply inferred type to {column}: {e}")
+    return df
+`;
+
+export type ChartFileFormat = 'png' | 'jpg' | 'svg' | 'pdf' | 'webp' | 'html';
+
+// Pixel size, resolution and background of a saved chart; unset values keep the script's own figure settings
+export interface ChartRenderOptions {
+  width?: number;
+  height?: number;
+  dpi?: number;
+  transparent?: boolean;
+}
+
 export interface ChartGenerationRequest {
   pythonCode: string;
-  datasetPath: string;
-  outputFormat: 'png' | 'jpg' | 'svg' | 'html';
+  dataset: SandboxDataset;
+  outputFormat: ChartFileFormat;
+  render?: ChartRenderOptions;
+  // Aborting kills the running script and reports CANCELLED
+  signal?: AbortSignal;
+  onOutput?: (line: string) => void;
 }
 
 export class PythonSandboxService {
   private tempDir: string;
   private outputDir: string;
+  private sandbox: SandboxConfig;
 
   constructor() {
     this.tempDir = join(process.cwd(), 'temp');
     this.outputDir = join(process.cwd(), 'output');
+    this.sandbox = loadSandboxConfig();
     this.ensureDirectories();
+
+    if (this.sandbox.mode === 'none') {
+      console.warn('⚠️  Python sandbox running without namespace isolation (PYTHON_SANDBOX=none): scripts have network and filesystem access');
+    }
   }
 
   private ensureDirectories() {
@@ -38,21 +109,41 @@ export class PythonSandboxService {
 
   async executePythonCode(request: ChartGenerationRequest): Promise<PythonExecutionResult> {
     const executionId = uuidv4();
-    const pythonFile = join(this.tempDir, `${executionId}.py`);
+    // Each run gets its own scratch directory: the only writable path the script can see
+    const scratchDir = join(this.tempDir, executionId);
+    const pythonFile = join(scratchDir, 'analysis.py');
+    const chartFile = `chart.${request.outputFormat}`;
     const outputFile = join(this.outputDir, `${executionId}.${request.outputFormat}`);
 
     try {
-      // Create enhanced Python code with proper setup
-      const enhancedCode = this.enhancePythonCode(request.pythonCode, request.datasetPath, outputFile, request.outputFormat);
+      mkdirSync(scratchDir, { recursive: true });
+      const datasetPath = resolve(request.dataset.filePath);
+      const paths = resolveSandboxPaths(this.sandbox, { datasetPath, scratchDir });
+
+      // Create enhanced Python code with proper setup, using the paths as the sandbox sees them
+      const enhancedCode = this.enhancePythonCode(
+        request.pythonCode,
+        { ...request.dataset, filePath: paths.datasetPath },
+        `${paths.scratchDir}/${chartFile}`,
+        request.outputFormat,
+        request.render
+      );
       
       // Write Python file
       writeFileSync(pythonFile, enhancedCode);
 
       // Execute Python code
-      const result = await this.runPythonFile(pythonFile);
+      const result = await runInSandbox(
+        this.sandbox,
+        { scriptPath: pythonFile, scratchDir, datasetPath },
+        { signal: request.signal, onOutput: request.onOutput }
+      );
 
       // Check if chart was generated
-      const chartExists = existsSync(outputFile);
+      const chartExists = existsSync(join(scratchDir, chartFile));
+      if (result.success && chartExists) {
+        renameSync(join(scratchDir, chartFile), outputFile);
+      }
       
       if (result.success && chartExists) {
         return {
@@ -65,25 +156,81 @@ export class PythonSandboxService {
         return {
           success: false,
           output: result.output,
-          error: result.error || 'Chart generation failed'
+          error: result.error || 'Chart generation failed',
+          errorCode: result.errorCode || 'EXECUTION_FAILED'
         };
       }
     } catch (error) {
       return {
         success: false,
         output: '',
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCode: 'EXECUTION_FAILED'
       };
     } finally {
-      // Cleanup temporary Python file
-      if (existsSync(pythonFile)) {
-        unlinkSync(pythonFile);
+      // Cleanup the scratch directory and anything the script left in it
+      rmSync(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  // Python string literals are emitted as JSON strings, which Python parses identically
+  private buildLoadStatement(dataset: SandboxDataset): string {
+    const path = JSON.stringify(dataset.filePath);
+
+    switch (dataset.format) {
+      case 'tsv':
+      case 'csv': {
+        const encodings: Record<string, string> = {
+          'utf-8': 'utf-8-sig',
+          'utf-16le': 'utf-16-le',
+          'utf-16be': 'utf-16-be',
+          'windows-1252': 'cp1252'
+        };
+        const separator = JSON.stringify(dataset.delimiter || (dataset.format === 'tsv' ? '\t' : ','));
+        const encoding = JSON.stringify(encodings[dataset.encoding || 'utf-8'] || 'utf-8-sig');
+        // The explicit UTF-16 codecs keep a byte order mark, so strip it from the first header
+        return [
+          `df = pd.read_csv(${path}, sep=${separator}, encoding=${encoding})`,
+          "df.columns = [str(column).lstrip('\\ufeff').strip() for column in df.columns]"
+        ].join('\n    ');
+      }
+      case 'json':
+        return `df = pd.read_json(${path}, orient='records')`;
+      case 'ndjson':
+        return `df = pd.read_json(${path}, lines=True)`;
+      case 'parquet':
+        return `df = pd.read_parquet(${path})`;
+      case 'excel':
+      default: {
+        const sheet = dataset.sheetName ? JSON.stringify(dataset.sheetName) : '0';
+        if (dataset.headerRow === undefined) {
+          return `df = pd.read_excel(${path}, sheet_name=${sheet})`;
+        }
+
+        // Header detection and merged-cell names happen at upload, so read the data rows and reuse those names
+        const firstColumn = dataset.firstColumn || 0;
+        return [
+          `df = pd.read_excel(${path}, sheet_name=${sheet}, header=None, skiprows=${dataset.headerRow + 1}, ` +
+            `usecols=list(range(${firstColumn}, ${firstColumn + dataset.columns.length})), names=${JSON.stringify(dataset.columns)})`,
+          "df = df.dropna(how='all').reset_index(drop=True)"
+        ].join('\n    ');
       }
     }
   }
 
-  private enhancePythonCode(originalCode: string, datasetPath: string, outputPath: string, format: string): string {
+  private buildTypeStatement(columnTypes: Record<string, ColumnTypeInfo> = {}): string {
+    const schema = Object.fromEntries(
+      Object.entries(columnTypes).map(([column, info]) => [
+        column,
+        { type: info.type, semanticType: info.semanticType, dateFormat: info.dateFormat, decimalSeparator: info.decimalSeparator }
+      ])
+    );
+    return `df = _apply_column_types(df, json.loads(${JSON.stringify(JSON.stringify(schema))}))`;
+  }
+
+  private enhancePythonCode(originalCode: string, dataset: SandboxDataset, outputPath: string, format: ChartFileFormat, render: ChartRenderOptions = {}): string {
     const setupCode = `
+import json
 import pandas as pd
 import numpy as np
 import matplotlib.pyplot as plt
@@ -97,9 +244,11 @@ warnings.filterwarnings('ignore')
 plt.style.use('default')
 sns.set_palette("husl")
 
+${APPLY_COLUMN_TYPES}
 # Load the dataset
 try:
-    df = pd.read_csv('${datasetPath}')
+    ${this.buildLoadStatement(dataset)}
+    ${this.buildTypeStatement(dataset.columnTypes)}
     print(f"Dataset loaded successfully with {len(df)} rows and {len(df.columns)} columns")
     print(f"Columns: {list(df.columns)}")
     print(f"Data types: {df.dtypes.to_dict()}")
@@ -116,23 +265,41 @@ plt.rcParams['figure.dpi'] = 300
 `;
 
     const cleanupCode = `
-# Save the plot
+# Save the plot; the path and format arrive as JSON like the render options, never spliced into the source
+_OUTPUT = json.loads(${JSON.stringify(JSON.stringify({ path: outputPath, format }))})
+_RENDER = json.loads(${JSON.stringify(JSON.stringify(render))})
 try:
-    if '${request.outputFormat}' == 'html':
+    if _OUTPUT['format'] == 'html':
         # For plotly charts, save as HTML
         if 'fig' in locals() and hasattr(fig, 'write_html'):
-            fig.write_html('${outputPath}')
+            plotly_fig = fig
         else:
             # Convert matplotlib to plotly if needed
             import plotly.tools as tls
             plotly_fig = tls.mpl_to_plotly(plt.gcf())
-            plotly_fig.write_html('${outputPath}')
+        if _RENDER.get('width') or _RENDER.get('height'):
+            plotly_fig.update_layout(width=_RENDER.get('width'), height=_RENDER.get('height'))
+        if _RENDER.get('transparent'):
+            plotly_fig.update_layout(paper_bgcolor='rgba(0,0,0,0)', plot_bgcolor='rgba(0,0,0,0)')
+        plotly_fig.write_html(_OUTPUT['path'])
     else:
         # For static images
-        plt.tight_layout()
-        plt.savefig('${outputPath}', format='${request.outputFormat}', dpi=300, bbox_inches='tight')
+        _dpi = _RENDER.get('dpi') or 300
+        _transparent = bool(_RENDER.get('transparent'))
+        if _RENDER.get('width') or _RENDER.get('height'):
+            # An exact pixel size is kept by fitting the layout inside the figure instead of cropping around it
+            _figure = plt.gcf()
+            _inches = _figure.get_size_inches()
+            _width = _RENDER['width'] / _dpi if _RENDER.get('width') else _RENDER['height'] / _dpi * _inches[0] / _inches[1]
+            _height = _RENDER['height'] / _dpi if _RENDER.get('height') else _width * _inches[1] / _inches[0]
+            _figure.set_size_inches(_width, _height)
+            plt.tight_layout()
+            plt.savefig(_OUTPUT['path'], format=_OUTPUT['format'], dpi=_dpi, transparent=_transparent)
+        else:
+            plt.tight_layout()
+            plt.savefig(_OUTPUT['path'], format=_OUTPUT['format'], dpi=_dpi, bbox_inches='tight', transparent=_transparent)
     
-    print(f"Chart saved successfully to: ${outputPath}")
+    print(f"Chart saved successfully to: {_OUTPUT['path']}")
 except Exception as e:
     print(f"Error saving chart: {e}")
     exit(1)
@@ -143,40 +310,79 @@ print("\\n=== EXECUTION COMPLETED ===")
     return setupCode + originalCode + cleanupCode;
   }
 
-  private async runPythonFile(pythonFile: string): Promise<{ success: boolean; output: string; error?: string }> {
-    return new Promise((resolve) => {
-      const options = {
-        mode: 'text',
-        pythonPath: process.platform === 'win32' ? 'python' : 'python3', // Use 'python' on Windows
-        pythonOptions: ['-u'], // unbuffered output
-        scriptPath: dirname(pythonFile),
-        args: []
-      };
+  // Draws an evaluated chart spec without the dataset or any generated code
+  async renderChartData(chartData: unknown, outputFormat: ChartFileFormat, render: ChartRenderOptions = {}): Promise<PythonExecutionResult> {
+    const inputFile = join(this.tempDir, `${uuidv4()}.json`);
+    writeFileSync(inputFile, JSON.stringify(chartData));
+    try {
+      return await this.runChartScript(CHART_DATA_RENDERER, inputFile, outputFormat, render);
+    } finally {
+      rmSync(inputFile, { force: true });
+    }
+  }
 
-      const pyshell = new PythonShell(pythonFile, options);
-      let output = '';
-      let error = '';
+  // Converts a PNG, JPG or WebP chart file with Pillow, for charts that can no longer be re-rendered
+  async convertChartImage(sourcePath: string, outputFormat: ChartFileFormat, render: ChartRenderOptions = {}): Promise<PythonExecutionResult> {
+    return this.runChartScript(IMAGE_CONVERTER, resolve(sourcePath), outputFormat, render);
+  }
 
-      pyshell.on('message', (message) => {
-        output += message + '\n';
-      });
+  // Lays out a report manifest as a PDF or PowerPoint file; the chart images it names are copied next to the script
+  async renderReport(manifest: unknown, outputFormat: 'pdf' | 'pptx', chartFiles: string[]): Promise<PythonExecutionResult> {
+    const inputFile = join(this.tempDir, `${uuidv4()}.json`);
+    writeFileSync(inputFile, JSON.stringify(manifest));
+    try {
+      return await this.runChartScript(REPORT_RENDERER, inputFile, outputFormat, {}, chartFiles);
+    } finally {
+      rmSync(inputFile, { force: true });
+    }
+  }
 
-      pyshell.on('error', (err) => {
-        error += err.message + '\n';
-      });
+  // Runs one of the export scripts with the input mounted read-only where the dataset usually is.
+  // Extra files are copied into the scratch directory, which is the script's working directory.
+  private async runChartScript(
+    script: string,
+    inputPath: string,
+    outputFormat: string,
+    render: ChartRenderOptions,
+    files: string[] = []
+  ): Promise<PythonExecutionResult> {
+    const executionId = uuidv4();
+    const scratchDir = join(this.tempDir, executionId);
+    const pythonFile = join(scratchDir, 'render.py');
+    const chartFile = `chart.${outputFormat}`;
+    const outputFile = join(this.outputDir, `${executionId}.${outputFormat}`);
 
-      pyshell.end((err) => {
-        if (err) {
-          error += err.message + '\n';
-        }
-        
-        resolve({
-          success: !error,
-          output: output.trim(),
-          error: error.trim() || undefined
-        });
-      });
-    });
+    try {
+      mkdirSync(scratchDir, { recursive: true });
+      for (const file of files) {
+        copyFileSync(file, join(scratchDir, basename(file)));
+      }
+      const paths = resolveSandboxPaths(this.sandbox, { datasetPath: inputPath, scratchDir });
+      const config = { input: paths.datasetPath, output: `${paths.scratchDir}/${chartFile}`, format: outputFormat, render };
+      writeFileSync(pythonFile, `import json\n_CONFIG = json.loads(${JSON.stringify(JSON.stringify(config))})\n${script}`);
+
+      const result = await runInSandbox(this.sandbox, { scriptPath: pythonFile, scratchDir, datasetPath: inputPath });
+      if (!result.success || !existsSync(join(scratchDir, chartFile))) {
+        return {
+          success: false,
+          output: result.output,
+          error: result.error || 'Chart rendering failed',
+          errorCode: result.errorCode || 'EXECUTION_FAILED'
+        };
+      }
+
+      renameSync(join(scratchDir, chartFile), outputFile);
+      return { success: true, output: result.output, chartPath: outputFile };
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCode: 'EXECUTION_FAILED'
+      };
+    } finally {
+      rmSync(scratchDir, { recursive: true, force: true });
+    }
   }
 
   private readChartData(chartPath: string, format: string): any {
@@ -211,7 +417,7 @@ print("\\n=== EXECUTION COMPLETED ===")
             const filePath = join(dir, file);
             const stats = fs.statSync(filePath);
             if (currentTime - stats.mtime.getTime() > maxAge) {
-              fs.unlinkSync(filePath);
+              rmSync(filePath, { recursive: true, force: true });
             }
           });
         }
@@ -0,0 +1,243 @@
+// Builds a PDF (matplotlib) or PowerPoint (python-pptx) report from the manifest reportService.ts writes.
+// Chart images are copied next to the script, so the manifest refers to them by file name only.
+export const REPORT_RENDERER = `
+import json
+import textwrap
+from datetime import datetime
+
+with open(_CONFIG['input'], encoding='utf-8') as handle:
+    report = json.load(handle)
+
+fmt = _CONFIG['format']
+analyses = report['analyses']
+datasets = report['datasets']
+generated = datetime.fromisoformat(report['generatedAt'].replace('Z', '+00:00')).strftime('%Y-%m-%d %H:%M UTC')
+subtitle = f"{len(analyses)} {'analysis' if len(analyses) == 1 else 'analyses'} of {', '.join(dataset['name'] for dataset in datasets)}"
+
+# A slide holds fewer table rows than a page
+COLUMNS_PER_PAGE = 18 if fmt == 'pdf' else 12
+MAX_TEXT_LINES = 34 if fmt == 'pdf' else 22
+
+dataset_pages = []
+for dataset in datasets:
+    columns = dataset['columns']
+    chunks = [columns[start:start + COLUMNS_PER_PAGE] for start in range(0, len(columns), COLUMNS_PER_PAGE)] or [[]]
+    for index, chunk in enumerate(chunks):
+        dataset_pages.append((dataset, chunk, index > 0))
+
+# Page 1 is the title and page 2 the contents; dataset summaries follow, then one page per analysis
+FIRST_DATASET_PAGE = 3
+first_analysis_page = FIRST_DATASET_PAGE + len(dataset_pages)
+contents = [('Dataset summary', FIRST_DATASET_PAGE)] + [
+    (f"{number}. {analysis['title']}", first_analysis_page + number - 1) for number, analysis in enumerate(analyses, 1)
+]
+
+def dataset_heading(dataset, continued):
+    suffix = ' (continued)' if continued else ''
+    if dataset.get('missing'):
+        return f"{dataset['name']}{suffix}"
+    return f"{dataset['name']}{suffix}: {dataset['rowCount']:,} rows, {dataset['columnCount']} columns"
+
+def meta_line(analysis):
+    return f"{analysis['datasetName']} · {analysis['aiModel']} · {analysis['createdAt'][:10]}"
+
+def text_sections(analysis):
+    sections = [('Question', analysis['query'])]
+    if analysis.get('error'):
+        sections.append(('Error', analysis['error']))
+    if analysis.get('analysis'):
+        sections.append(('Analysis', analysis['analysis']))
+    if analysis.get('explanation'):
+        sections.append(('Explanation', analysis['explanation']))
+    return sections
+
+def wrap(text, width):
+    return [line for paragraph in str(text).splitlines() if paragraph.strip() for line in textwrap.wrap(paragraph, width)]
+
+def fit_sections(sections, width):
+    # Long answers are cut so the page never overflows; the full text stays in the Library
+    budget = MAX_TEXT_LINES
+    fitted = []
+    for heading, body in sections:
+        lines = wrap(body, width)
+        budget -= 2
+        if budget <= 0:
+            break
+        if len(lines) > budget:
+            lines = lines[:budget]
+            lines[-1] = lines[-1].rstrip() + ' …'
+        budget -= len(lines)
+        fitted.append((heading, lines))
+    return fitted
+
+def render_pdf():
+    import matplotlib.pyplot as plt
+    import matplotlib.image as mpimg
+    from matplotlib.backends.backend_pdf import PdfPages
+
+    PAGE = (11.69, 8.27)
+    LINE = 0.024
+
+    def new_page(number):
+        fig = plt.figure(figsize=PAGE)
+        if number > 1:
+            fig.text(0.95, 0.03, str(number), ha='right', va='bottom', fontsize=9, color='#666666')
+            fig.text(0.05, 0.03, report['title'], ha='left', va='bottom', fontsize=9, color='#666666')
+        return fig
+
+    def heading(fig, text, detail=None):
+        fig.text(0.05, 0.92, text, fontsize=18, weight='bold', va='top')
+        if detail:
+            fig.text(0.05, 0.86, detail, fontsize=10, color='#555555', va='top')
+
+    with PdfPages(_CONFIG['output'], metadata={'Title': report['title']}) as pdf:
+        fig = new_page(1)
+        fig.text(0.5, 0.6, report['title'], ha='center', fontsize=28, weight='bold')
+        fig.text(0.5, 0.52, subtitle, ha='center', fontsize=13, color='#444444')
+        fig.text(0.5, 0.47, f"Generated {generated}", ha='center', fontsize=11, color='#666666')
+        pdf.savefig(fig)
+        plt.close(fig)
+
+        fig = new_page(2)
+        heading(fig, 'Contents')
+        size = 11 if len(contents) <= 25 else 8
+        step = 0.032 if len(contents) <= 25 else 0.017
+        for index, (label, page) in enumerate(contents):
+            y = 0.84 - index * step
+            fig.text(0.08, y, textwrap.shorten(label, 110), fontsize=size, va='top')
+            fig.text(0.92, y, str(page), fontsize=size, va='top', ha='right')
+        pdf.savefig(fig)
+        plt.close(fig)
+
+        for offset, (dataset, columns, continued) in enumerate(dataset_pages):
+            fig = new_page(FIRST_DATASET_PAGE + offset)
+            heading(fig, 'Dataset summary' if offset == 0 else 'Dataset summary (continued)', dataset_heading(dataset, continued))
+            if dataset.get('missing'):
+                fig.text(0.05, 0.78, 'This dataset has been deleted, so only its name is known.', fontsize=11, va='top')
+            elif columns:
+                ax = fig.add_axes([0.05, 0.08, 0.9, 0.74])
+                ax.axis('off')
+                table = ax.table(
+                    cellText=[[textwrap.shorten(column['name'], 40), column['type'], column['missing'], column['distinct'], textwrap.shorten(column['summary'], 70)] for column in columns],
+                    colLabels=['Column', 'Type', 'Missing', 'Distinct', 'Summary'],
+                    colWidths=[0.24, 0.12, 0.09, 0.09, 0.46],
+                    cellLoc='left',
+                    loc='upper center'
+                )
+                table.auto_set_font_size(False)
+                table.set_fontsize(8)
+                table.scale(1, 1.35)
+                for (row, _), cell in table.get_celld().items():
+                    if row == 0:
+                        cell.set_text_props(weight='bold')
+                        cell.set_facecolor('#eeeeee')
+            pdf.savefig(fig)
+            plt.close(fig)
+
+        for number, analysis in enumerate(analyses, 1):
+            fig = new_page(first_analysis_page + number - 1)
+            heading(fig, textwrap.shorten(f"{number}. {analysis['title']}", 80), meta_line(analysis))
+            y = 0.8
+            for section, lines in fit_sections(text_sections(analysis), 62):
+                fig.text(0.05, y, section, fontsize=10, weight='bold', va='top')
+                fig.text(0.05, y - LINE, '\\n'.join(lines), fontsize=9, va='top', linespacing=1.45)
+                y -= LINE * (len(lines) + 2)
+
+            if analysis.get('chart'):
+                ax = fig.add_axes([0.5, 0.08, 0.46, 0.74])
+                ax.imshow(mpimg.imread(analysis['chart']))
+                ax.axis('off')
+            else:
+                fig.text(0.73, 0.45, analysis.get('chartNote') or 'No chart', ha='center', fontsize=10, color='#777777', wrap=True)
+            pdf.savefig(fig)
+            plt.close(fig)
+
+def render_pptx():
+    from pptx import Presentation
+    from pptx.dml.color import RGBColor
+    from pptx.util import Inches, Pt
+    from PIL import Image
+
+    deck = Presentation()
+    deck.slide_width = Inches(13.333)
+    deck.slide_height = Inches(7.5)
+    deck.core_properties.title = report['title']
+    blank = deck.slide_layouts[6]
+    grey = RGBColor(0x66, 0x66, 0x66)
+
+    def add_text(slide, left, top, width, height, paragraphs):
+        frame = slide.shapes.add_textbox(Inches(left), Inches(top), Inches(width), Inches(height)).text_frame
+        frame.word_wrap = True
+        for index, (text, size, bold, color) in enumerate(paragraphs):
+            paragraph = frame.paragraphs[0] if index == 0 else frame.add_paragraph()
+            run = paragraph.add_run()
+            run.text = text
+            run.font.size = Pt(size)
+            run.font.bold = bold
+            if color:
+                run.font.color.rgb = color
+        return frame
+
+    def new_slide(title, detail=None):
+        slide = deck.slides.add_slide(blank)
+        add_text(slide, 0.6, 0.4, 12.1, 0.8, [(title, 28, True, None)])
+        if detail:
+            add_text(slide, 0.6, 1.1, 12.1, 0.5, [(detail, 14, False, grey)])
+        return slide
+
+    slide = deck.slides.add_slide(blank)
+    add_text(slide, 0.8, 2.4, 11.7, 1.4, [(report['title'], 40, True, None)])
+    add_text(slide, 0.8, 3.9, 11.7, 1.2, [(subtitle, 18, False, grey), (f"Generated {generated}", 14, False, grey)])
+
+    slide = new_slide('Contents')
+    size = 16 if len(contents) <= 12 else 11 if len(contents) <= 24 else 8
+    add_text(slide, 0.8, 1.4, 11.7, 5.8, [(f"{textwrap.shorten(label, 100)} — {page}", size, False, None) for label, page in contents])
+
+    for offset, (dataset, columns, continued) in enumerate(dataset_pages):
+        slide = new_slide('Dataset summary' if offset == 0 else 'Dataset summary (continued)', dataset_heading(dataset, continued))
+        if dataset.get('missing'):
+            add_text(slide, 0.6, 1.8, 12.1, 1, [('This dataset has been deleted, so only its name is known.', 16, False, None)])
+            continue
+        if not columns:
+            continue
+        shape = slide.shapes.add_table(len(columns) + 1, 5, Inches(0.6), Inches(1.7), Inches(12.1), Inches(0.35 * (len(columns) + 1)))
+        for index, width in enumerate([3.0, 1.4, 1.1, 1.1, 5.5]):
+            shape.table.columns[index].width = Inches(width)
+        rows = [['Column', 'Type', 'Missing', 'Distinct', 'Summary']] + [
+            [column['name'], column['type'], column['missing'], column['distinct'], textwrap.shorten(column['summary'], 90)] for column in columns
+        ]
+        for row_index, row in enumerate(rows):
+            for column_index, value in enumerate(row):
+                cell = shape.table.cell(row_index, column_index)
+                cell.text = str(value)
+                for paragraph in cell.text_frame.paragraphs:
+                    for run in paragraph.runs:
+                        run.font.size = Pt(11)
+
+    for number, analysis in enumerate(analyses, 1):
+        slide = new_slide(textwrap.shorten(f"{number}. {analysis['title']}", 70), meta_line(analysis))
+        paragraphs = []
+        for section, lines in fit_sections(text_sections(analysis), 70):
+            paragraphs.append((section, 13, True, None))
+            paragraphs.append((' '.join(lines), 11, False, None))
+        add_text(slide, 0.6, 1.7, 5.6, 5.5, paragraphs)
+
+        if analysis.get('chart'):
+            # Fitted into the right half without changing the chart's proportions
+            with Image.open(analysis['chart']) as image:
+                width, height = image.size
+            scale = min(6.4 / width, 5.4 / height)
+            left = 6.5 + (6.4 - width * scale) / 2
+            slide.shapes.add_picture(analysis['chart'], Inches(left), Inches(1.7), Inches(width * scale), Inches(height * scale))
+        else:
+            add_text(slide, 6.5, 3.8, 6.4, 1, [(analysis.get('chartNote') or 'No chart', 14, False, grey)])
+
+    deck.save(_CONFIG['output'])
+
+if fmt == 'pdf':
+    render_pdf()
+else:
+    render_pptx()
+
+print(f"Rendered a {fmt} report with {len(analyses)} analyses")
+`;
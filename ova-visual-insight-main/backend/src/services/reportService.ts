@@ -0,0 +1,224 @@
+import { existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisHistoryService, AnalysisRecord } from './analysisHistoryService.js';
+import { ChartExportService } from './chartExportService.js';
+import { ColumnProfile } from './datasetProfiler.js';
+import { FileProcessingService } from './fileProcessingService.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { PythonSandboxService } from './pythonSandboxService.js';
+import { workspaceOf } from './workspaceService.js';
+
+export type ReportFormat = 'pdf' | 'pptx';
+
+export const REPORT_FORMATS: ReportFormat[] = ['pdf', 'pptx'];
+
+export interface ReportRecord {
+  id: string;
+  ownerId: string;
+  workspaceId: string;
+  title: string;
+  format: ReportFormat;
+  // In report order
+  analysisIds: string[];
+  datasetIds: string[];
+  path: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface ReportRequest {
+  ownerId: string;
+  workspaceId: string;
+  title: string;
+  format: ReportFormat;
+  analysisIds: string[];
+}
+
+// The report could not be made; statusCode is what the endpoint should answer with
+export class ReportError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'ReportError';
+  }
+}
+
+// The chart image placed for one analysis, or why there is none
+interface ReportChart {
+  file?: string;
+  note?: string;
+}
+
+// Images the report script can place as they are; other charts are exported to PNG first
+const PLACEABLE_CHART_FORMATS = ['png', 'jpg', 'jpeg'];
+const CHART_EXPORT_WIDTH = 1600;
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// One line per column for the dataset summary table
+function summarizeColumn(column: ColumnProfile): string {
+  if (column.numeric) {
+    const { min, max, mean } = column.numeric;
+    return `min ${formatNumber(min)}, max ${formatNumber(max)}, mean ${formatNumber(mean)}`;
+  }
+  if (column.dateRange) {
+    return `${column.dateRange.min.slice(0, 10)} to ${column.dateRange.max.slice(0, 10)}`;
+  }
+  if (column.topValues.length > 0) {
+    return `Top: ${column.topValues.slice(0, 3).map(({ value, count }) => `${value} (${count})`).join(', ')}`;
+  }
+  return '';
+}
+
+const reviveReport = (report: ReportRecord): ReportRecord => ({
+  ...report,
+  createdAt: new Date(report.createdAt)
+});
+
+export class ReportService {
+  private reportsDir = join(process.cwd(), 'reports');
+  private outputDir = join(process.cwd(), 'output');
+  private reports = new JsonFileStore<ReportRecord>('reports', reviveReport);
+  private historyService = new AnalysisHistoryService();
+  private fileProcessingService = new FileProcessingService();
+  private chartExportService = new ChartExportService();
+  private pythonSandboxService = new PythonSandboxService();
+
+  constructor() {
+    if (!existsSync(this.reportsDir)) {
+      mkdirSync(this.reportsDir, { recursive: true });
+    }
+  }
+
+  async createReport(request: ReportRequest): Promise<ReportRecord> {
+    // An analysis from another workspace is reported like a missing one
+    const records = request.analysisIds
+      .map(id => this.historyService.getAnalysis(id))
+      .map(record => record && workspaceOf(record) === request.workspaceId ? record : undefined);
+    const missing = request.analysisIds.filter((_, index) => !records[index]);
+    if (missing.length > 0) {
+      throw new ReportError('Analysis not found', 404, missing.join(', '));
+    }
+    const analyses = records as AnalysisRecord[];
+    const datasetIds = [...new Set(analyses.map(record => record.datasetId))];
+
+    // Charts exported for the report are removed again once it is rendered
+    const exported: string[] = [];
+    try {
+      const charts: ReportChart[] = [];
+      for (const record of analyses) {
+        charts.push(await this.prepareChart(record, exported));
+      }
+
+      const manifest = {
+        title: request.title,
+        generatedAt: new Date().toISOString(),
+        datasets: await Promise.all(datasetIds.map(id => this.summarizeDataset(id, analyses))),
+        analyses: analyses.map((record, index) => ({
+          title: record.title,
+          query: record.query,
+          datasetName: record.datasetName,
+          aiModel: record.aiModel,
+          createdAt: record.createdAt.toISOString(),
+          error: record.status === 'failed' ? record.error || 'The analysis failed' : undefined,
+          analysis: record.analysis?.analysis,
+          explanation: record.analysis?.explanation,
+          chart: charts[index].file ? basename(charts[index].file) : null,
+          chartNote: charts[index].note
+        }))
+      };
+      const chartFiles = charts.flatMap(chart => chart.file ? [chart.file] : []);
+
+      const result = await this.pythonSandboxService.renderReport(manifest, request.format, chartFiles);
+      if (!result.success || !result.chartPath) {
+        throw new ReportError('Report rendering failed', 500, result.error);
+      }
+
+      const id = uuidv4();
+      const path = join(this.reportsDir, `${id}.${request.format}`);
+      renameSync(result.chartPath, path);
+      return this.reports.put({
+        id,
+        ownerId: request.ownerId,
+        workspaceId: request.workspaceId,
+        title: request.title,
+        format: request.format,
+        analysisIds: request.analysisIds,
+        datasetIds,
+        path,
+        size: statSync(path).size,
+        createdAt: new Date()
+      });
+    } finally {
+      for (const file of exported) {
+        rmSync(file, { force: true });
+      }
+    }
+  }
+
+  getReport(id: string): ReportRecord | undefined {
+    return this.reports.get(id);
+  }
+
+  listReports(workspaceId: string): ReportRecord[] {
+    return this.reports.find(report => workspaceOf(report) === workspaceId).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  deleteReport(id: string): boolean {
+    const report = this.reports.get(id);
+    if (!report) {
+      return false;
+    }
+    rmSync(report.path, { force: true });
+    return this.reports.remove(id);
+  }
+
+  // A deleted dataset is still listed by the name its analyses kept
+  private async summarizeDataset(datasetId: string, analyses: AnalysisRecord[]) {
+    const dataset = await this.fileProcessingService.getDatasetInfo(datasetId);
+    const profile = dataset ? await this.fileProcessingService.getDatasetProfile(datasetId) : null;
+    if (!dataset || !profile) {
+      const name = analyses.find(record => record.datasetId === datasetId)?.datasetName || datasetId;
+      return { name, missing: true, rowCount: 0, columnCount: 0, columns: [] };
+    }
+
+    return {
+      name: dataset.displayName || dataset.originalName,
+      rowCount: profile.rowCount,
+      columnCount: profile.columns.length,
+      columns: profile.columns.map(column => ({
+        name: column.name,
+        type: column.semanticType,
+        missing: `${formatNumber(column.nullPercentage)}%`,
+        distinct: formatNumber(column.distinctCount),
+        summary: summarizeColumn(column)
+      }))
+    };
+  }
+
+  // Finds a raster image of the analysis' chart, exporting one when the chart is a vector, HTML or spec file
+  private async prepareChart(record: AnalysisRecord, exported: string[]): Promise<ReportChart> {
+    if (!record.chart) {
+      return { note: record.status === 'failed' ? 'No chart: the analysis failed' : 'This analysis has no chart' };
+    }
+
+    const filename = basename(record.chart.path);
+    const chartPath = join(this.outputDir, filename);
+    if (!existsSync(chartPath)) {
+      return { note: 'The chart file has been deleted' };
+    }
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    if (PLACEABLE_CHART_FORMATS.includes(extension)) {
+      return { file: chartPath };
+    }
+
+    try {
+      const result = await this.chartExportService.exportChart(filename, { targetFormat: 'png', width: CHART_EXPORT_WIDTH });
+      exported.push(result.path);
+      return { file: result.path };
+    } catch (error) {
+      console.error('Report chart export error:', error);
+      return { note: `The ${extension.toUpperCase()} chart could not be converted to an image` };
+    }
+  }
+}
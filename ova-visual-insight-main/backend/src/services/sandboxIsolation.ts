@@ -0,0 +1,275 @@
+import { spawn } from 'child_process';
+import { basename } from 'path';
+
+export type SandboxMode = 'bwrap' | 'none';
+
+export type SandboxErrorCode =
+  | 'TIMEOUT'
+  | 'CPU_LIMIT_EXCEEDED'
+  | 'MEMORY_LIMIT_EXCEEDED'
+  | 'OUTPUT_LIMIT_EXCEEDED'
+  | 'SANDBOX_UNAVAILABLE'
+  | 'CANCELLED'
+  | 'EXECUTION_FAILED';
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  cpuSeconds: number;
+  memoryMb: number;
+  // Largest file the script may write (the chart) and combined stdout/stderr it may print
+  maxFileSizeMb: number;
+  maxOutputBytes: number;
+}
+
+export interface SandboxConfig {
+  mode: SandboxMode;
+  pythonPath: string;
+  // Host directories mounted read-only besides the system ones, e.g. a virtualenv or pyenv root
+  readOnlyPaths: string[];
+  limits: SandboxLimits;
+}
+
+export interface SandboxRun {
+  scriptPath: string;
+  scratchDir: string;
+  datasetPath: string;
+}
+
+export interface SandboxRunOptions {
+  // Aborting kills the process group and reports CANCELLED
+  signal?: AbortSignal;
+  // Called with each complete stdout line as the script prints it
+  onOutput?: (line: string) => void;
+}
+
+export interface SandboxResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  errorCode?: SandboxErrorCode;
+}
+
+// Where the scratch directory and dataset appear inside the bubblewrap namespace
+const SANDBOX_HOME = '/sandbox';
+const SANDBOX_DATA = '/data';
+
+// System paths the interpreter and its packages need; missing ones are skipped with --ro-bind-try
+const SYSTEM_PATHS = ['/usr', '/lib', '/lib64', '/bin', '/sbin', '/etc/alternatives', '/etc/fonts', '/etc/ld.so.cache', '/etc/localtime'];
+
+// Applies rlimits inside the child before any user code runs; hard limits cannot be raised again
+const LAUNCHER = `
+import runpy, sys
+cpu, memory, file_size = (int(value) for value in sys.argv[1:4])
+try:
+    import resource
+    resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu + 1))
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+    resource.setrlimit(resource.RLIMIT_FSIZE, (file_size, file_size))
+    resource.setrlimit(resource.RLIMIT_CORE, (0, 0))
+except ImportError:
+    pass
+script = sys.argv[4]
+sys.argv = [script]
+runpy.run_path(script, run_name='__main__')
+`;
+
+const SIGNAL_NUMBERS: Record<string, number> = { SIGKILL: 9, SIGSEGV: 11, SIGXCPU: 24, SIGXFSZ: 25 };
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function loadSandboxConfig(env: NodeJS.ProcessEnv = process.env): SandboxConfig {
+  const timeoutMs = readNumber(env.PYTHON_TIMEOUT, 30000);
+  const requested = env.PYTHON_SANDBOX;
+
+  return {
+    // Namespaces are Linux-only; other platforms fall back to rlimits and the wall-clock timeout
+    mode: requested === 'bwrap' || requested === 'none' ? requested : process.platform === 'linux' ? 'bwrap' : 'none',
+    pythonPath: env.PYTHON_PATH || (process.platform === 'win32' ? 'python' : 'python3'),
+    readOnlyPaths: (env.PYTHON_SANDBOX_RO_PATHS || '').split(',').map(path => path.trim()).filter(Boolean),
+    limits: {
+      timeoutMs,
+      cpuSeconds: readNumber(env.PYTHON_CPU_LIMIT, Math.ceil(timeoutMs / 1000)),
+      memoryMb: readNumber(env.PYTHON_MEMORY_LIMIT_MB, 2048),
+      maxFileSizeMb: readNumber(env.PYTHON_MAX_FILE_SIZE_MB, 50),
+      maxOutputBytes: readNumber(env.PYTHON_MAX_OUTPUT_BYTES, 1024 * 1024)
+    }
+  };
+}
+
+// Paths the generated script should use for the dataset and its scratch directory
+export function resolveSandboxPaths(config: SandboxConfig, run: Omit<SandboxRun, 'scriptPath'>): { datasetPath: string; scratchDir: string } {
+  if (config.mode === 'none') {
+    return { datasetPath: run.datasetPath, scratchDir: run.scratchDir };
+  }
+  return { datasetPath: `${SANDBOX_DATA}/${basename(run.datasetPath)}`, scratchDir: SANDBOX_HOME };
+}
+
+function buildCommand(config: SandboxConfig, run: SandboxRun): { command: string; args: string[] } {
+  const { cpuSeconds, memoryMb, maxFileSizeMb } = config.limits;
+  const limits = [cpuSeconds, memoryMb * 1024 * 1024, maxFileSizeMb * 1024 * 1024].map(String);
+
+  if (config.mode === 'none') {
+    return { command: config.pythonPath, args: ['-c', LAUNCHER, ...limits, run.scriptPath] };
+  }
+
+  const paths = resolveSandboxPaths(config, run);
+  const args = [
+    // New user, pid, network, ipc, uts and cgroup namespaces: no network and no view of host processes
+    '--unshare-all',
+    '--die-with-parent',
+    '--new-session',
+    ...SYSTEM_PATHS.flatMap(path => ['--ro-bind-try', path, path]),
+    ...config.readOnlyPaths.flatMap(path => ['--ro-bind', path, path]),
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+    '--ro-bind', run.datasetPath, paths.datasetPath,
+    '--bind', run.scratchDir, SANDBOX_HOME,
+    '--chdir', SANDBOX_HOME,
+    config.pythonPath, '-c', LAUNCHER, ...limits, `${SANDBOX_HOME}/${basename(run.scriptPath)}`
+  ];
+  return { command: 'bwrap', args };
+}
+
+// A signal either arrives directly or, through bwrap, as exit status 128 + signal number
+function terminatedBy(code: number | null, signal: NodeJS.Signals | null, name: string): boolean {
+  return signal === name || code === 128 + SIGNAL_NUMBERS[name];
+}
+
+function classifyFailure(code: number | null, signal: NodeJS.Signals | null, stderr: string): SandboxErrorCode {
+  if (terminatedBy(code, signal, 'SIGXCPU')) return 'CPU_LIMIT_EXCEEDED';
+  if (terminatedBy(code, signal, 'SIGXFSZ')) return 'OUTPUT_LIMIT_EXCEEDED';
+  if (/\bMemoryError\b|Cannot allocate memory|Unable to allocate/.test(stderr) ||
+      terminatedBy(code, signal, 'SIGKILL') || terminatedBy(code, signal, 'SIGSEGV')) {
+    return 'MEMORY_LIMIT_EXCEEDED';
+  }
+  return 'EXECUTION_FAILED';
+}
+
+const LIMIT_MESSAGES: Record<SandboxErrorCode, (limits: SandboxLimits) => string> = {
+  TIMEOUT: limits => `Execution exceeded the ${limits.timeoutMs / 1000}s time limit`,
+  CPU_LIMIT_EXCEEDED: limits => `Execution exceeded the ${limits.cpuSeconds}s CPU limit`,
+  MEMORY_LIMIT_EXCEEDED: limits => `Execution exceeded the ${limits.memoryMb}MB memory limit`,
+  OUTPUT_LIMIT_EXCEEDED: limits => `Execution exceeded the output limit (${limits.maxOutputBytes} bytes printed, ${limits.maxFileSizeMb}MB per file)`,
+  SANDBOX_UNAVAILABLE: () => 'Python sandbox is unavailable: install bubblewrap (bwrap) or set PYTHON_SANDBOX=none',
+  CANCELLED: () => 'Execution was cancelled',
+  EXECUTION_FAILED: () => 'Python execution failed'
+};
+
+export function runInSandbox(config: SandboxConfig, run: SandboxRun, options: SandboxRunOptions = {}): Promise<SandboxResult> {
+  const { signal, onOutput } = options;
+  const { command, args } = buildCommand(config, run);
+  const { limits } = config;
+  const paths = resolveSandboxPaths(config, run);
+
+  return new Promise((resolve) => {
+    const child = spawn(command, args, {
+      cwd: run.scratchDir,
+      // Start from an empty environment so API keys and other server secrets never reach the script
+      env: {
+        // Without namespaces the host PATH is kept so a virtualenv or pyenv interpreter still resolves
+        PATH: config.mode === 'none' ? process.env.PATH || '' : '/usr/local/bin:/usr/bin:/bin',
+        HOME: paths.scratchDir,
+        MPLCONFIGDIR: `${paths.scratchDir}/.matplotlib`,
+        MPLBACKEND: 'Agg',
+        OPENBLAS_NUM_THREADS: '1',
+        OMP_NUM_THREADS: '1',
+        PYTHONUNBUFFERED: '1',
+        PYTHONDONTWRITEBYTECODE: '1',
+        LANG: 'C.UTF-8',
+        // The Windows interpreter cannot start without it
+        ...(process.platform === 'win32' && { SYSTEMROOT: process.env.SYSTEMROOT })
+      },
+      // Own process group, so a kill reaches anything the script started
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let printed = 0;
+    let partialLine = '';
+    let killedFor: SandboxErrorCode | undefined;
+    let settled = false;
+
+    const kill = (reason: SandboxErrorCode) => {
+      if (killedFor) return;
+      killedFor = reason;
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // The process already exited
+      }
+    };
+
+    const timer = setTimeout(() => kill('TIMEOUT'), limits.timeoutMs);
+    const cancel = () => kill('CANCELLED');
+    signal?.addEventListener('abort', cancel, { once: true });
+    if (signal?.aborted) cancel();
+
+    const collect = (target: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      printed += chunk.length;
+      if (printed > limits.maxOutputBytes) {
+        kill('OUTPUT_LIMIT_EXCEEDED');
+        return;
+      }
+      if (target === 'stderr') {
+        stderr += chunk.toString();
+        return;
+      }
+
+      stdout += chunk.toString();
+      if (onOutput) {
+        const lines = (partialLine + chunk.toString()).split(/\r?\n/);
+        partialLine = lines.pop() || '';
+        lines.forEach(line => onOutput(line));
+      }
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    const finish = (result: SandboxResult) => {
+      if (settled) return;
+      settled = true;
+      if (onOutput && partialLine) onOutput(partialLine);
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      resolve(result);
+    };
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      const errorCode = error.code === 'ENOENT' && config.mode === 'bwrap' ? 'SANDBOX_UNAVAILABLE' : 'EXECUTION_FAILED';
+      finish({
+        success: false,
+        output: stdout.trim(),
+        error: errorCode === 'SANDBOX_UNAVAILABLE' ? LIMIT_MESSAGES.SANDBOX_UNAVAILABLE(limits) : error.message,
+        errorCode
+      });
+    });
+
+    child.on('close', (code, signal) => {
+      if (!killedFor && code === 0) {
+        finish({ success: true, output: stdout.trim() });
+        return;
+      }
+
+      const errorCode = killedFor || classifyFailure(code, signal, stderr);
+      const details = stderr.trim();
+      finish({
+        success: false,
+        output: stdout.trim(),
+        error: errorCode === 'EXECUTION_FAILED'
+          ? details || `${LIMIT_MESSAGES.EXECUTION_FAILED(limits)} (exit code ${code})`
+          : LIMIT_MESSAGES[errorCode](limits) + (details ? `\n${details}` : ''),
+        errorCode
+      });
+    });
+  });
+}
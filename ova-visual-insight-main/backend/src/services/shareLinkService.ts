@@ -0,0 +1,100 @@
+import { randomBytes } from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+
+// A chart is shared through the analysis that drew it
+export type ShareTargetType = 'chart' | 'dashboard';
+
+export const SHARE_TARGET_TYPES: ShareTargetType[] = ['chart', 'dashboard'];
+
+// A read-only link for people without an account; whoever holds the token can open the target until it expires
+export interface ShareLink {
+  // The token in the link
+  id: string;
+  workspaceId: string;
+  createdBy: string;
+  type: ShareTargetType;
+  // An analysis id for charts, a dashboard id for dashboards
+  targetId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// The request could not be carried out; statusCode is what the endpoint should answer with
+export class ShareError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+export const MIN_EXPIRY_HOURS = 1;
+export const MAX_EXPIRY_HOURS = 30 * 24;
+export const DEFAULT_EXPIRY_HOURS = 72;
+
+const reviveShareLink = (link: ShareLink): ShareLink => ({
+  ...link,
+  expiresAt: new Date(link.expiresAt),
+  revokedAt: link.revokedAt ? new Date(link.revokedAt) : undefined,
+  createdAt: new Date(link.createdAt)
+});
+
+export class ShareLinkService {
+  private links = new JsonFileStore<ShareLink>('share-links', reviveShareLink);
+
+  createLink(workspaceId: string, createdBy: string, type: ShareTargetType, targetId: string, expiresInHours: number): ShareLink {
+    this.pruneExpired();
+    const now = new Date();
+    return this.links.put({
+      // 32 random bytes, so links cannot be guessed
+      id: randomBytes(32).toString('base64url'),
+      workspaceId,
+      createdBy,
+      type,
+      targetId,
+      expiresAt: new Date(now.getTime() + expiresInHours * 60 * 60 * 1000),
+      createdAt: now
+    });
+  }
+
+  getLink(id: string): ShareLink | undefined {
+    return this.links.get(id);
+  }
+
+  // Links that still work, newest first
+  listLinks(workspaceId: string, type?: ShareTargetType, targetId?: string): ShareLink[] {
+    const now = Date.now();
+    return this.links.find(link =>
+      link.workspaceId === workspaceId &&
+      !link.revokedAt &&
+      link.expiresAt.getTime() > now &&
+      (!type || link.type === type) &&
+      (!targetId || link.targetId === targetId)
+    ).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  revokeLink(id: string): ShareLink | undefined {
+    const link = this.links.get(id);
+    if (!link) return undefined;
+    return link.revokedAt ? link : this.links.put({ ...link, revokedAt: new Date() });
+  }
+
+  // The link behind a token for a visitor; revoked and unknown tokens look the same, expired ones say so
+  resolve(token: string): ShareLink {
+    const link = this.links.get(token);
+    if (!link || link.revokedAt) {
+      throw new ShareError('Share link not found', 404);
+    }
+    if (link.expiresAt.getTime() <= Date.now()) {
+      throw new ShareError('This share link has expired', 410, 'Ask the person who sent it for a new link');
+    }
+    return link;
+  }
+
+  // Expired links no longer open anything, so their records are dropped a week later
+  private pruneExpired() {
+    const cutoff = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    this.links.find(link => link.expiresAt.getTime() < cutoff)
+      .forEach(link => this.links.remove(link.id));
+  }
+}
@@ -0,0 +1,218 @@
+import { ChartData, ChartTimeUnit } from './chartSpec.js';
+
+export const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+export type VegaLiteMark = 'bar' | 'line' | 'area' | 'point' | 'arc';
+export type VegaLiteType = 'quantitative' | 'temporal' | 'ordinal' | 'nominal';
+export type VegaLiteChannel = 'x' | 'y' | 'xOffset' | 'color' | 'theta';
+type VegaLiteTimeUnit = 'utcyear' | 'utcyearmonth' | 'utcyearmonthdate';
+
+export interface VegaLiteFieldDef {
+  field: string;
+  type: VegaLiteType;
+  title?: string;
+  timeUnit?: VegaLiteTimeUnit;
+  // null keeps the order of the inlined values, which the server already sorted
+  sort?: null;
+  stack?: boolean | null;
+}
+
+type VegaLiteValue = string | number | null;
+
+// The subset of Vega-Lite v5 this backend writes: one mark over inline values
+export interface VegaLiteSpec {
+  $schema: string;
+  title?: string;
+  description?: string;
+  width: 'container';
+  height: number;
+  data: { values: Record<string, VegaLiteValue>[] };
+  mark: { type: VegaLiteMark; tooltip: true; point?: boolean; filled?: boolean; innerRadius?: number };
+  encoding: Partial<Record<VegaLiteChannel, VegaLiteFieldDef>>;
+}
+
+const MARKS: VegaLiteMark[] = ['bar', 'line', 'area', 'point', 'arc'];
+const TYPES: VegaLiteType[] = ['quantitative', 'temporal', 'ordinal', 'nominal'];
+const TIME_UNITS: Record<ChartTimeUnit, VegaLiteTimeUnit> = {
+  year: 'utcyear',
+  month: 'utcyearmonth',
+  day: 'utcyearmonthdate'
+};
+// Channels each mark needs, and the ones it may use besides
+const REQUIRED_CHANNELS: Record<VegaLiteMark, VegaLiteChannel[]> = {
+  bar: ['x', 'y'],
+  line: ['x', 'y'],
+  area: ['x', 'y'],
+  point: ['x', 'y'],
+  arc: ['theta']
+};
+const OPTIONAL_CHANNELS: Record<VegaLiteMark, VegaLiteChannel[]> = {
+  bar: ['color', 'xOffset'],
+  line: ['color'],
+  area: ['color'],
+  point: ['color'],
+  arc: ['color']
+};
+const CHART_HEIGHT = 320;
+const MAX_LINE_POINTS = 60;
+
+// Vega-Lite reads dots and brackets in a field name as nested access unless they are escaped
+const escapeField = (field: string) => field.replace(/[.[\]\\]/g, '\\$&');
+const unescapeField = (field: string) => field.replace(/\\(.)/g, '$1');
+
+// Picks a name for the measure column that does not clash with the x or series column
+function uniqueName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let suffix = 2; taken.includes(candidate); suffix++) {
+    candidate = `${name} (${suffix})`;
+  }
+  return candidate;
+}
+
+// Turns an evaluated chart into a Vega-Lite spec with its data inlined in long form, one value per x and series
+export function toVegaLiteSpec(chart: ChartData, description?: string): VegaLiteSpec {
+  const { spec } = chart;
+  const xField = spec.x.field;
+  const seriesField = spec.series ? uniqueName(spec.series.field, [xField]) : undefined;
+  const yField = uniqueName(chart.yLabel, seriesField ? [xField, seriesField] : [xField]);
+
+  const values = chart.rows.flatMap(row => chart.series.map(({ key, label }) => ({
+    [xField]: row.x,
+    ...(seriesField && { [seriesField]: label }),
+    [yField]: row[key] ?? null
+  })));
+
+  // Numbers on a bar chart are one bar per value, so they are spaced evenly like categories
+  const xType: VegaLiteType = chart.xType === 'date'
+    ? 'temporal'
+    : chart.xType === 'category' ? 'nominal' : spec.type === 'bar' ? 'ordinal' : 'quantitative';
+  const x: VegaLiteFieldDef = {
+    field: escapeField(xField),
+    type: xType,
+    title: chart.xLabel,
+    ...(xType === 'temporal' && { timeUnit: TIME_UNITS[spec.x.timeUnit || 'day'] }),
+    ...((xType === 'nominal' || xType === 'ordinal') && { sort: null })
+  };
+  const y: VegaLiteFieldDef = {
+    field: escapeField(yField),
+    type: 'quantitative',
+    title: chart.yLabel,
+    // Series are drawn side by side or overlaid, as in the app, rather than stacked
+    ...(spec.type !== 'scatter' && seriesField && { stack: null })
+  };
+  const color: VegaLiteFieldDef | undefined = seriesField
+    ? { field: escapeField(seriesField), type: 'nominal', sort: null }
+    : undefined;
+
+  let mark: VegaLiteSpec['mark'];
+  let encoding: VegaLiteSpec['encoding'];
+  switch (spec.type) {
+    case 'pie':
+      mark = { type: 'arc', tooltip: true, innerRadius: 60 };
+      encoding = {
+        theta: { field: escapeField(yField), type: 'quantitative', title: chart.yLabel, stack: true },
+        color: { field: escapeField(xField), type: 'nominal', title: chart.xLabel, sort: null }
+      };
+      break;
+    case 'scatter':
+      mark = { type: 'point', tooltip: true, filled: true };
+      encoding = { x, y, ...(color && { color }) };
+      break;
+    case 'line':
+    case 'area':
+      mark = { type: spec.type, tooltip: true, point: chart.rows.length <= MAX_LINE_POINTS };
+      encoding = { x, y, ...(color && { color }) };
+      break;
+    case 'bar':
+    default:
+      mark = { type: 'bar', tooltip: true };
+      encoding = { x, y, ...(color && { color, xOffset: color }) };
+  }
+
+  const vegaLite: VegaLiteSpec = {
+    $schema: VEGA_LITE_SCHEMA,
+    ...(spec.title && { title: spec.title }),
+    ...(description && { description }),
+    width: 'container',
+    height: CHART_HEIGHT,
+    data: { values },
+    mark,
+    encoding
+  };
+
+  const issues = validateVegaLiteSpec(vegaLite);
+  if (issues.length > 0) {
+    throw new Error(`Generated Vega-Lite spec is invalid: ${issues.join('; ')}`);
+  }
+  return vegaLite;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a spec against the parts of the Vega-Lite v5 schema this backend uses, and that every encoded field is in the data
+export function validateVegaLiteSpec(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['The spec must be a JSON object'];
+  }
+
+  const issues: string[] = [];
+  if (value.$schema !== VEGA_LITE_SCHEMA) {
+    issues.push(`"$schema" must be ${VEGA_LITE_SCHEMA}`);
+  }
+  if (value.title !== undefined && typeof value.title !== 'string') {
+    issues.push('"title" must be a string');
+  }
+
+  const rows = isObject(value.data) && Array.isArray(value.data.values) ? value.data.values : undefined;
+  if (!rows) {
+    issues.push('"data.values" must be an array');
+  } else if (!rows.every(row => isObject(row) && Object.values(row).every(cell => cell === null || typeof cell === 'string' || typeof cell === 'number'))) {
+    issues.push('"data.values" must hold objects of strings, numbers and nulls');
+  }
+
+  const markType = isObject(value.mark) ? value.mark.type : value.mark;
+  if (!MARKS.includes(markType as VegaLiteMark)) {
+    issues.push(`"mark.type" must be one of ${MARKS.join(', ')}`);
+    return issues;
+  }
+  const mark = markType as VegaLiteMark;
+
+  if (!isObject(value.encoding)) {
+    issues.push('"encoding" must be an object');
+    return issues;
+  }
+  const allowed = [...REQUIRED_CHANNELS[mark], ...OPTIONAL_CHANNELS[mark]];
+  for (const channel of REQUIRED_CHANNELS[mark]) {
+    if (!(channel in value.encoding)) issues.push(`The ${mark} mark needs an "encoding.${channel}"`);
+  }
+
+  for (const [channel, definition] of Object.entries(value.encoding)) {
+    const path = `encoding.${channel}`;
+    if (!allowed.includes(channel as VegaLiteChannel)) {
+      issues.push(`"${path}" is not used by the ${mark} mark`);
+      continue;
+    }
+    if (!isObject(definition) || typeof definition.field !== 'string' || !definition.field) {
+      issues.push(`"${path}.field" must be a field name`);
+      continue;
+    }
+    if (!TYPES.includes(definition.type as VegaLiteType)) {
+      issues.push(`"${path}.type" must be one of ${TYPES.join(', ')}`);
+    }
+    if (definition.timeUnit !== undefined && (definition.type !== 'temporal' || !Object.values(TIME_UNITS).includes(definition.timeUnit as VegaLiteTimeUnit))) {
+      issues.push(`"${path}.timeUnit" must be one of ${Object.values(TIME_UNITS).join(', ')} on a temporal field`);
+    }
+    if ((channel === 'theta' || definition.type === 'quantitative') && rows) {
+      const field = unescapeField(definition.field);
+      if (!rows.every(row => !isObject(row) || !(field in row) || row[field] === null || typeof row[field] === 'number')) {
+        issues.push(`"${path}" is quantitative, so every value of "${field}" must be a number or null`);
+      }
+    }
+    if (rows && !rows.every(row => isObject(row) && unescapeField(definition.field as string) in row)) {
+      issues.push(`"${path}.field" names "${definition.field}", which is missing from some data values`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from './jsonFileStore.js';
+import { AuthService, PublicUser } from './authService.js';
+
+// Owners manage members; editors upload, analyze and change things; viewers only browse
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  addedAt: Date;
+}
+
+export interface Workspace {
+  // A personal workspace shares its user's id
+  id: string;
+  name: string;
+  // Personal workspaces are created with the account and have no other members
+  personal: boolean;
+  members: WorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkspaceMemberDetails extends WorkspaceMember {
+  email: string;
+  name: string;
+}
+
+// The request could not be carried out; statusCode is what the endpoint should answer with
+export class WorkspaceError extends Error {
+  constructor(message: string, readonly statusCode: number, readonly details?: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export const hasRole = (role: WorkspaceRole | undefined, required: WorkspaceRole): boolean =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+
+// Records created before workspaces existed belong to their owner's personal workspace
+export const workspaceOf = (record: { workspaceId?: string; ownerId?: string }): string | undefined =>
+  record.workspaceId || record.ownerId;
+
+const reviveWorkspace = (workspace: Workspace): Workspace => ({
+  ...workspace,
+  members: workspace.members.map(member => ({ ...member, addedAt: new Date(member.addedAt) })),
+  createdAt: new Date(workspace.createdAt),
+  updatedAt: new Date(workspace.updatedAt)
+});
+
+export class WorkspaceService {
+  private workspaces = new JsonFileStore<Workspace>('workspaces', reviveWorkspace);
+  private authService = new AuthService();
+
+  // Created on first use, so accounts from before workspaces existed get one too
+  ensurePersonalWorkspace(user: PublicUser): Workspace {
+    const existing = this.workspaces.get(user.id);
+    if (existing) return existing;
+
+    const now = new Date();
+    return this.workspaces.put({
+      id: user.id,
+      name: 'Personal',
+      personal: true,
+      members: [{ userId: user.id, role: 'owner', addedAt: now }],
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  getWorkspace(id: string): Workspace | undefined {
+    return this.workspaces.get(id);
+  }
+
+  getRole(workspaceId: string, userId: string): WorkspaceRole | undefined {
+    return this.workspaces.get(workspaceId)?.members.find(member => member.userId === userId)?.role;
+  }
+
+  // The user's workspaces, personal first and then by name
+  listWorkspaces(userId: string): (Workspace & { role: WorkspaceRole })[] {
+    return this.workspaces.find(workspace => workspace.members.some(member => member.userId === userId))
+      .map(workspace => ({ ...workspace, role: workspace.members.find(member => member.userId === userId)!.role }))
+      .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+  }
+
+  createWorkspace(ownerId: string, name: string): Workspace {
+    const now = new Date();
+    return this.workspaces.put({
+      id: uuidv4(),
+      name,
+      personal: false,
+      members: [{ userId: ownerId, role: 'owner', addedAt: now }],
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  renameWorkspace(id: string, name: string): Workspace {
+    const workspace = this.requireWorkspace(id);
+    return this.workspaces.put({ ...workspace, name, updatedAt: new Date() });
+  }
+
+  // Members with their account's email and name, for the members list
+  describeMembers(workspace: Workspace): WorkspaceMemberDetails[] {
+    return workspace.members.map(member => {
+      const user = this.authService.getUser(member.userId);
+      return { ...member, email: user?.email || '', name: user?.name || 'Deleted user' };
+    });
+  }
+
+  addMember(id: string, email: string, role: WorkspaceRole): Workspace {
+    const workspace = this.requireWorkspace(id);
+    if (workspace.personal) {
+      throw new WorkspaceError('Personal workspaces cannot be shared; create a workspace for your team instead', 400);
+    }
+    const user = this.authService.findUserByEmail(email);
+    if (!user) {
+      throw new WorkspaceError('No account uses this email', 404, 'The person has to sign up before they can be added');
+    }
+    if (workspace.members.some(member => member.userId === user.id)) {
+      throw new WorkspaceError('This user is already a member', 409);
+    }
+
+    return this.workspaces.put({
+      ...workspace,
+      members: [...workspace.members, { userId: user.id, role, addedAt: new Date() }],
+      updatedAt: new Date()
+    });
+  }
+
+  changeRole(id: string, userId: string, role: WorkspaceRole): Workspace {
+    const workspace = this.requireWorkspace(id);
+    this.requireMember(workspace, userId);
+    const members = workspace.members.map(member => member.userId === userId ? { ...member, role } : member);
+    this.ensureOwnerRemains(members);
+
+    return this.workspaces.put({ ...workspace, members, updatedAt: new Date() });
+  }
+
+  removeMember(id: string, userId: string): Workspace {
+    const workspace = this.requireWorkspace(id);
+    this.requireMember(workspace, userId);
+    const members = workspace.members.filter(member => member.userId !== userId);
+    this.ensureOwnerRemains(members);
+
+    return this.workspaces.put({ ...workspace, members, updatedAt: new Date() });
+  }
+
+  private requireWorkspace(id: string): Workspace {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) {
+      throw new WorkspaceError('Workspace not found', 404);
+    }
+    return workspace;
+  }
+
+  private requireMember(workspace: Workspace, userId: string) {
+    if (!workspace.members.some(member => member.userId === userId)) {
+      throw new WorkspaceError('Member not found', 404);
+    }
+  }
+
+  // A workspace without an owner could never get new members again
+  private ensureOwnerRemains(members: WorkspaceMember[]) {
+    if (!members.some(member => member.role === 'owner')) {
+      throw new WorkspaceError('A workspace needs at least one owner', 409);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisJob, AnalysisJobInput, AnalysisJobService } from '../src/services/analysisJobService.js';
+import { AnalysisSessionService } from '../src/services/analysisSessionService.js';
+import { FileProcessingService } from '../src/services/fileProcessingService.js';
+import { JsonFileStore } from '../src/services/jsonFileStore.js';
+
+const input: AnalysisJobInput = { ownerId: 'owner', workspaceId: 'workspace', query: 'Revenue by region', datasetId: 'missing', aiModel: 'openai', outputFormat: 'png' };
+
+// A finished job as it would have been stored eight days ago
+const storeOldJob = (changes: Partial<AnalysisJob> = {}): AnalysisJob => {
+  const then = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+  return new JsonFileStore<AnalysisJob>('analysis-jobs').put({ ...input, id: uuidv4(), status: 'failed', createdAt: then, updatedAt: then, ...changes });
+};
+
+describe('AnalysisJobService', () => {
+  it('fails a job whose dataset does not exist', async () => {
+    const analysisJobService = new AnalysisJobService();
+    const submitted = analysisJobService.submit(input);
+
+    const finished = await analysisJobService.waitFor(submitted.id);
+    expect(finished).toMatchObject({ status: 'failed', errorCode: 'DATASET_NOT_FOUND' });
+    expect(finished.startedAt).toBeInstanceOf(Date);
+    expect(finished.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('queues jobs beyond PYTHON_MAX_WORKERS and lets queued jobs be cancelled', async () => {
+    const analysisJobService = new AnalysisJobService();
+    // The default limit is two workers
+    const [first, second, third] = [1, 2, 3].map(() => analysisJobService.submit(input));
+
+    expect(analysisJobService.getJob(first.id)!.status).toBe('generating');
+    expect(analysisJobService.getJob(second.id)!.status).toBe('generating');
+    expect(analysisJobService.getJob(third.id)!.status).toBe('queued');
+
+    expect(analysisJobService.cancel(third.id)).toMatchObject({ status: 'cancelled', errorCode: 'CANCELLED' });
+    await Promise.all([analysisJobService.waitFor(first.id), analysisJobService.waitFor(second.id)]);
+    expect(analysisJobService.getJob(third.id)!.startedAt).toBeUndefined();
+    expect(analysisJobService.listJobs('workspace', 'cancelled').map(job => job.id)).toContain(third.id);
+    expect(analysisJobService.listJobs('someone-else')).toEqual([]);
+  });
+
+  it('leaves finished jobs unchanged when they are cancelled', async () => {
+    const analysisJobService = new AnalysisJobService();
+    const { id } = analysisJobService.submit(input);
+    await analysisJobService.waitFor(id);
+
+    expect(analysisJobService.cancel(id)!.status).toBe('failed');
+    expect(analysisJobService.cancel('unknown')).toBeUndefined();
+  });
+
+  it('runs work outside analyses within PYTHON_MAX_WORKERS', async () => {
+    const analysisJobService = new AnalysisJobService();
+    let active = 0;
+    let mostActive = 0;
+
+    const work = (value: number) => analysisJobService.runWithWorker(async () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+      return value;
+    });
+
+    expect(await Promise.all([1, 2, 3, 4, 5].map(work))).toEqual([1, 2, 3, 4, 5]);
+    expect(mostActive).toBe(2);
+  });
+
+  it('passes a failure of work outside analyses back and frees the worker', async () => {
+    const analysisJobService = new AnalysisJobService();
+
+    await expect(analysisJobService.runWithWorker(async () => {
+      throw new Error('sandbox failed');
+    })).rejects.toThrow('sandbox failed');
+    expect(await analysisJobService.runWithWorker(async () => 'next')).toBe('next');
+  });
+
+  it('records where the chart was saved but not its contents', async () => {
+    const filename = `${uuidv4()}-${Date.now()}.csv`;
+    writeFileSync(join('uploads', filename), 'region,revenue\nNorth,10\nSouth,5\n');
+    const { datasetInfo } = await new FileProcessingService().processUploadedFile({ filename, originalname: 'sales.csv', size: 30 } as Express.Multer.File);
+
+    const analysisJobService = new AnalysisJobService();
+    const { id } = analysisJobService.submit({ ...input, datasetId: datasetInfo!.id, aiModel: 'mock', outputFormat: 'chart-spec' });
+    const finished = await analysisJobService.waitFor(id);
+
+    expect(finished.status).toBe('done');
+    expect(finished.result!.chart).toEqual({ path: expect.stringMatching(/\.json$/), format: 'chart-spec' });
+  });
+
+  it('drops expired finished jobs unless a session turn still shows them', async () => {
+    const sessionService = new AnalysisSessionService();
+    const session = sessionService.createSession('owner', 'workspace', 'missing');
+    const turn = sessionService.addTurn(session.id, 'Revenue by region')!;
+    const expired = storeOldJob();
+    const shown = storeOldJob({ sessionId: session.id, turnId: turn.id });
+    sessionService.setTurnJob(session.id, turn.id, shown.id);
+
+    const analysisJobService = new AnalysisJobService();
+    await analysisJobService.waitFor(analysisJobService.submit(input).id);
+    expect(analysisJobService.getJob(expired.id)).toBeUndefined();
+    expect(analysisJobService.getJob(shown.id)).toBeDefined();
+  });
+});
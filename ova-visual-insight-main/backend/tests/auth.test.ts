@@ -0,0 +1,133 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { authRoutes } from '../src/controllers/authController.js';
+import { workspaceRoutes } from '../src/controllers/workspaceController.js';
+import { dashboardRoutes } from '../src/controllers/dashboardController.js';
+import { requireAuth } from '../src/middleware/auth.js';
+import { requireWorkspace, WORKSPACE_HEADER } from '../src/middleware/workspace.js';
+
+// The routes under test mounted the way app.ts mounts them
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/dashboards', requireAuth, requireWorkspace, dashboardRoutes);
+app.use('/api/workspaces', requireAuth, workspaceRoutes);
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(done => {
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+const call = async (method: string, path: string, options: { token?: string; workspaceId?: string; body?: unknown } = {}) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.workspaceId) headers[WORKSPACE_HEADER] = options.workspaceId;
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const signup = async (email: string) => {
+  const { status, body } = await call('POST', '/api/auth/signup', { body: { email, password: 'password123' } });
+  expect(status).toBe(201);
+  return body.accessToken as string;
+};
+
+describe('authentication', () => {
+  it('signs up, logs in and exchanges a refresh token once', async () => {
+    await signup('dana@example.com');
+
+    const login = await call('POST', '/api/auth/login', { body: { email: 'Dana@Example.com', password: 'password123' } });
+    expect(login.status).toBe(200);
+    expect(login.body.user.email).toBe('dana@example.com');
+    expect(login.body.user.passwordHash).toBeUndefined();
+
+    const me = await call('GET', '/api/auth/me', { token: login.body.accessToken });
+    expect(me.status).toBe(200);
+
+    const refreshed = await call('POST', '/api/auth/refresh', { body: { refreshToken: login.body.refreshToken } });
+    expect(refreshed.status).toBe(200);
+    const replayed = await call('POST', '/api/auth/refresh', { body: { refreshToken: login.body.refreshToken } });
+    expect(replayed.status).toBe(401);
+  });
+
+  it('rejects a wrong password and a duplicate account', async () => {
+    await signup('erin@example.com');
+
+    expect((await call('POST', '/api/auth/login', { body: { email: 'erin@example.com', password: 'wrong-password' } })).status).toBe(401);
+    expect((await call('POST', '/api/auth/signup', { body: { email: 'erin@example.com', password: 'password123' } })).status).toBe(409);
+  });
+
+  it('answers 401 without a token or with a refresh token in place of an access token', async () => {
+    expect((await call('GET', '/api/dashboards')).status).toBe(401);
+    expect((await call('GET', '/api/dashboards', { token: 'not-a-token' })).status).toBe(401);
+
+    const login = await call('POST', '/api/auth/login', { body: { email: 'dana@example.com', password: 'password123' } });
+    expect((await call('GET', '/api/dashboards', { token: login.body.refreshToken })).status).toBe(401);
+  });
+});
+
+describe('workspace roles', () => {
+  let ownerToken: string;
+  let editorToken: string;
+  let viewerToken: string;
+  let outsiderToken: string;
+  let workspaceId: string;
+  let dashboardId: string;
+
+  beforeAll(async () => {
+    ownerToken = await signup('owner@example.com');
+    editorToken = await signup('editor@example.com');
+    viewerToken = await signup('viewer@example.com');
+    outsiderToken = await signup('outsider@example.com');
+
+    const created = await call('POST', '/api/workspaces', { token: ownerToken, body: { name: 'Sales' } });
+    workspaceId = created.body.workspace.id;
+    await call('POST', `/api/workspaces/${workspaceId}/members`, { token: ownerToken, body: { email: 'editor@example.com', role: 'editor' } });
+    await call('POST', `/api/workspaces/${workspaceId}/members`, { token: ownerToken, body: { email: 'viewer@example.com', role: 'viewer' } });
+
+    const dashboard = await call('POST', '/api/dashboards', { token: ownerToken, workspaceId, body: { name: 'Weekly' } });
+    dashboardId = dashboard.body.dashboard.id;
+  });
+
+  it('lets viewers read but not change anything', async () => {
+    expect((await call('GET', `/api/dashboards/${dashboardId}`, { token: viewerToken, workspaceId })).status).toBe(200);
+    expect((await call('POST', '/api/dashboards', { token: viewerToken, workspaceId, body: { name: 'Mine' } })).status).toBe(403);
+    expect((await call('PATCH', `/api/dashboards/${dashboardId}`, { token: viewerToken, workspaceId, body: { name: 'Renamed' } })).status).toBe(403);
+    expect((await call('DELETE', `/api/dashboards/${dashboardId}`, { token: viewerToken, workspaceId })).status).toBe(403);
+  });
+
+  it('lets editors change records but not members', async () => {
+    expect((await call('PATCH', `/api/dashboards/${dashboardId}`, { token: editorToken, workspaceId, body: { name: 'Renamed' } })).status).toBe(200);
+    const added = await call('POST', `/api/workspaces/${workspaceId}/members`, { token: editorToken, body: { email: 'outsider@example.com', role: 'viewer' } });
+    expect(added.status).toBe(403);
+  });
+
+  it('hides the workspace and its records from non-members', async () => {
+    expect((await call('GET', '/api/dashboards', { token: outsiderToken, workspaceId })).status).toBe(404);
+    // Without the header the outsider works in their personal workspace, which does not hold the dashboard
+    expect((await call('GET', `/api/dashboards/${dashboardId}`, { token: outsiderToken })).status).toBe(404);
+    expect((await call('DELETE', `/api/dashboards/${dashboardId}`, { token: outsiderToken })).status).toBe(404);
+  });
+
+  it('keeps at least one owner', async () => {
+    const owner = await call('GET', `/api/workspaces/${workspaceId}`, { token: ownerToken });
+    const ownerId = owner.body.workspace.members.find((member: { role: string }) => member.role === 'owner').userId;
+
+    expect((await call('PATCH', `/api/workspaces/${workspaceId}/members/${ownerId}`, { token: ownerToken, body: { role: 'viewer' } })).status).toBe(409);
+  });
+});
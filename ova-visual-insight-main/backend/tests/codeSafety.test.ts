@@ -0,0 +1,61 @@
+import { CodeSafetyService, SafetyRule } from '../src/services/codeSafetyService.js';
+
+const codeSafetyService = new CodeSafetyService();
+
+const rulesOf = async (code: string): Promise<SafetyRule[]> =>
+  (await codeSafetyService.analyze(code)).findings.filter(finding => finding.severity === 'error').map(finding => finding.rule);
+
+describe('CodeSafetyService', () => {
+  it('passes ordinary analysis code', async () => {
+    const report = await codeSafetyService.analyze([
+      'import pandas as pd',
+      'import matplotlib.pyplot as plt',
+      'totals = df.groupby("region")["revenue"].sum()',
+      'totals.plot(kind="bar")',
+      'plt.savefig("chart.png")'
+    ].join('\n'));
+
+    expect(report).toEqual({ safe: true, findings: [] });
+  });
+
+  it('rejects modules outside the allowlist and relative imports', async () => {
+    expect(await rulesOf('import os')).toEqual(['disallowed-import']);
+    expect(await rulesOf('from subprocess import run')).toEqual(['disallowed-import']);
+    expect(await rulesOf('import os.path as p')).toEqual(['disallowed-import']);
+    expect(await rulesOf('from . import secrets')).toEqual(['disallowed-import']);
+  });
+
+  it('rejects dangerous builtins and dunder lookups', async () => {
+    expect(await rulesOf('eval("1 + 1")')).toEqual(['dangerous-builtin']);
+    expect(await rulesOf('().__class__.__bases__')).toEqual(['dunder-access', 'dunder-access']);
+    expect(await rulesOf('getattr(df, "__globals__")')).toEqual(['dunder-access']);
+  });
+
+  it('rejects blocked modules reached through an allowed one', async () => {
+    expect(await rulesOf('import matplotlib\nmatplotlib.os.system("ls")')).toEqual(['module-access']);
+    expect(await rulesOf('from pandas.io import common\ncommon.os.system("id")')).toEqual(['module-access']);
+    expect(await rulesOf('import numpy as np\nnp.sys.modules')).toEqual(['module-access']);
+    expect(await rulesOf('df.signal.mean()')).toEqual([]);
+  });
+
+  it('treats getattr like dot access and rejects computed attribute names', async () => {
+    expect(await rulesOf('import pandas as pd\ngetattr(pd.io.common, "os").system("id")')).toEqual(['module-access']);
+    expect(await rulesOf('import numpy as np\ngetattr(np, "o" + "s")')).toEqual(['dynamic-attribute']);
+    expect(await rulesOf('getattr(df, "mean")()')).toEqual([]);
+  });
+
+  it('rejects file access outside the sandbox directory', async () => {
+    expect(await rulesOf('open("/etc/passwd")')).toEqual(['file-access']);
+    expect(await rulesOf('df.to_csv("../leak.csv")')).toEqual(['file-access']);
+    expect(await rulesOf('df.to_csv("summary.csv")')).toEqual([]);
+    expect(await rulesOf('p = "/etc/passwd"\npd.read_csv(p)')).toEqual(['file-access']);
+    expect(await rulesOf('df.to_excel(excel_writer=name)')).toEqual(['file-access']);
+    expect(await rulesOf('df["day"] = pd.to_datetime(df["day"])')).toEqual([]);
+  });
+
+  it('reports code that does not parse', async () => {
+    const report = await codeSafetyService.analyze('def broken(:\n  pass');
+    expect(report.safe).toBe(false);
+    expect(report.findings[0]).toMatchObject({ rule: 'syntax-error', line: 1 });
+  });
+});
@@ -0,0 +1,98 @@
+import { writeFileSync } from 'fs';
+import { CsvParser, detectCsvFormat, detectDelimiter, detectEncoding, readCsvRows } from '../src/services/csvParser.js';
+
+const utf16be = (text: string) => {
+  const buffer = Buffer.from(text, 'utf16le');
+  return buffer.swap16();
+};
+
+describe('CsvParser', () => {
+  it('handles quoted delimiters, escaped quotes and line breaks inside fields', () => {
+    const parser = new CsvParser(',');
+    const rows = [...parser.push('name,note\n"Smith, J","said ""hi""\nthen left"\n'), ...parser.end()];
+
+    expect(rows).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left']
+    ]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    const parser = new CsvParser(',');
+    expect([...parser.push('a,b\r\n1,2\n3,4\r5,6'), ...parser.end()]).toEqual([
+      ['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']
+    ]);
+  });
+
+  it('completes rows split across chunks, including a CR LF pair', () => {
+    const parser = new CsvParser(';');
+    const rows = [
+      ...parser.push('a;"b'),
+      ...parser.push('c";d\r'),
+      ...parser.push('\n1;2;3'),
+      ...parser.end()
+    ];
+    expect(rows).toEqual([['a', 'bc', 'd'], ['1', '2', '3']]);
+  });
+});
+
+describe('detectEncoding', () => {
+  it('recognizes byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes UTF-16 without a BOM from its zero bytes', () => {
+    expect(detectEncoding(Buffer.from('city,population\nOslo,709000\n', 'utf16le'))).toBe('utf-16le');
+    expect(detectEncoding(utf16be('city,population\nOslo,709000\n'))).toBe('utf-16be');
+  });
+
+  it('tells UTF-8 from Windows-1252', () => {
+    expect(detectEncoding(Buffer.from('city\nZürich\n', 'utf-8'))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from('city\nZürich\n', 'latin1'))).toBe('windows-1252');
+  });
+
+  it('ignores a multi-byte character cut off at the end of the sample', () => {
+    const sample = Buffer.from('city\nZürich', 'utf-8');
+    expect(detectEncoding(sample.subarray(0, sample.indexOf(0xc3) + 1))).toBe('utf-8');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits every row the same way', () => {
+    expect(detectDelimiter('a;b;c\n1;2,5;3\n4;5;6\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+  });
+
+  it('falls back to a comma for single-column files', () => {
+    expect(detectDelimiter('name\nAda\nGrace\n')).toBe(',');
+  });
+});
+
+describe('reading a file', () => {
+  it('detects a semicolon-separated Windows-1252 file and decodes its rows', async () => {
+    writeFileSync('prices.csv', Buffer.from('product;price\r\nCrème brûlée;4,50\r\n', 'latin1'));
+
+    const format = await detectCsvFormat('prices.csv');
+    expect(format).toEqual({ encoding: 'windows-1252', delimiter: ';' });
+
+    const rows: string[][] = [];
+    for await (const row of readCsvRows('prices.csv', format)) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([['product', 'price'], ['Crème brûlée', '4,50']]);
+  });
+
+  it('strips the BOM of a UTF-16 file', async () => {
+    writeFileSync('cities.csv', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('city,country\nKöln,DE\n', 'utf16le')]));
+
+    const format = await detectCsvFormat('cities.csv');
+    const rows: string[][] = [];
+    for await (const row of readCsvRows('cities.csv', format)) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([['city', 'country'], ['Köln', 'DE']]);
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisHistoryService } from '../src/services/analysisHistoryService.js';
+import { AnalysisJob } from '../src/services/analysisJobService.js';
+import { ChartData } from '../src/services/chartSpec.js';
+import { DashboardService } from '../src/services/dashboardService.js';
+import { DatasetInfo, FileProcessingService } from '../src/services/fileProcessingService.js';
+
+const fileProcessingService = new FileProcessingService();
+const historyService = new AnalysisHistoryService();
+const dashboardService = new DashboardService();
+
+// Multer stores uploads in ./uploads as `${uuid}-${timestamp}${ext}` before the service sees them
+const upload = async (content: string, replaces?: DatasetInfo): Promise<DatasetInfo> => {
+  const filename = `${uuidv4()}-${Date.now()}.csv`;
+  writeFileSync(join('uploads', filename), content);
+  const file = { filename, originalname: 'sales.csv', size: Buffer.byteLength(content), mimetype: 'text/csv' } as Express.Multer.File;
+  const result = await fileProcessingService.processUploadedFile(file, { ownerId: 'owner', workspaceId: 'workspace', replaces });
+  expect(result.error).toBeUndefined();
+  return result.datasetInfo!;
+};
+
+describe('dataset versions', () => {
+  it('adds re-uploads to the lineage of the first upload', async () => {
+    const first = await upload('region,revenue\nNorth,10\n');
+    await fileProcessingService.updateDatasetMetadata(first.id, { displayName: 'Sales', tags: ['finance'] });
+
+    const second = await upload('region,revenue\nNorth,20\n', (await fileProcessingService.getDatasetInfo(first.id))!);
+    const third = await upload('region,revenue\nNorth,30\n', second);
+    expect(second).toMatchObject({ lineageId: first.id, version: 2, displayName: 'Sales', tags: ['finance'] });
+    expect(third).toMatchObject({ lineageId: first.id, version: 3 });
+
+    expect((await fileProcessingService.getLatestVersion(first.id))!.id).toBe(third.id);
+    await fileProcessingService.deleteDataset(first.id);
+    expect((await fileProcessingService.getLatestVersion(first.id))!.id).toBe(third.id);
+  });
+
+  it('refreshes a dashboard tile from the newest version of its dataset', async () => {
+    const first = await upload('region,revenue\nNorth,10\nSouth,5\n');
+    const analysis = await historyService.record({
+      id: uuidv4(),
+      ownerId: 'owner',
+      workspaceId: 'workspace',
+      query: 'Revenue by region',
+      datasetId: first.id,
+      aiModel: 'mock',
+      outputFormat: 'chart-spec',
+      status: 'done',
+      result: {
+        analysis: {
+          chartSpec: { type: 'bar', title: 'Revenue', x: { field: 'region' }, y: { field: 'revenue', aggregate: 'sum' } },
+          timestamp: new Date()
+        }
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as AnalysisJob);
+    const dashboard = dashboardService.createDashboard('owner', 'workspace', 'Sales');
+    const { tile } = await dashboardService.pinAnalysis(dashboard.id, analysis!.id);
+    expect(tile).toMatchObject({ datasetId: first.id, lineageId: first.id });
+
+    const second = await upload('region,revenue\nNorth,40\nSouth,5\nWest,7\n', first);
+    const refreshed = await dashboardService.refreshTile(dashboard.id, tile.id);
+    expect(refreshed.error).toBeUndefined();
+    expect(refreshed.datasetId).toBe(second.id);
+    const chart = JSON.parse(readFileSync(refreshed.chart!.path, 'utf-8')) as ChartData;
+    expect(chart.sourceRows).toBe(3);
+  });
+});
@@ -0,0 +1,32 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatasetProfile } from '../src/services/datasetProfiler.js';
+import { FileProcessingService } from '../src/services/fileProcessingService.js';
+import { JsonFileStore } from '../src/services/jsonFileStore.js';
+
+describe('FileProcessingService', () => {
+  it('reads the format of entries catalogued without one from their file extension', async () => {
+    // Written before the catalog is first loaded, as an older version of the server left it
+    const id = uuidv4();
+    mkdirSync('data', { recursive: true });
+    writeFileSync(join('data', 'datasets.json'), JSON.stringify([
+      { id, filename: `${id}-1700000000000.ndjson`, originalName: 'events.ndjson', columns: [], dataTypes: {}, columnTypes: {}, rowCount: 0, sampleData: [], filePath: '', uploadTime: new Date(), fileSize: 0 }
+    ]));
+
+    const fileProcessingService = new FileProcessingService();
+    expect((await fileProcessingService.getDatasetInfo(id))!.format).toBe('ndjson');
+  });
+
+  it('removes the cached profile of an expired dataset', async () => {
+    const fileProcessingService = new FileProcessingService();
+    const filename = `${uuidv4()}-${Date.now()}.csv`;
+    writeFileSync(join('uploads', filename), 'region,revenue\nNorth,10\nSouth,5\n');
+    const { datasetInfo } = await fileProcessingService.processUploadedFile({ filename, originalname: 'sales.csv', size: 30 } as Express.Multer.File);
+    await fileProcessingService.getDatasetProfile(datasetInfo!.id);
+
+    await fileProcessingService.cleanupOldFiles(-1);
+    expect(await fileProcessingService.getDatasetInfo(datasetInfo!.id)).toBeNull();
+    expect(new JsonFileStore<DatasetProfile>('profiles').get(datasetInfo!.id)).toBeUndefined();
+  });
+});
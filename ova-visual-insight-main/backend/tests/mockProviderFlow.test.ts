@@ -0,0 +1,74 @@
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { AIService } from '../src/services/aiService.js';
+import { CodeSafetyService } from '../src/services/codeSafetyService.js';
+import { FileProcessingService } from '../src/services/fileProcessingService.js';
+import { PythonSandboxService } from '../src/services/pythonSandboxService.js';
+
+// Multer stores uploads in ./uploads as `${uuid}-${timestamp}${ext}` before the service sees them
+const upload = (originalname: string, content: string): Express.Multer.File => {
+  const filename = `6f1c2a9e-0d3b-4c1e-9a57-3b2d8e4f1a60-${Date.now()}.csv`;
+  writeFileSync(join('uploads', filename), content);
+  return { filename, originalname, size: Buffer.byteLength(content), mimetype: 'text/csv' } as Express.Multer.File;
+};
+
+describe('analysis with the mock provider', () => {
+  const fileProcessingService = new FileProcessingService();
+  const aiService = new AIService();
+  const codeSafetyService = new CodeSafetyService();
+  const pythonSandboxService = new PythonSandboxService();
+
+  it('is offered when LLM_MOCK is set', () => {
+    expect(aiService.hasModel('mock')).toBe(true);
+  });
+
+  it('turns a question into safe code that draws a chart', async () => {
+    const rows = ['month,region,revenue', ...['2024-01-01', '2024-02-01', '2024-03-01'].flatMap((month, index) => [
+      `${month},North,${1200 + index * 150}`,
+      `${month},South,${900 + index * 80}`
+    ])];
+    const { success, datasetInfo } = await fileProcessingService.processUploadedFile(upload('sales.csv', rows.join('\n')));
+    expect(success).toBe(true);
+
+    const tokens: string[] = [];
+    const response = await aiService.analyzeData({
+      query: 'Show revenue by region as a bar chart',
+      datasetInfo: datasetInfo!,
+      model: 'mock',
+      onToken: text => tokens.push(text)
+    });
+    expect(response.visualizationType).toMatch(/bar/);
+    expect(response.pythonCode).toContain('revenue');
+    expect(tokens.length).toBeGreaterThan(1);
+
+    const report = await codeSafetyService.analyze(response.pythonCode);
+    expect(report).toEqual({ safe: true, findings: [] });
+
+    const result = await pythonSandboxService.executePythonCode({
+      pythonCode: response.pythonCode,
+      dataset: datasetInfo!,
+      outputFormat: 'png'
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.chartPath).toMatch(/\.png$/);
+  });
+
+  it('answers repair requests with code that runs on any dataset', async () => {
+    const { datasetInfo } = await fileProcessingService.processUploadedFile(upload('people.csv', 'name,age\nAda,36\nGrace,45\n'));
+
+    const repair = await aiService.repairCode({
+      query: 'Plot age',
+      datasetInfo: datasetInfo!,
+      model: 'mock',
+      pythonCode: 'df.plot(x="missing")',
+      error: "KeyError: 'missing'"
+    });
+    const result = await pythonSandboxService.executePythonCode({
+      pythonCode: repair.pythonCode,
+      dataset: datasetInfo!,
+      outputFormat: 'svg'
+    });
+    expect(result.success).toBe(true);
+  });
+});
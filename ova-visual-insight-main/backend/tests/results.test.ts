@@ -0,0 +1,74 @@
+import express from 'express';
+import { mkdirSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { resultsRoutes } from '../src/controllers/resultsController.js';
+import { requireAuth } from '../src/middleware/auth.js';
+import { requireWorkspace } from '../src/middleware/workspace.js';
+import { AuthService } from '../src/services/authService.js';
+import { ChartOwnershipService } from '../src/services/chartOwnershipService.js';
+
+const app = express();
+app.use('/api/results', requireAuth, requireWorkspace, resultsRoutes);
+
+const authService = new AuthService();
+const chartOwnershipService = new ChartOwnershipService();
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(done => {
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+// Writes a chart file to ./output and records it in the user's personal workspace
+const saveChart = (filename: string, userId: string) => {
+  mkdirSync('output', { recursive: true });
+  writeFileSync(join('output', filename), filename.endsWith('.json') ? '{}' : 'chart');
+  chartOwnershipService.claim(filename, userId, userId);
+};
+
+const call = async (method: string, path: string, token: string) => {
+  const response = await fetch(`${baseUrl}${path}`, { method, headers: { Authorization: `Bearer ${token}` } });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('results routes', () => {
+  it('lists the workspace charts, JSON charts included', async () => {
+    const { user, accessToken } = await authService.signup('lee@example.com', 'password123');
+    const other = await authService.signup('kim@example.com', 'password123');
+    saveChart('a.png', user.id);
+    saveChart('b.vl.json', user.id);
+    saveChart('c.png', other.user.id);
+
+    const { status, body } = await call('GET', '/api/results/charts', accessToken);
+    expect(status).toBe(200);
+    expect(body.charts.map((chart: { filename: string }) => chart.filename).sort()).toEqual(['a.png', 'b.vl.json']);
+  });
+
+  it('reports the content type of a JSON chart', async () => {
+    const { user, accessToken } = await authService.signup('sam@example.com', 'password123');
+    saveChart('spec.json', user.id);
+
+    const { body } = await call('GET', '/api/results/charts/spec.json/metadata', accessToken);
+    expect(body.metadata.contentType).toBe('application/json');
+  });
+
+  it('deletes a chart and forgets its owner', async () => {
+    const { user, accessToken } = await authService.signup('ali@example.com', 'password123');
+    saveChart('d.svg', user.id);
+
+    expect((await call('DELETE', '/api/results/charts/d.svg', accessToken)).status).toBe(200);
+    expect(existsSync(join('output', 'd.svg'))).toBe(false);
+    expect(chartOwnershipService.getOwner('d.svg')).toBeUndefined();
+    expect((await call('DELETE', '/api/results/charts/d.svg', accessToken)).status).toBe(404);
+  });
+});
@@ -0,0 +1,11 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Services keep their stores, uploads and charts under the working directory; each test file gets an empty one
+process.chdir(mkdtempSync(join(tmpdir(), 'ova-test-')));
+
+process.env.LLM_MOCK = 'true';
+// bubblewrap is not available everywhere the tests run
+process.env.PYTHON_SANDBOX = 'none';
+process.env.JWT_SECRET = 'test-secret';
@@ -0,0 +1,52 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import LoginForm from '@/components/auth/LoginForm';
+import { AuthContext, AuthUser } from '@/hooks/use-auth';
+import { apiFetch, onSessionExpired } from '@/lib/api';
+
+interface AuthGateProps {
+  children: ReactNode;
+}
+
+// Shows the sign-in form until there is a session; undefined while the existing session is being checked
+const AuthGate = ({ children }: AuthGateProps) => {
+  const [user, setUser] = useState<AuthUser | null | undefined>(undefined);
+
+  useEffect(() => {
+    apiFetch('http://localhost:3001/api/auth/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => setUser(result?.user ?? null))
+      .catch(() => setUser(null));
+
+    return onSessionExpired(() => setUser(null));
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiFetch('http://localhost:3001/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    setUser(null);
+  }, []);
+
+  if (user === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginForm onAuthenticated={setUser} />;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthGate;
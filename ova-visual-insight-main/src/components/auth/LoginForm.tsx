@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api';
+import { AuthUser } from '@/hooks/use-auth';
+
+interface LoginFormProps {
+  onAuthenticated: (user: AuthUser) => void;
+}
+
+type Mode = 'login' | 'signup';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const LoginForm = ({ onAuthenticated }: LoginFormProps) => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/auth/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'signup' ? { name, email, password } : { email, password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Authentication failed');
+      }
+      onAuthenticated(result.user);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'signup' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>{mode === 'login' ? 'Sign in to O.V.A' : 'Create an account'}</CardTitle>
+          <CardDescription>
+            {mode === 'login'
+              ? 'Your datasets, analyses and dashboards are private to your account.'
+              : `Choose a password of at least ${MIN_PASSWORD_LENGTH} characters.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            {mode === 'signup' && (
+              <div className="space-y-2">
+                <Label htmlFor="auth-name">Name</Label>
+                <Input id="auth-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} autoComplete="name" />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="auth-email">Email</Label>
+              <Input id="auth-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required autoComplete="email" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={mode === 'signup' ? MIN_PASSWORD_LENGTH : undefined}
+                autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {mode === 'login' ? 'Sign in' : 'Sign up'}
+            </Button>
+          </form>
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            {mode === 'login' ? 'No account yet?' : 'Already have an account?'}{' '}
+            <button type="button" className="text-primary hover:underline" onClick={switchMode}>
+              {mode === 'login' ? 'Sign up' : 'Sign in'}
+            </button>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { GripVertical, RefreshCw, X, AlertTriangle } from 'lucide-react';
+import SpecChart, { ChartSpecData } from '@/components/home/SpecChart';
+import { apiFetch } from '@/lib/api';
+
+export interface DashboardTile {
+  id: string;
+  analysisId: string;
+  title: string;
+  query: string;
+  datasetName: string;
+  format: 'png' | 'jpg' | 'svg' | 'chart-spec';
+  chart?: { path: string; format: string };
+  // Set on shared dashboards, whose charts are served through the share link
+  chartUrl?: string;
+  refreshedAt?: string;
+  error?: string;
+}
+
+// Without handlers the tile is read-only, as for viewers and on shared dashboards
+interface DashboardTileCardProps {
+  tile: DashboardTile;
+  refreshing?: boolean;
+  onRefresh?: () => void;
+  onRemove?: () => void;
+  // The tile is moved by dragging its header onto another tile or below the grid
+  onDragStart?: () => void;
+  onDrop?: () => void;
+}
+
+const chartUrl = (chart: NonNullable<DashboardTile['chart']>, sharedUrl?: string) =>
+  sharedUrl
+    ? `http://localhost:3001${sharedUrl}`
+    : `http://localhost:3001/api/results/charts/${chart.path.split('/').pop()}`;
+
+const DashboardTileCard = ({ tile, refreshing = false, onRefresh, onRemove, onDragStart, onDrop }: DashboardTileCardProps) => {
+  const [specData, setSpecData] = useState<ChartSpecData | null>(null);
+
+  // Native charts are stored as their evaluated data; every refresh writes a new file
+  useEffect(() => {
+    setSpecData(null);
+    if (tile.format !== 'chart-spec' || !tile.chart) return;
+
+    let cancelled = false;
+    apiFetch(chartUrl(tile.chart, tile.chartUrl))
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data) setSpecData(data);
+      })
+      .catch(error => console.error('Failed to load tile chart:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tile.format, tile.chart, tile.chartUrl]);
+
+  return (
+    <div
+      className="flex h-full flex-col rounded-lg border bg-card"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop?.();
+      }}
+    >
+      <div
+        className={`flex items-center gap-2 border-b px-3 py-2 ${onDragStart ? 'cursor-move' : ''}`}
+        draggable={!!onDragStart}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          onDragStart?.();
+        }}
+      >
+        {onDragStart && <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium truncate" title={tile.query}>{tile.title}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {tile.datasetName}
+            {tile.refreshedAt && ` • updated ${new Date(tile.refreshedAt).toLocaleString()}`}
+          </p>
+        </div>
+        {onRefresh && (
+          <Button variant="ghost" size="icon" aria-label="Refresh tile" onClick={onRefresh} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        )}
+        {onRemove && (
+          <Button variant="ghost" size="icon" aria-label="Remove tile" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {tile.error && (
+        <p className="flex items-center gap-2 px-3 py-1 text-xs text-destructive border-b">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span className="truncate" title={tile.error}>Last refresh failed: {tile.error}</span>
+        </p>
+      )}
+      <div className="min-h-0 flex-1 overflow-auto p-3">
+        {!tile.chart ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No chart yet. Refresh the tile to draw it.</p>
+        ) : tile.format === 'chart-spec' ? (
+          specData && <SpecChart data={specData} />
+        ) : (
+          <img src={chartUrl(tile.chart, tile.chartUrl)} alt={tile.title} className="mx-auto h-full w-full object-contain" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardTileCard;
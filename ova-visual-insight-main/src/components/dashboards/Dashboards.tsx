@@ -0,0 +1,440 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { LayoutDashboard, Plus, Pencil, Trash2, RefreshCw, Share2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import DashboardTileCard, { DashboardTile } from '@/components/dashboards/DashboardTileCard';
+import ShareLinkDialog from '@/components/sharing/ShareLinkDialog';
+import { apiFetch } from '@/lib/api';
+
+interface LayoutRow {
+  size: number;
+  tiles: { tileId: string; size: number }[];
+}
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  tiles: DashboardTile[];
+  layout: LayoutRow[];
+  updatedAt: string;
+}
+
+const ROW_HEIGHT = 380;
+const MAX_TILES_PER_ROW = 4;
+const MIN_PANEL_SIZE = 10;
+// Resizing fires on every pointer move, so the layout is saved once the handle rests
+const SAVE_DELAY_MS = 800;
+
+const evenSizes = <T,>(items: T[]) => items.map(() => 100 / items.length);
+
+// Takes a tile out of its row and puts it before another tile, or in a new row at the bottom
+function moveTile(layout: LayoutRow[], tileId: string, targetTileId: string | null): LayoutRow[] | null {
+  const rows = layout
+    .map(row => ({ ...row, tiles: row.tiles.filter(tile => tile.tileId !== tileId) }))
+    .filter(row => row.tiles.length > 0);
+
+  if (targetTileId === null) {
+    rows.push({ size: 100 / Math.max(rows.length, 1), tiles: [{ tileId, size: 100 }] });
+  } else {
+    const row = rows.find(item => item.tiles.some(tile => tile.tileId === targetTileId));
+    if (!row || row.tiles.length >= MAX_TILES_PER_ROW) return null;
+    const index = row.tiles.findIndex(tile => tile.tileId === targetTileId);
+    row.tiles.splice(index, 0, { tileId, size: 0 });
+  }
+
+  // Rows that changed are split evenly again, and the heights are scaled back to 100
+  const rowSizes = rows.map(row => row.size);
+  const total = rowSizes.reduce((sum, size) => sum + size, 0);
+  return rows.map((row, index) => {
+    const original = layout.find(item => item.tiles.length === row.tiles.length && item.tiles.every((tile, position) => tile.tileId === row.tiles[position].tileId));
+    const sizes = original ? row.tiles.map(tile => tile.size) : evenSizes(row.tiles);
+    return {
+      size: (rowSizes[index] / total) * 100,
+      tiles: row.tiles.map((tile, position) => ({ tileId: tile.tileId, size: sizes[position] }))
+    };
+  });
+}
+
+const rowKey = (row: LayoutRow) => row.tiles.map(tile => tile.tileId).join(':');
+
+const Dashboards = () => {
+  const [dashboards, setDashboards] = useState<Dashboard[]>([]);
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [refreshing, setRefreshing] = useState<string[]>([]);
+  const [refreshingAll, setRefreshingAll] = useState(false);
+  const dragged = useRef<string | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const { toast } = useToast();
+  const { canEdit } = useWorkspace();
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`http://localhost:3001/api/dashboards${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const loadDashboards = useCallback(async (selectId?: string) => {
+    try {
+      const response = await apiFetch('http://localhost:3001/api/dashboards');
+      if (!response.ok) {
+        throw new Error('Failed to load dashboards');
+      }
+
+      const result = await response.json();
+      setDashboards(result.dashboards);
+      setDashboard(current => result.dashboards.find((item: Dashboard) => item.id === (selectId || current?.id)) || result.dashboards[0] || null);
+    } catch (error) {
+      showError("Could not load dashboards", error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadDashboards();
+  }, [loadDashboards]);
+
+  useEffect(() => () => clearTimeout(saveTimer.current), []);
+
+  // Keeps the open dashboard and its entry in the list in step with the server
+  const applyDashboard = (updated: Dashboard) => {
+    setDashboard(current => current?.id === updated.id ? updated : current);
+    setDashboards(current => current.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const saveLayout = async (dashboardId: string, layout: LayoutRow[]) => {
+    try {
+      const result = await request(`/${dashboardId}/layout`, { method: 'PUT', body: JSON.stringify({ layout }) });
+      setDashboards(current => current.map(item => item.id === dashboardId ? result.dashboard : item));
+    } catch (error) {
+      showError("Could not save the layout", error);
+    }
+  };
+
+  const updateLayout = (layout: LayoutRow[], delay: number) => {
+    if (!dashboard) return;
+    const dashboardId = dashboard.id;
+    setDashboard({ ...dashboard, layout });
+    // Viewers may resize their own view, but only editors save it
+    if (!canEdit) return;
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => saveLayout(dashboardId, layout), delay);
+  };
+
+  const resizeRows = (sizes: number[]) => {
+    if (!dashboard || sizes.every((size, index) => Math.abs(size - (dashboard.layout[index]?.size ?? 0)) < 0.01)) return;
+    updateLayout(dashboard.layout.map((row, index) => ({ ...row, size: sizes[index] })), SAVE_DELAY_MS);
+  };
+
+  const resizeTiles = (rowIndex: number, sizes: number[]) => {
+    const row = dashboard?.layout[rowIndex];
+    if (!dashboard || !row || sizes.every((size, index) => Math.abs(size - (row.tiles[index]?.size ?? 0)) < 0.01)) return;
+    updateLayout(dashboard.layout.map((item, index) => index === rowIndex
+      ? { ...item, tiles: item.tiles.map((tile, position) => ({ ...tile, size: sizes[position] })) }
+      : item), SAVE_DELAY_MS);
+  };
+
+  const dropTile = (targetTileId: string | null) => {
+    const tileId = dragged.current;
+    dragged.current = null;
+    if (!dashboard || !tileId || tileId === targetTileId) return;
+
+    const layout = moveTile(dashboard.layout, tileId, targetTileId);
+    if (!layout) {
+      toast({
+        title: "Row is full",
+        description: `A row holds at most ${MAX_TILES_PER_ROW} tiles`,
+      });
+      return;
+    }
+    updateLayout(layout, 0);
+  };
+
+  const createDashboard = async () => {
+    try {
+      const result = await request('', { method: 'POST', body: JSON.stringify({ name: newName }) });
+      setNewName('');
+      loadDashboards(result.dashboard.id);
+    } catch (error) {
+      showError("Could not create dashboard", error);
+    }
+  };
+
+  const renameDashboard = async () => {
+    if (!dashboard) return;
+
+    try {
+      await request(`/${dashboard.id}`, { method: 'PATCH', body: JSON.stringify({ name: renameValue }) });
+      setRenaming(false);
+      loadDashboards(dashboard.id);
+    } catch (error) {
+      showError("Rename failed", error);
+    }
+  };
+
+  const deleteDashboard = async () => {
+    if (!dashboard) return;
+
+    try {
+      await request(`/${dashboard.id}`, { method: 'DELETE' });
+      setDashboard(null);
+      loadDashboards();
+    } catch (error) {
+      showError("Delete failed", error);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const refreshTile = async (tile: DashboardTile) => {
+    if (!dashboard) return;
+    const dashboardId = dashboard.id;
+    setRefreshing(current => [...current, tile.id]);
+
+    try {
+      const result = await request(`/${dashboardId}/tiles/${tile.id}/refresh`, { method: 'POST' });
+      const replaceTile = (item: Dashboard) => item.id === dashboardId
+        ? { ...item, tiles: item.tiles.map(other => other.id === tile.id ? result.tile : other) }
+        : item;
+      setDashboard(current => current && replaceTile(current));
+      setDashboards(current => current.map(replaceTile));
+      if (result.tile.error) {
+        showError("Refresh failed", new Error(result.tile.error));
+      }
+    } catch (error) {
+      showError("Refresh failed", error);
+    } finally {
+      setRefreshing(current => current.filter(id => id !== tile.id));
+    }
+  };
+
+  const refreshAll = async () => {
+    if (!dashboard) return;
+
+    setRefreshingAll(true);
+    try {
+      const result = await request(`/${dashboard.id}/refresh`, { method: 'POST' });
+      applyDashboard(result.dashboard);
+      const failed = result.dashboard.tiles.filter((tile: DashboardTile) => tile.error).length;
+      toast({
+        title: failed > 0 ? "Some tiles failed to refresh" : "Dashboard refreshed",
+        description: failed > 0 ? `${failed} tile${failed === 1 ? '' : 's'} kept their previous chart` : "Every tile was drawn from the latest data",
+        variant: failed > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      showError("Refresh failed", error);
+    } finally {
+      setRefreshingAll(false);
+    }
+  };
+
+  const removeTile = async (tile: DashboardTile) => {
+    if (!dashboard) return;
+
+    try {
+      clearTimeout(saveTimer.current);
+      const result = await request(`/${dashboard.id}/tiles/${tile.id}`, { method: 'DELETE' });
+      applyDashboard(result.dashboard);
+    } catch (error) {
+      showError("Could not remove the tile", error);
+    }
+  };
+
+  const tilesById = new Map(dashboard?.tiles.map(tile => [tile.id, tile]));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LayoutDashboard className="h-5 w-5" />
+            Dashboards
+          </CardTitle>
+          <CardDescription>
+            Pin analyses from the Library or an analysis thread. Drag a tile by its header to move it, and drag the borders to resize.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <Select value={dashboard?.id || ''} onValueChange={(id) => setDashboard(dashboards.find(item => item.id === id) || null)}>
+              <SelectTrigger className="md:w-72">
+                <SelectValue placeholder="No dashboards yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {dashboards.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canEdit && (
+              <div className="flex gap-2 flex-1">
+                <Input
+                  placeholder="New dashboard name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && newName.trim() && createDashboard()}
+                  maxLength={100}
+                />
+                <Button onClick={createDashboard} disabled={!newName.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create
+                </Button>
+              </div>
+            )}
+          </div>
+          {dashboard && canEdit && (
+            <div className="flex flex-wrap items-center gap-2">
+              {renaming ? (
+                <>
+                  <Input className="w-64" value={renameValue} onChange={(e) => setRenameValue(e.target.value)} maxLength={100} />
+                  <Button size="sm" onClick={renameDashboard} disabled={!renameValue.trim()}>Save</Button>
+                  <Button size="sm" variant="outline" onClick={() => setRenaming(false)}>Cancel</Button>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => { setRenaming(true); setRenameValue(dashboard.name); }}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={refreshAll} disabled={refreshingAll || dashboard.tiles.length === 0}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${refreshingAll ? 'animate-spin' : ''}`} />
+                Refresh all
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setSharing(true)}>
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setDeleting(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dashboard && (dashboard.layout.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          <LayoutDashboard className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>This dashboard is empty. Use "Pin" on an analysis to add a tile.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {/* Keyed by the arrangement, so panels take their saved sizes again after a tile moves */}
+          <ResizablePanelGroup
+            key={dashboard.layout.map(rowKey).join('|')}
+            direction="vertical"
+            style={{ height: dashboard.layout.length * ROW_HEIGHT }}
+            onLayout={resizeRows}
+          >
+            {dashboard.layout.map((row, rowIndex) => (
+              <Fragment key={rowKey(row)}>
+                {rowIndex > 0 && <ResizableHandle withHandle />}
+                <ResizablePanel id={rowKey(row)} order={rowIndex} defaultSize={row.size} minSize={MIN_PANEL_SIZE}>
+                  <ResizablePanelGroup direction="horizontal" onLayout={(sizes) => resizeTiles(rowIndex, sizes)}>
+                    {row.tiles.map((placed, position) => {
+                      const tile = tilesById.get(placed.tileId);
+                      return (
+                        <Fragment key={placed.tileId}>
+                          {position > 0 && <ResizableHandle withHandle />}
+                          <ResizablePanel id={placed.tileId} order={position} defaultSize={placed.size} minSize={MIN_PANEL_SIZE}>
+                            <div className="h-full p-1.5">
+                              {tile && (
+                                canEdit ? (
+                                  <DashboardTileCard
+                                    tile={tile}
+                                    refreshing={refreshingAll || refreshing.includes(tile.id)}
+                                    onRefresh={() => refreshTile(tile)}
+                                    onRemove={() => removeTile(tile)}
+                                    onDragStart={() => { dragged.current = tile.id; }}
+                                    onDrop={() => dropTile(tile.id)}
+                                  />
+                                ) : (
+                                  <DashboardTileCard tile={tile} />
+                                )
+                              )}
+                            </div>
+                          </ResizablePanel>
+                        </Fragment>
+                      );
+                    })}
+                  </ResizablePanelGroup>
+                </ResizablePanel>
+              </Fragment>
+            ))}
+          </ResizablePanelGroup>
+          {canEdit && (
+            <div
+              className="rounded-lg border border-dashed p-4 text-center text-sm text-muted-foreground"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropTile(null);
+              }}
+            >
+              Drop a tile here to give it a row of its own
+            </div>
+          )}
+        </div>
+      ))}
+
+      <ShareLinkDialog
+        type="dashboard"
+        targetId={sharing ? dashboard?.id || null : null}
+        title={dashboard?.name || ''}
+        onOpenChange={setSharing}
+      />
+
+      <AlertDialog open={deleting} onOpenChange={setDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete dashboard?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{dashboard?.name}" and its tiles will be removed. The pinned analyses stay in the Library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteDashboard}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Dashboards;
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+interface PinToDashboardDialogProps {
+  // The analysis to pin; the dialog is open while it is set
+  analysisId: string | null;
+  onClose: () => void;
+}
+
+interface DashboardOption {
+  id: string;
+  name: string;
+}
+
+const NEW_DASHBOARD = 'new';
+
+const PinToDashboardDialog = ({ analysisId, onClose }: PinToDashboardDialogProps) => {
+  const [dashboards, setDashboards] = useState<DashboardOption[]>([]);
+  const [target, setTarget] = useState(NEW_DASHBOARD);
+  const [name, setName] = useState('');
+  const [pinning, setPinning] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!analysisId) return;
+
+    apiFetch('http://localhost:3001/api/dashboards')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        if (!result) return;
+        setDashboards(result.dashboards);
+        setTarget(current => current !== NEW_DASHBOARD || result.dashboards.length === 0 ? current : result.dashboards[0].id);
+      })
+      .catch(error => console.error('Failed to load dashboards:', error));
+  }, [analysisId]);
+
+  const pin = async () => {
+    if (!analysisId) return;
+
+    setPinning(true);
+    try {
+      let dashboardId = target;
+      if (target === NEW_DASHBOARD) {
+        const response = await apiFetch('http://localhost:3001/api/dashboards', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to create dashboard');
+        }
+        dashboardId = result.dashboard.id;
+        setDashboards(current => [result.dashboard, ...current]);
+        setTarget(dashboardId);
+        setName('');
+      }
+
+      const response = await apiFetch(`http://localhost:3001/api/dashboards/${dashboardId}/tiles`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ analysisId }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to pin analysis');
+      }
+
+      toast({
+        title: "Pinned to dashboard",
+        description: result.tile.error
+          ? `The tile was added, but drawing its chart failed: ${result.tile.error}`
+          : `Added to "${result.dashboard.name}"`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Pin failed",
+        description: error instanceof Error ? error.message : "An error occurred while pinning",
+        variant: "destructive"
+      });
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  return (
+    <Dialog open={analysisId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pin to dashboard</DialogTitle>
+          <DialogDescription>
+            The tile keeps the analysis' code or chart spec, so it can be refreshed against the latest version of the dataset.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Dashboard</label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dashboards.map(dashboard => (
+                  <SelectItem key={dashboard.id} value={dashboard.id}>{dashboard.name}</SelectItem>
+                ))}
+                <SelectItem value={NEW_DASHBOARD}>New dashboard...</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {target === NEW_DASHBOARD && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Weekly sales" maxLength={100} />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={pin} disabled={pinning || (target === NEW_DASHBOARD && !name.trim())}>
+            {pinning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Pin
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PinToDashboardDialog;
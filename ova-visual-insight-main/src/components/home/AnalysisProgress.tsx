@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Activity } from 'lucide-react';
+
+interface AnalysisProgressProps {
+  status: string | null;
+  text: string;
+  logs: string[];
+}
+
+const stages = [
+  { id: 'queued', label: 'Queued' },
+  { id: 'generating', label: 'Generating' },
+  { id: 'executing', label: 'Executing' },
+  { id: 'done', label: 'Done' }
+];
+
+const AnalysisProgress = ({ status, text, logs }: AnalysisProgressProps) => {
+  const textRef = useRef<HTMLPreElement>(null);
+  const logsRef = useRef<HTMLPreElement>(null);
+  // Repairs loop back through execution, so they count as the executing stage
+  const currentStage = stages.findIndex(stage => stage.id === (status === 'repairing' ? 'executing' : status));
+
+  // Keep the newest output in view while it streams in
+  useEffect(() => {
+    textRef.current?.scrollTo({ top: textRef.current.scrollHeight });
+  }, [text]);
+
+  useEffect(() => {
+    logsRef.current?.scrollTo({ top: logsRef.current.scrollHeight });
+  }, [logs]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Live Progress
+        </CardTitle>
+        <CardDescription className="flex gap-2">
+          {stages.map((stage, index) => (
+            <Badge key={stage.id} variant={index <= currentStage ? 'default' : 'outline'}>
+              {stage.label}
+            </Badge>
+          ))}
+          {status === 'repairing' && <Badge variant="secondary">Repairing</Badge>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <h4 className="font-medium mb-2">AI Response</h4>
+          <pre ref={textRef} className="bg-muted p-4 rounded-lg text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
+            {text || 'Waiting for the model...'}
+          </pre>
+        </div>
+        {logs.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Python Output</h4>
+            <pre ref={logsRef} className="bg-muted p-4 rounded-lg text-sm font-mono max-h-64 overflow-y-auto">
+              {logs.join('\n')}
+            </pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalysisProgress;
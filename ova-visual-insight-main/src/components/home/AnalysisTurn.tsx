@@ -0,0 +1,363 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BarChart3, Copy, Download, Eye, FileDown, Pin, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import SafetyFindings, { SafetyReport } from '@/components/home/SafetyFindings';
+import AnalysisProgress from '@/components/home/AnalysisProgress';
+import RepairAttempts, { AnalysisAttempt } from '@/components/home/RepairAttempts';
+import SpecChart, { ChartSpec, ChartSpecData } from '@/components/home/SpecChart';
+import ChartExportDialog from '@/components/home/ChartExportDialog';
+import PinToDashboardDialog from '@/components/dashboards/PinToDashboardDialog';
+import { apiFetch } from '@/lib/api';
+
+interface AIAnalysisResult {
+  id: string;
+  query: string;
+  analysis: string;
+  pythonCode: string;
+  chartSpec?: ChartSpec;
+  visualizationType: string;
+  explanation: string;
+  timestamp: Date;
+}
+
+interface ChartResult {
+  path: string;
+  format: string;
+}
+
+export type JobStatus = 'queued' | 'generating' | 'executing' | 'repairing' | 'done' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  result?: {
+    analysis: AIAnalysisResult;
+    safety?: SafetyReport;
+    chart?: ChartResult;
+    execution?: { output: string; success: boolean };
+    attempts?: AnalysisAttempt[];
+  };
+  error?: string;
+  errorCode?: string;
+}
+
+// A question in a session with the job of its latest run
+export interface SessionTurn {
+  id: string;
+  query: string;
+  jobId: string;
+  previousJobIds: string[];
+  job: AnalysisJob | null;
+}
+
+export interface TurnProgress {
+  status: JobStatus | null;
+  text: string;
+  logs: string[];
+}
+
+interface AnalysisTurnProps {
+  turn: SessionTurn;
+  // Set while the turn's job is running
+  progress?: TurnProgress;
+  onRerun: () => void;
+  rerunDisabled: boolean;
+}
+
+const chartFileName = (chart: ChartResult) => chart.path.split('/').pop();
+
+// Declarative formats are saved as JSON files
+const chartExtension = (format: string) => format === 'chart-spec' ? 'json' : format === 'vega-lite' ? 'vl.json' : format;
+
+const AnalysisTurn = ({ turn, progress, onRerun, rerunDisabled }: AnalysisTurnProps) => {
+  const [showCode, setShowCode] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [pinOpen, setPinOpen] = useState(false);
+  const { toast } = useToast();
+  const job = turn.job;
+  const result = job?.result;
+  const chartResult = job?.status === 'done' ? result?.chart : undefined;
+  const logLines = result?.execution?.output.split('\n').filter(line => line.length > 0) || [];
+  const [chartData, setChartData] = useState<unknown>(null);
+
+  // Jobs only record where the chart was saved, so native charts and Vega-Lite specs are read from the chart file
+  const chartFile = chartResult && ['chart-spec', 'vega-lite'].includes(chartResult.format) ? chartFileName(chartResult) : undefined;
+  useEffect(() => {
+    setChartData(null);
+    if (!chartFile) return;
+
+    let cancelled = false;
+    apiFetch(`http://localhost:3001/api/results/charts/${chartFile}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled) setChartData(data);
+      })
+      .catch(error => console.error('Failed to load chart data:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chartFile]);
+
+  const downloadChart = async () => {
+    if (!chartResult) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/results/download/${chartFileName(chartResult)}`);
+      const blob = await response.blob();
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chart-${Date.now()}.${chartExtension(chartResult.format)}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Download started",
+        description: "Chart download initiated",
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to download chart",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyVegaLite = async () => {
+    if (!chartData) return;
+
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(chartData, null, 2));
+      toast({
+        title: "Copied",
+        description: "Vega-Lite spec copied to the clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Could not access the clipboard",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const viewChart = () => {
+    if (!chartResult) return;
+
+    window.open(`http://localhost:3001/api/results/charts/${chartFileName(chartResult)}`, '_blank');
+  };
+
+  const exportButton = (
+    <Button onClick={() => setExportOpen(true)} variant="outline" size="sm">
+      <FileDown className="h-4 w-4 mr-2" />
+      Export
+    </Button>
+  );
+
+  // Finished jobs are stored in the history under the job's id, which is what a dashboard pins
+  const pinButton = (
+    <Button onClick={() => setPinOpen(true)} variant="outline" size="sm">
+      <Pin className="h-4 w-4 mr-2" />
+      Pin
+    </Button>
+  );
+
+  const rerunButton = (
+    <Button variant="outline" size="sm" onClick={onRerun} disabled={rerunDisabled}>
+      <RotateCcw className="h-4 w-4 mr-2" />
+      Re-run
+    </Button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <div className="max-w-[80%] rounded-lg bg-primary text-primary-foreground px-4 py-2 whitespace-pre-wrap">
+          {turn.query}
+        </div>
+      </div>
+
+      {progress ? (
+        <AnalysisProgress status={progress.status} text={progress.text} logs={progress.logs} />
+      ) : !result ? (
+        <Card>
+          <CardContent className="flex items-center justify-between gap-4 pt-6">
+            <p className="text-muted-foreground">
+              {job?.status === 'cancelled'
+                ? 'The analysis was cancelled before any code was generated.'
+                : job?.error || 'This question has not been answered yet.'}
+            </p>
+            {rerunButton}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  {result.analysis.visualizationType}
+                  {job.status !== 'done' && <Badge variant="destructive">{job.status}</Badge>}
+                </CardTitle>
+                <CardDescription>
+                  {new Date(result.analysis.timestamp).toLocaleString()}
+                  {turn.previousJobIds.length > 0 && ` • run ${turn.previousJobIds.length + 1} times`}
+                </CardDescription>
+              </div>
+              {rerunButton}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue={job.errorCode === 'UNSAFE_CODE' ? 'code' : 'analysis'} className="w-full">
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="analysis">Analysis</TabsTrigger>
+                <TabsTrigger value="code">Code</TabsTrigger>
+                <TabsTrigger value="chart">Chart</TabsTrigger>
+                <TabsTrigger value="logs">Logs</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="analysis" className="space-y-4">
+                <div className="space-y-3">
+                  {job.status === 'failed' && job.error && (
+                    <p className="text-sm text-destructive">{job.error}</p>
+                  )}
+                  <div>
+                    <h4 className="font-medium mb-2">AI Analysis</h4>
+                    <p className="text-muted-foreground">{result.analysis.analysis}</p>
+                  </div>
+                  <div>
+                    <h4 className="font-medium mb-2">Visualization Explanation</h4>
+                    <p className="text-muted-foreground">{result.analysis.explanation}</p>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="code" className="space-y-4">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">{result.analysis.chartSpec ? 'Generated Chart Spec' : 'Generated Python Code'}</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowCode(!showCode)}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      {showCode ? 'Hide' : 'Show'} Code
+                    </Button>
+                  </div>
+                  {result.safety && <SafetyFindings report={result.safety} />}
+                  <RepairAttempts attempts={result.attempts || []} />
+                  {showCode && (
+                    <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm">
+                      <code>
+                        {result.analysis.chartSpec ? JSON.stringify(result.analysis.chartSpec, null, 2) : result.analysis.pythonCode}
+                      </code>
+                    </pre>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="chart" className="space-y-4">
+                {chartResult?.format === 'chart-spec' ? (
+                  <div className="space-y-4">
+                    {chartData ? <SpecChart data={chartData as ChartSpecData} /> : <p className="text-sm text-muted-foreground">Loading chart...</p>}
+                    <div className="flex gap-2">
+                      <Button onClick={downloadChart} variant="outline" size="sm">
+                        <Download className="h-4 w-4 mr-2" />
+                        Download Data
+                      </Button>
+                      {exportButton}
+                      {pinButton}
+                    </div>
+                  </div>
+                ) : chartResult?.format === 'vega-lite' ? (
+                  <div className="space-y-4">
+                    <div className="flex gap-2">
+                      <Button onClick={copyVegaLite} variant="outline">
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy Spec
+                      </Button>
+                      <Button onClick={downloadChart}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </Button>
+                      {exportButton}
+                      {pinButton}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Vega-Lite v5 spec with the chart data inlined. Paste it into the Vega Editor or any Vega-Lite renderer.
+                    </p>
+                    <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm max-h-96 overflow-y-auto">
+                      <code>{JSON.stringify(chartData, null, 2)}</code>
+                    </pre>
+                  </div>
+                ) : chartResult ? (
+                  <div className="space-y-4">
+                    <div className="flex gap-2">
+                      <Button onClick={viewChart} variant="outline">
+                        <Eye className="h-4 w-4 mr-2" />
+                        View Chart
+                      </Button>
+                      <Button onClick={downloadChart}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </Button>
+                      {exportButton}
+                      {pinButton}
+                    </div>
+
+                    <div className="border rounded-lg p-4 bg-muted/50">
+                      <p className="text-center text-muted-foreground">
+                        {chartResult.format === 'html'
+                          ? 'Interactive HTML chart generated. Click "View Chart" to see it.'
+                          : `${chartResult.format.toUpperCase()} chart generated. Click "View Chart" to see it.`}
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-center text-muted-foreground py-8">
+                    <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>
+                      {result.safety && !result.safety.safe
+                        ? 'The generated code was blocked by safety checks. See the Code tab for details.'
+                        : 'Chart generation failed. Check the analysis for details.'}
+                    </p>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="logs" className="space-y-4">
+                {logLines.length > 0 ? (
+                  <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm font-mono max-h-96 overflow-y-auto">
+                    {logLines.join('\n')}
+                  </pre>
+                ) : (
+                  <p className="text-center text-muted-foreground py-8">No Python output was captured.</p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+
+      <ChartExportDialog
+        filename={exportOpen && chartResult ? chartFileName(chartResult) || null : null}
+        onClose={() => setExportOpen(false)}
+      />
+
+      <PinToDashboardDialog analysisId={pinOpen && job ? job.id : null} onClose={() => setPinOpen(false)} />
+    </div>
+  );
+};
+
+export default AnalysisTurn;
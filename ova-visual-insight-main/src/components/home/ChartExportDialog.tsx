@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+interface ChartExportDialogProps {
+  // The chart file in the backend's output directory; the dialog is open while it is set
+  filename: string | null;
+  onClose: () => void;
+}
+
+const exportFormats = [
+  { id: 'png', name: 'PNG Image' },
+  { id: 'jpg', name: 'JPEG Image' },
+  { id: 'svg', name: 'SVG Vector' },
+  { id: 'pdf', name: 'PDF Document' },
+  { id: 'webp', name: 'WebP Image' },
+  { id: 'html', name: 'Interactive HTML' }
+];
+
+const methodDescriptions: Record<string, string> = {
+  spec: 'Re-rendered from the chart spec',
+  code: 'Re-rendered by running the analysis code again',
+  conversion: 'Converted from the original image'
+};
+
+const parseSize = (value: string) => value.trim() ? Number(value) : undefined;
+
+const ChartExportDialog = ({ filename, onClose }: ChartExportDialogProps) => {
+  const [format, setFormat] = useState('png');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [dpi, setDpi] = useState('');
+  const [transparent, setTransparent] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const exportChart = async () => {
+    if (!filename) return;
+
+    setExporting(true);
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/results/export/${filename}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          targetFormat: format,
+          width: parseSize(width),
+          height: parseSize(height),
+          dpi: parseSize(dpi),
+          transparent: transparent || undefined
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Export failed');
+      }
+
+      const file = await apiFetch(`http://localhost:3001${result.exportUrl}`);
+      const blob = await file.blob();
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chart-${Date.now()}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Chart exported",
+        description: methodDescriptions[result.method] || `Exported to ${format.toUpperCase()}`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export chart",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={filename !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export chart</DialogTitle>
+          <DialogDescription>
+            Charts are re-rendered from their code or spec when possible. Leave the size empty to keep the original.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Format</label>
+            <Select value={format} onValueChange={(value) => {
+              setFormat(value);
+              if (value === 'jpg') setTransparent(false);
+            }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Width (px)</label>
+              <Input type="number" min={16} max={8000} value={width} onChange={(e) => setWidth(e.target.value)} placeholder="Auto" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Height (px)</label>
+              <Input type="number" min={16} max={8000} value={height} onChange={(e) => setHeight(e.target.value)} placeholder="Auto" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">DPI</label>
+              <Input type="number" min={36} max={1200} value={dpi} onChange={(e) => setDpi(e.target.value)} placeholder="Auto" />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium" htmlFor="export-transparent">Transparent background</label>
+            <Switch id="export-transparent" checked={transparent} onCheckedChange={setTransparent} disabled={format === 'jpg'} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={exportChart} disabled={exporting}>
+            {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChartExportDialog;
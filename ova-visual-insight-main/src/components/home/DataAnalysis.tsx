@@ -1,55 +1,208 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Brain, Code, BarChart3, Download, Play, Eye } from 'lucide-react';
+import { Brain, BarChart3, MessageSquarePlus, Trash2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import DataProfile from '@/components/home/DataProfile';
+import SheetSelector from '@/components/home/SheetSelector';
+import AnalysisTurn, { AnalysisJob, JobStatus, SessionTurn, TurnProgress } from '@/components/home/AnalysisTurn';
+import { apiFetch } from '@/lib/api';
 
 interface DataAnalysisProps {
   datasetInfo: any;
+  onDatasetChange?: (datasetInfo: DataAnalysisProps['datasetInfo']) => void;
 }
 
-interface AIAnalysisResult {
+interface AIModel {
   id: string;
-  query: string;
-  analysis: string;
-  pythonCode: string;
-  visualizationType: string;
-  explanation: string;
-  timestamp: Date;
+  name: string;
+  description: string;
+  model: string;
+  reachable: boolean;
+  error?: string;
 }
 
-interface ChartResult {
-  path: string;
-  format: string;
-  data: any;
+interface SessionSummary {
+  id: string;
+  title: string;
+  turnCount: number;
+  updatedAt: string;
 }
 
-const DataAnalysis = ({ datasetInfo }: DataAnalysisProps) => {
+const POLL_INTERVAL_MS = 1000;
+// Select value for a conversation that has not been saved yet
+const NEW_SESSION = 'new';
+
+const isFinished = (job: AnalysisJob) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+
+const jobStatusLabels: Record<JobStatus, string> = {
+  queued: 'Waiting for a worker...',
+  generating: 'Generating code with AI...',
+  executing: 'Running Python...',
+  repairing: 'Fixing the code...',
+  done: 'Finishing up...',
+  failed: 'Finishing up...',
+  cancelled: 'Cancelling...'
+};
+
+const DataAnalysis = ({ datasetInfo, onDatasetChange }: DataAnalysisProps) => {
   const [query, setQuery] = useState('');
-  const [selectedModel, setSelectedModel] = useState('openai');
+  const [aiModels, setAiModels] = useState<AIModel[]>([]);
+  const [selectedModel, setSelectedModel] = useState('');
   const [selectedFormat, setSelectedFormat] = useState('png');
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<SessionTurn[]>([]);
   const [analyzing, setAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<AIAnalysisResult | null>(null);
-  const [chartResult, setChartResult] = useState<ChartResult | null>(null);
-  const [showCode, setShowCode] = useState(false);
+  const [activeTurnId, setActiveTurnId] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [streamedText, setStreamedText] = useState('');
+  const [logLines, setLogLines] = useState<string[]>([]);
+  const threadEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  const aiModels = [
-    { id: 'openai', name: 'OpenAI GPT-4', description: 'Advanced analysis' },
-    { id: 'gemini', name: 'Google Gemini', description: 'Multimodal AI' }
-  ];
+  // The server lists the providers it is configured for and whether each one answered
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const response = await apiFetch('http://localhost:3001/api/analyze/models');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load AI models');
+        }
+
+        const models: AIModel[] = result.models;
+        setAiModels(models);
+        setSelectedModel(current => current || models.find(model => model.reachable)?.id || models[0]?.id || '');
+      } catch (error) {
+        console.error('Model list error:', error);
+      }
+    };
+
+    loadModels();
+  }, []);
+
+  // Each dataset has its own conversations; switching datasets starts a new one
+  useEffect(() => {
+    setSessionId(null);
+    setTurns([]);
+
+    const loadSessions = async () => {
+      try {
+        const response = await apiFetch(`http://localhost:3001/api/analyze/sessions?datasetId=${encodeURIComponent(datasetInfo.id)}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load conversations');
+        }
+        setSessions(result.sessions);
+      } catch (error) {
+        console.error('Session list error:', error);
+      }
+    };
+
+    loadSessions();
+  }, [datasetInfo.id]);
+
+  // Keep the newest turn in view as the thread grows
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [turns.length]);
 
   const outputFormats = [
     { id: 'png', name: 'PNG Image', description: 'High quality' },
     { id: 'jpg', name: 'JPEG Image', description: 'Compressed' },
     { id: 'svg', name: 'SVG Vector', description: 'Scalable' },
-    { id: 'html', name: 'Interactive HTML', description: 'Interactive' }
+    { id: 'html', name: 'Interactive HTML', description: 'Interactive' },
+    { id: 'chart-spec', name: 'Native Chart', description: 'Drawn in the app' },
+    { id: 'vega-lite', name: 'Vega-Lite Spec', description: 'Portable JSON' }
   ];
 
+  const openSession = async (id: string) => {
+    if (id === NEW_SESSION) {
+      setSessionId(null);
+      setTurns([]);
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/analyze/sessions/${id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open conversation');
+      }
+
+      const loaded: SessionTurn[] = result.session.turns;
+      setSessionId(id);
+      setTurns(loaded);
+
+      // A turn still running, e.g. after a page reload, is followed like a new one
+      const unfinished = loaded.find(turn => turn.job && !isFinished(turn.job));
+      if (unfinished && !analyzing) {
+        trackTurn(unfinished);
+      }
+    } catch (error) {
+      toast({
+        title: "Could not open conversation",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteSession = async () => {
+    if (!sessionId) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/analyze/sessions/${sessionId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete conversation');
+      }
+
+      setSessions(current => current.filter(session => session.id !== sessionId));
+      setSessionId(null);
+      setTurns([]);
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Conversations are saved on their first question so empty ones never appear in the list
+  const ensureSession = async (): Promise<string> => {
+    if (sessionId) return sessionId;
+
+    const response = await apiFetch('http://localhost:3001/api/analyze/sessions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ datasetId: datasetInfo.id }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to start a conversation');
+    }
+
+    setSessionId(result.session.id);
+    return result.session.id;
+  };
+
+  // The list shows titles, which the server takes from the first question
+  const refreshSessionSummary = (id: string, title: string, turnCount: number) => {
+    setSessions(current => [
+      { id, title, turnCount, updatedAt: new Date().toISOString() },
+      ...current.filter(session => session.id !== id)
+    ]);
+  };
+
   const handleAnalysis = async () => {
     if (!query.trim()) {
       toast({
@@ -60,38 +213,104 @@ const DataAnalysis = ({ datasetInfo }: DataAnalysisProps) => {
       return;
     }
 
-    setAnalyzing(true);
-
     try {
-      const response = await fetch('http://localhost:3001/api/analyze/visualize', {
+      const id = await ensureSession();
+      const response = await apiFetch(`http://localhost:3001/api/analyze/sessions/${id}/turns`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           query: query.trim(),
-          datasetId: datasetInfo.id,
           aiModel: selectedModel,
           outputFormat: selectedFormat
         }),
       });
 
+      const submitted = await response.json();
       if (!response.ok) {
-        throw new Error('Analysis failed');
+        throw new Error(submitted.error || 'Analysis failed');
       }
 
-      const result = await response.json();
+      const turn: SessionTurn = submitted.turn;
+      setQuery('');
+      setTurns(current => [...current, turn]);
+      refreshSessionSummary(id, sessions.find(session => session.id === id)?.title || turn.query, turns.length + 1);
+      await trackTurn(turn);
+    } catch (error) {
+      console.error('Analysis error:', error);
+      toast({
+        title: "Analysis failed",
+        description: error instanceof Error ? error.message : "An error occurred during analysis",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rerunTurn = async (turnId: string) => {
+    if (!sessionId) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/analyze/sessions/${sessionId}/turns/${turnId}/rerun`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          aiModel: selectedModel,
+          outputFormat: selectedFormat
+        }),
+      });
 
-      if (result.success) {
-        setAnalysisResult(result.analysis);
-        setChartResult(result.chart);
-        
+      const submitted = await response.json();
+      if (!response.ok) {
+        throw new Error(submitted.error || 'Re-run failed');
+      }
+
+      const turn: SessionTurn = submitted.turn;
+      setTurns(current => current.map(candidate => (candidate.id === turn.id ? turn : candidate)));
+      await trackTurn(turn);
+    } catch (error) {
+      console.error('Re-run error:', error);
+      toast({
+        title: "Re-run failed",
+        description: error instanceof Error ? error.message : "An error occurred during analysis",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Shows a turn's live progress until its job finishes, then stores the finished job on the turn
+  const trackTurn = async (turn: SessionTurn) => {
+    setAnalyzing(true);
+    setActiveTurnId(turn.id);
+    setJobId(turn.jobId);
+    setJobStatus(turn.job?.status || 'queued');
+    setStreamedText('');
+    setLogLines([]);
+
+    try {
+      const job = await followJob(turn.jobId);
+      setTurns(current => current.map(candidate => (candidate.id === turn.id ? { ...candidate, job } : candidate)));
+
+      if (job.status === 'done' && job.result) {
         toast({
           title: "Analysis complete!",
-          description: `Generated ${result.analysis.visualizationType} visualization`,
+          description: `Generated ${job.result.analysis.visualizationType} visualization`,
+        });
+      } else if (job.status === 'cancelled') {
+        toast({
+          title: "Analysis cancelled",
+          description: "The analysis was stopped before it finished",
+        });
+      } else if (job.errorCode === 'UNSAFE_CODE') {
+        toast({
+          title: "Code blocked",
+          description: job.error,
+          variant: "destructive"
         });
       } else {
-        throw new Error(result.error || 'Analysis failed');
+        throw new Error(job.error || 'Analysis failed');
       }
     } catch (error) {
       console.error('Analysis error:', error);
@@ -102,44 +321,90 @@ const DataAnalysis = ({ datasetInfo }: DataAnalysisProps) => {
       });
     } finally {
       setAnalyzing(false);
+      setActiveTurnId(null);
+      setJobId(null);
+      setJobStatus(null);
     }
   };
 
-  const downloadChart = async () => {
-    if (!chartResult) return;
+  const pollJob = async (id: string): Promise<AnalysisJob> => {
+    for (;;) {
+      const response = await apiFetch(`http://localhost:3001/api/analyze/jobs/${id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Could not read analysis status');
+      }
 
-    try {
-      const response = await fetch(`http://localhost:3001/api/results/download/${chartResult.path.split('/').pop()}`);
-      const blob = await response.blob();
-      
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `chart-${Date.now()}.${chartResult.format}`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      const job: AnalysisJob = result.job;
+      setJobStatus(job.status);
+      if (isFinished(job)) {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  };
 
-      toast({
-        title: "Download started",
-        description: "Chart download initiated",
-      });
+  // Streams the job's progress over server-sent events, falling back to polling if the stream drops
+  const followJob = (id: string): Promise<AnalysisJob> => new Promise((resolve, reject) => {
+    const source = new EventSource(`http://localhost:3001/api/analyze/jobs/${id}/events`, { withCredentials: true });
+    let settled = false;
+
+    const settle = (job: AnalysisJob) => {
+      settled = true;
+      source.close();
+      resolve(job);
+    };
+
+    source.addEventListener('snapshot', (event: MessageEvent) => {
+      const { job, progress } = JSON.parse(event.data);
+      setJobStatus(job.status);
+      setStreamedText(progress.text);
+      setLogLines(progress.output);
+      if (isFinished(job)) settle(job);
+    });
+    source.addEventListener('status', (event: MessageEvent) => {
+      const { job } = JSON.parse(event.data);
+      setJobStatus(job.status);
+      if (isFinished(job)) settle(job);
+    });
+    source.addEventListener('token', (event: MessageEvent) => {
+      const { text } = JSON.parse(event.data);
+      setStreamedText(current => current + text);
+    });
+    source.addEventListener('repair_started', (event: MessageEvent) => {
+      const { attempt, error } = JSON.parse(event.data);
+      setStreamedText(current => `${current}\n\n--- Repair attempt ${attempt} ---\n`);
+      setLogLines(current => [...current, `--- Attempt ${attempt - 1} failed: ${error.split('\n')[0]} ---`]);
+    });
+    source.addEventListener('stdout', (event: MessageEvent) => {
+      const { line } = JSON.parse(event.data);
+      setLogLines(current => [...current, line]);
+    });
+    source.addEventListener('chart_saved', (event: MessageEvent) => {
+      const { chart } = JSON.parse(event.data);
+      setLogLines(current => [...current, `Chart saved (${chart.format.toUpperCase()})`]);
+    });
+
+    source.onerror = () => {
+      if (settled) return;
+      settled = true;
+      source.close();
+      pollJob(id).then(resolve, reject);
+    };
+  });
+
+  const cancelAnalysis = async () => {
+    if (!jobId) return;
+
+    try {
+      await apiFetch(`http://localhost:3001/api/analyze/jobs/${jobId}/cancel`, { method: 'POST' });
+      setJobStatus('cancelled');
     } catch (error) {
-      toast({
-        title: "Download failed",
-        description: "Failed to download chart",
-        variant: "destructive"
-      });
+      console.error('Cancel error:', error);
     }
   };
 
-  const viewChart = () => {
-    if (!chartResult) return;
-    
-    const chartUrl = `http://localhost:3001/api/results/charts/${chartResult.path.split('/').pop()}`;
-    window.open(chartUrl, '_blank');
-  };
+  const liveProgress: TurnProgress = { status: jobStatus, text: streamedText, logs: logLines };
 
   return (
     <div className="space-y-6">
@@ -152,9 +417,17 @@ const DataAnalysis = ({ datasetInfo }: DataAnalysisProps) => {
           </CardTitle>
           <CardDescription>
             {datasetInfo.rowCount} rows • {datasetInfo.columns.length} columns
+            {datasetInfo.sheetName && ` • sheet "${datasetInfo.sheetName}"`}
           </CardDescription>
+          {datasetInfo.sheetName && onDatasetChange && (
+            <SheetSelector
+              datasetId={datasetInfo.id}
+              sheetName={datasetInfo.sheetName}
+              onSelectDataset={onDatasetChange}
+            />
+          )}
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
           <div className="flex flex-wrap gap-2">
             {datasetInfo.columns.map((column: string) => (
               <Badge key={column} variant="secondary">
@@ -162,190 +435,174 @@ const DataAnalysis = ({ datasetInfo }: DataAnalysisProps) => {
               </Badge>
             ))}
           </div>
+          <DataProfile datasetId={datasetInfo.id} />
         </CardContent>
       </Card>
 
-      {/* Analysis Interface */}
+      {/* Conversation */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Brain className="h-5 w-5" />
-            AI Data Analysis
-          </CardTitle>
-          <CardDescription>
-            Ask questions about your data and get AI-generated visualizations
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">AI Model</label>
-              <Select value={selectedModel} onValueChange={setSelectedModel}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {aiModels.map((model) => (
-                    <SelectItem key={model.id} value={model.id}>
-                      <div>
-                        <div className="font-medium">{model.name}</div>
-                        <div className="text-xs text-muted-foreground">{model.description}</div>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="h-5 w-5" />
+                AI Data Analysis
+              </CardTitle>
+              <CardDescription>
+                Ask questions about your data; follow-up questions build on the earlier answers
+              </CardDescription>
             </div>
-
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Output Format</label>
-              <Select value={selectedFormat} onValueChange={setSelectedFormat}>
-                <SelectTrigger>
+            <div className="flex gap-2">
+              <Select value={sessionId || NEW_SESSION} onValueChange={openSession} disabled={analyzing}>
+                <SelectTrigger className="w-64">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {outputFormats.map((format) => (
-                    <SelectItem key={format.id} value={format.id}>
+                  <SelectItem value={NEW_SESSION}>New conversation</SelectItem>
+                  {sessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
                       <div>
-                        <div className="font-medium">{format.name}</div>
-                        <div className="text-xs text-muted-foreground">{format.description}</div>
+                        <div className="font-medium">{session.title || 'Untitled conversation'}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {session.turnCount} question{session.turnCount === 1 ? '' : 's'} • {new Date(session.updatedAt).toLocaleString()}
+                        </div>
                       </div>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => openSession(NEW_SESSION)}
+                disabled={analyzing || !sessionId}
+                title="New conversation"
+              >
+                <MessageSquarePlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={deleteSession}
+                disabled={analyzing || !sessionId}
+                title="Delete conversation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
             </div>
           </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {turns.length > 0 ? (
+            <div className="space-y-6">
+              {turns.map((turn) => (
+                <AnalysisTurn
+                  key={turn.id}
+                  turn={turn}
+                  progress={turn.id === activeTurnId ? liveProgress : undefined}
+                  onRerun={() => rerunTurn(turn.id)}
+                  rerunDisabled={analyzing || !selectedModel}
+                />
+              ))}
+              <div ref={threadEndRef} />
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>Ask a question to start the conversation.</p>
+            </div>
+          )}
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Your Question</label>
-            <Textarea
-              placeholder="e.g., Show me a bar chart of sales by region, or Find trends in customer satisfaction over time..."
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              rows={3}
-              className="resize-none"
-            />
-          </div>
+          <div className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">AI Model</label>
+                <Select value={selectedModel} onValueChange={setSelectedModel}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={aiModels.length ? 'Choose a model' : 'No AI models configured'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {aiModels.map((model) => (
+                      <SelectItem key={model.id} value={model.id} disabled={!model.reachable}>
+                        <div>
+                          <div className="font-medium">{model.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {model.reachable ? model.description : `Unavailable: ${model.error || 'not reachable'}`}
+                          </div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-          <Button
-            onClick={handleAnalysis}
-            disabled={analyzing || !query.trim()}
-            className="w-full"
-            size="lg"
-          >
-            {analyzing ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                Analyzing with AI...
-              </>
-            ) : (
-              <>
-                <Brain className="h-4 w-4 mr-2" />
-                Analyze & Visualize
-              </>
-            )}
-          </Button>
-        </CardContent>
-      </Card>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Output Format</label>
+                <Select value={selectedFormat} onValueChange={setSelectedFormat}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {outputFormats.map((format) => (
+                      <SelectItem key={format.id} value={format.id}>
+                        <div>
+                          <div className="font-medium">{format.name}</div>
+                          <div className="text-xs text-muted-foreground">{format.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
 
-      {/* Results */}
-      {analysisResult && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <BarChart3 className="h-5 w-5" />
-              Analysis Results
-            </CardTitle>
-            <CardDescription>
-              {analysisResult.visualizationType} • {new Date(analysisResult.timestamp).toLocaleString()}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Tabs defaultValue="analysis" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
-                <TabsTrigger value="analysis">Analysis</TabsTrigger>
-                <TabsTrigger value="code">Code</TabsTrigger>
-                <TabsTrigger value="chart">Chart</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="analysis" className="space-y-4">
-                <div className="space-y-3">
-                  <div>
-                    <h4 className="font-medium mb-2">Your Question</h4>
-                    <p className="text-muted-foreground">{analysisResult.query}</p>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">AI Analysis</h4>
-                    <p className="text-muted-foreground">{analysisResult.analysis}</p>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">Visualization Explanation</h4>
-                    <p className="text-muted-foreground">{analysisResult.explanation}</p>
-                  </div>
-                </div>
-              </TabsContent>
-
-              <TabsContent value="code" className="space-y-4">
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-medium">Generated Python Code</h4>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setShowCode(!showCode)}
-                    >
-                      <Eye className="h-4 w-4 mr-2" />
-                      {showCode ? 'Hide' : 'Show'} Code
-                    </Button>
-                  </div>
-                  {showCode && (
-                    <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm">
-                      <code>{analysisResult.pythonCode}</code>
-                    </pre>
-                  )}
-                </div>
-              </TabsContent>
-
-              <TabsContent value="chart" className="space-y-4">
-                {chartResult ? (
-                  <div className="space-y-4">
-                    <div className="flex gap-2">
-                      <Button onClick={viewChart} variant="outline">
-                        <Eye className="h-4 w-4 mr-2" />
-                        View Chart
-                      </Button>
-                      <Button onClick={downloadChart}>
-                        <Download className="h-4 w-4 mr-2" />
-                        Download
-                      </Button>
-                    </div>
-                    
-                    {chartResult.format === 'html' ? (
-                      <div className="border rounded-lg p-4 bg-muted/50">
-                        <p className="text-center text-muted-foreground">
-                          Interactive HTML chart generated. Click "View Chart" to see it.
-                        </p>
-                      </div>
-                    ) : (
-                      <div className="border rounded-lg p-4 bg-muted/50">
-                        <p className="text-center text-muted-foreground">
-                          {chartResult.format.toUpperCase()} chart generated. Click "View Chart" to see it.
-                        </p>
-                      </div>
-                    )}
-                  </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{turns.length ? 'Follow-up Question' : 'Your Question'}</label>
+              <Textarea
+                placeholder={turns.length
+                  ? 'e.g., Now split that by region, or Show the same as a line chart...'
+                  : 'e.g., Show me a bar chart of sales by region, or Find trends in customer satisfaction over time...'}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleAnalysis}
+                disabled={analyzing || !query.trim() || !selectedModel}
+                className="flex-1"
+                size="lg"
+              >
+                {analyzing ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                    {jobStatus ? jobStatusLabels[jobStatus] : 'Analyzing with AI...'}
+                  </>
                 ) : (
-                  <div className="text-center text-muted-foreground py-8">
-                    <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>Chart generation failed. Check the analysis for details.</p>
-                  </div>
+                  <>
+                    <Brain className="h-4 w-4 mr-2" />
+                    {turns.length ? 'Ask Follow-up' : 'Analyze & Visualize'}
+                  </>
                 )}
-              </TabsContent>
-            </Tabs>
-          </CardContent>
-        </Card>
-      )}
+              </Button>
+              {analyzing && (
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={cancelAnalysis}
+                  disabled={!jobId || jobStatus === 'cancelled'}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiFetch } from '@/lib/api';
+
+interface DataProfileProps {
+  datasetId: string;
+}
+
+interface ColumnProfile {
+  name: string;
+  type: string;
+  semanticType: string;
+  count: number;
+  nullCount: number;
+  nullPercentage: number;
+  distinctCount: number;
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    std: number;
+  };
+  dateRange?: { min: string; max: string };
+  topValues: { value: string; count: number }[];
+}
+
+interface DatasetProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 1000 || Number.isInteger(value)
+    ? value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const describeColumn = (column: ColumnProfile) => {
+  if (column.numeric) {
+    return `${formatNumber(column.numeric.min)} – ${formatNumber(column.numeric.max)} • mean ${formatNumber(column.numeric.mean)}`;
+  }
+  if (column.dateRange) {
+    return `${new Date(column.dateRange.min).toLocaleDateString()} – ${new Date(column.dateRange.max).toLocaleDateString()}`;
+  }
+  const top = column.topValues[0];
+  return top ? `Most common: ${top.value} (${top.count})` : '—';
+};
+
+const DataProfile = ({ datasetId }: DataProfileProps) => {
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setFailed(false);
+
+    apiFetch(`http://localhost:3001/api/upload/${datasetId}/profile`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error('Profile request failed');
+        }
+        return response.json();
+      })
+      .then(result => {
+        if (!cancelled) setProfile(result.profile);
+      })
+      .catch(error => {
+        console.error('Profile error:', error);
+        if (!cancelled) setFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Profiling dataset...</p>;
+  }
+
+  if (failed || !profile) {
+    return <p className="text-sm text-muted-foreground">Data quality summary unavailable.</p>;
+  }
+
+  const totalCells = profile.rowCount * profile.columns.length;
+  const missingCells = profile.columns.reduce((sum, column) => sum + column.nullCount, 0);
+  const completeness = totalCells > 0 ? Math.round(((totalCells - missingCells) / totalCells) * 100) : 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Data quality</span>
+          <span className="text-muted-foreground">{completeness}% complete • {missingCells} missing values</span>
+        </div>
+        <Progress value={completeness} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead className="text-right">Missing</TableHead>
+            <TableHead className="text-right">Distinct</TableHead>
+            <TableHead>Summary</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {profile.columns.map((column) => (
+            <TableRow key={column.name}>
+              <TableCell className="font-medium">{column.name}</TableCell>
+              <TableCell>
+                <Badge variant="secondary">{column.semanticType.replace('_', ' ')}</Badge>
+              </TableCell>
+              <TableCell className="text-right">{column.nullPercentage}%</TableCell>
+              <TableCell className="text-right">{column.distinctCount}</TableCell>
+              <TableCell className="text-muted-foreground">{describeColumn(column)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default DataProfile;
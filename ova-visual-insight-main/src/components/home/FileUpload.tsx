@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Upload, FileSpreadsheet, FileText, X, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
 
 interface FileUploadProps {
   onDatasetUploaded: (datasetInfo: any) => void;
@@ -49,17 +50,14 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
   }, []);
 
   const handleFileSelect = (file: File) => {
-    // Validate file type
-    const allowedTypes = [
-      'text/csv',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel'
-    ];
-    
-    if (!allowedTypes.includes(file.type)) {
+    // Validate file type by extension; browsers leave the MIME type empty for TSV, NDJSON and Parquet
+    const allowedExtensions = ['.csv', '.tsv', '.xlsx', '.xls', '.json', '.jsonl', '.ndjson', '.parquet'];
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+    if (!allowedExtensions.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a CSV or Excel file",
+        description: "Please upload a CSV, TSV, Excel, JSON, NDJSON or Parquet file",
         variant: "destructive"
       });
       return;
@@ -111,7 +109,7 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
         });
       }, 100);
 
-      const response = await fetch('http://localhost:3001/api/upload', {
+      const response = await apiFetch('http://localhost:3001/api/upload', {
         method: 'POST',
         body: formData,
       });
@@ -150,7 +148,7 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
   };
 
   const getFileIcon = (file: File) => {
-    if (file.type === 'text/csv') {
+    if (!/\.(xlsx|xls)$/i.test(file.name)) {
       return <FileText className="h-8 w-8 text-blue-500" />;
     }
     return <FileSpreadsheet className="h-8 w-8 text-green-500" />;
@@ -172,7 +170,7 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
           Upload Dataset
         </CardTitle>
         <CardDescription>
-          Upload your CSV or Excel file to start analyzing data with AI
+          Upload a spreadsheet, delimited text, JSON or Parquet file to start analyzing data with AI
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -192,7 +190,7 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
               Drop your file here, or click to browse
             </p>
             <p className="text-sm text-muted-foreground mb-4">
-              Supports CSV, XLSX, and XLS files up to 50MB
+              Supports CSV, TSV, XLSX, XLS, JSON, NDJSON and Parquet files up to 50MB
             </p>
             <Button
               variant="outline"
@@ -203,7 +201,7 @@ const FileUpload = ({ onDatasetUploaded }: FileUploadProps) => {
             <input
               id="file-input"
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept=".csv,.tsv,.xlsx,.xls,.json,.jsonl,.ndjson,.parquet"
               onChange={handleFileInput}
               className="hidden"
             />
@@ -0,0 +1,64 @@
+import { Badge } from '@/components/ui/badge';
+import { Wrench } from 'lucide-react';
+
+export interface AnalysisAttempt {
+  attempt: number;
+  pythonCode: string;
+  success: boolean;
+  output: string;
+  error?: string;
+  errorCode?: string;
+  diff?: string;
+  fix?: string;
+}
+
+interface RepairAttemptsProps {
+  attempts: AnalysisAttempt[];
+}
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+  if (line.startsWith('@@')) return 'text-blue-600';
+  if (line.startsWith('+')) return 'bg-green-500/10 text-green-700';
+  if (line.startsWith('-')) return 'bg-red-500/10 text-red-700';
+  return '';
+};
+
+const RepairAttempts = ({ attempts }: RepairAttemptsProps) => {
+  // A single attempt means the first code ran (or failed) without any repair
+  if (attempts.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium flex items-center gap-2">
+        <Wrench className="h-4 w-4" />
+        Automatic Repairs
+      </h4>
+      {attempts.map((attempt) => (
+        <div key={attempt.attempt} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Attempt {attempt.attempt}</span>
+            <Badge variant={attempt.success ? 'default' : 'destructive'}>
+              {attempt.success ? 'Succeeded' : attempt.errorCode || 'Failed'}
+            </Badge>
+          </div>
+          {attempt.fix && <p className="text-sm text-muted-foreground">{attempt.fix}</p>}
+          {attempt.diff && (
+            <pre className="bg-muted p-3 rounded-lg overflow-x-auto text-xs font-mono">
+              {attempt.diff.split('\n').map((line, index) => (
+                <div key={index} className={diffLineClass(line)}>{line || ' '}</div>
+              ))}
+            </pre>
+          )}
+          {attempt.error && (
+            <pre className="text-xs text-destructive whitespace-pre-wrap max-h-32 overflow-y-auto">{attempt.error}</pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RepairAttempts;
@@ -0,0 +1,52 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+export interface SafetyFinding {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SafetyReport {
+  safe: boolean;
+  findings: SafetyFinding[];
+}
+
+interface SafetyFindingsProps {
+  report: SafetyReport;
+}
+
+const SafetyFindings = ({ report }: SafetyFindingsProps) => {
+  if (report.findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant={report.safe ? 'default' : 'destructive'}>
+      {report.safe ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+      <AlertTitle>
+        {report.safe ? 'Code ran with safety warnings' : 'Code was blocked before execution'}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1">
+          {report.findings.map((finding, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              <Badge variant={finding.severity === 'error' ? 'destructive' : 'secondary'}>
+                {finding.rule}
+              </Badge>
+              <span>
+                {finding.line !== undefined && <span className="font-mono">Line {finding.line}: </span>}
+                {finding.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SafetyFindings;
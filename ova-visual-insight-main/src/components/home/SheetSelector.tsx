@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columns: string[];
+  datasetId?: string;
+}
+
+interface SheetSelectorProps<T> {
+  datasetId: string;
+  sheetName: string;
+  onSelectDataset: (datasetInfo: T) => void;
+}
+
+const SheetSelector = <T,>({ datasetId, sheetName, onSelectDataset }: SheetSelectorProps<T>) => {
+  const [sheets, setSheets] = useState<SheetSummary[]>([]);
+  const [switching, setSwitching] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiFetch(`http://localhost:3001/api/upload/${datasetId}/sheets`)
+      .then(response => (response.ok ? response.json() : { sheets: [] }))
+      .then(result => {
+        if (!cancelled) setSheets(result.sheets);
+      })
+      .catch(error => console.error('Sheet listing error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId]);
+
+  const selectSheet = async (name: string) => {
+    const sheet = sheets.find(candidate => candidate.name === name);
+    if (!sheet || name === sheetName) return;
+
+    setSwitching(true);
+
+    try {
+      // Sheets that were already imported are reused; anything else becomes a new linked dataset
+      const response = sheet.datasetId
+        ? await apiFetch(`http://localhost:3001/api/upload/${sheet.datasetId}`)
+        : await apiFetch(`http://localhost:3001/api/upload/${datasetId}/sheets`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ sheets: [name] }),
+          });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load sheet');
+      }
+
+      onSelectDataset(sheet.datasetId ? result.dataset : result.datasets[0]);
+    } catch (error) {
+      toast({
+        title: "Could not switch sheet",
+        description: error instanceof Error ? error.message : "An error occurred while loading the sheet",
+        variant: "destructive"
+      });
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  if (sheets.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-sm font-medium">Sheet</label>
+      <Select value={sheetName} onValueChange={selectSheet} disabled={switching}>
+        <SelectTrigger className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sheets.map((sheet) => (
+            <SelectItem key={sheet.name} value={sheet.name} disabled={sheet.rowCount === 0}>
+              {sheet.name} ({sheet.rowCount} rows)
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default SheetSelector;
@@ -0,0 +1,192 @@
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+
+export interface ChartSpec {
+  type: 'bar' | 'line' | 'area' | 'scatter' | 'pie';
+  title: string;
+  x: { field: string; timeUnit?: string; label?: string };
+  y: { field?: string; aggregate: string; label?: string };
+  series?: { field: string };
+  sort?: string;
+  limit?: number;
+}
+
+// A chart spec evaluated by the server: one row per x value with a number for each series key
+export interface ChartSpecData {
+  spec: ChartSpec;
+  xType: 'date' | 'number' | 'category';
+  xLabel: string;
+  yLabel: string;
+  series: { key: string; label: string }[];
+  rows: Array<{ x: string | number } & Record<string, string | number | null>>;
+  sourceRows: number;
+  truncated: boolean;
+}
+
+interface SpecChartProps {
+  data: ChartSpecData;
+}
+
+const PALETTE_SIZE = 5;
+
+// Colors come from the theme's --chart-N variables, so they follow light and dark mode
+const seriesColor = (index: number) =>
+  index < PALETTE_SIZE ? `hsl(var(--chart-${index + 1}))` : `hsl(var(--chart-${(index % PALETTE_SIZE) + 1}) / 0.55)`;
+
+const formatNumber = (value: unknown) =>
+  typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(value);
+
+const SpecChart = ({ data }: SpecChartProps) => {
+  const { spec, series, rows } = data;
+  const showLegend = series.length > 1;
+
+  const renderChart = () => {
+    if (spec.type === 'pie') {
+      // Slices are keyed like series so the tooltip and legend find their labels and colors in the config
+      const slices = rows.map((row, index) => ({ slice: `p${index}`, value: row[series[0].key] ?? 0 }));
+      const config: ChartConfig = Object.fromEntries(
+        rows.map((row, index) => [`p${index}`, { label: String(row.x), color: seriesColor(index) }])
+      );
+
+      return (
+        <ChartContainer config={config} className="mx-auto aspect-square max-h-[400px]">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="slice" hideLabel />} />
+            <Pie data={slices} dataKey="value" nameKey="slice" innerRadius="40%">
+              {slices.map(({ slice }) => (
+                <Cell key={slice} fill={`var(--color-${slice})`} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="slice" />} className="flex-wrap" />
+          </PieChart>
+        </ChartContainer>
+      );
+    }
+
+    const config: ChartConfig = Object.fromEntries(
+      series.map(({ key, label }, index) => [key, { label, color: seriesColor(index) }])
+    );
+    const xAxis = (
+      <XAxis
+        dataKey="x"
+        type={spec.type === 'scatter' ? 'number' : 'category'}
+        name={data.xLabel}
+        tickLine={false}
+        axisLine={false}
+        tickMargin={8}
+        minTickGap={16}
+        domain={spec.type === 'scatter' ? ['auto', 'auto'] : undefined}
+      />
+    );
+    const yAxis = <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatNumber} />;
+    const tooltip = <ChartTooltip content={<ChartTooltipContent />} />;
+    const legend = showLegend ? <ChartLegend content={<ChartLegendContent />} className="flex-wrap" /> : null;
+
+    switch (spec.type) {
+      case 'line':
+        return (
+          <ChartContainer config={config}>
+            <LineChart data={rows} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              {tooltip}
+              {legend}
+              {series.map(({ key }) => (
+                <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={rows.length <= 60} connectNulls />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        );
+      case 'area':
+        return (
+          <ChartContainer config={config}>
+            <AreaChart data={rows} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              {tooltip}
+              {legend}
+              {series.map(({ key }) => (
+                <Area key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} fill={`var(--color-${key})`} fillOpacity={0.3} connectNulls />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        );
+      case 'scatter':
+        return (
+          <ChartContainer config={config}>
+            <ScatterChart margin={{ left: 12, right: 12 }}>
+              <CartesianGrid />
+              {xAxis}
+              <YAxis dataKey="y" type="number" name={data.yLabel} tickLine={false} axisLine={false} width={56} tickFormatter={formatNumber} domain={['auto', 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              {legend}
+              {series.map(({ key }) => (
+                <Scatter
+                  key={key}
+                  name={key}
+                  data={rows.filter(row => row[key] !== undefined && row[key] !== null).map(row => ({ x: row.x, y: row[key] }))}
+                  fill={`var(--color-${key})`}
+                  fillOpacity={0.7}
+                />
+              ))}
+            </ScatterChart>
+          </ChartContainer>
+        );
+      case 'bar':
+      default:
+        return (
+          <ChartContainer config={config}>
+            <BarChart data={rows} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              {tooltip}
+              {legend}
+              {series.map(({ key }) => (
+                <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={4} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {spec.title && <h4 className="font-medium text-center">{spec.title}</h4>}
+      {rows.length > 0 ? renderChart() : (
+        <p className="text-center text-muted-foreground py-8">The chart has no data points.</p>
+      )}
+      <p className="text-xs text-center text-muted-foreground">
+        {data.xLabel} × {data.yLabel} • computed from {data.sourceRows.toLocaleString()} rows
+        {data.truncated && ' • some data was left out to keep the chart readable'}
+      </p>
+    </div>
+  );
+};
+
+export default SpecChart;
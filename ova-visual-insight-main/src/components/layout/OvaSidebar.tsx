@@ -5,6 +5,9 @@ import ModeToggle from "@/components/theme/ModeToggle";
 
 interface OvaSidebarProps {
   onNewAnalysis?: () => void;
+  onOpenLibrary?: () => void;
+  onOpenDashboards?: () => void;
+  onOpenReports?: () => void;
 }
 
 const navItems = [
@@ -16,10 +19,16 @@ const navItems = [
   { label: "Settings", icon: Settings, action: "settings" },
 ];
 
-const OvaSidebar = ({ onNewAnalysis }: OvaSidebarProps) => {
+const OvaSidebar = ({ onNewAnalysis, onOpenLibrary, onOpenDashboards, onOpenReports }: OvaSidebarProps) => {
   const handleNavClick = (action: string) => {
     if (action === "new" && onNewAnalysis) {
       onNewAnalysis();
+    } else if (action === "library" && onOpenLibrary) {
+      onOpenLibrary();
+    } else if (action === "dashboards" && onOpenDashboards) {
+      onOpenDashboards();
+    } else if (action === "reports" && onOpenReports) {
+      onOpenReports();
     }
     // Handle other actions as needed
   };
@@ -0,0 +1,493 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { History, Search, Pencil, Eye, RotateCcw, Trash2, Download, FileDown, Pin, Share2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import SpecChart, { ChartSpec, ChartSpecData } from '@/components/home/SpecChart';
+import ChartExportDialog from '@/components/home/ChartExportDialog';
+import PinToDashboardDialog from '@/components/dashboards/PinToDashboardDialog';
+import ShareLinkDialog from '@/components/sharing/ShareLinkDialog';
+import { apiFetch } from '@/lib/api';
+
+interface AnalysisRecord {
+  id: string;
+  title: string;
+  query: string;
+  datasetId: string;
+  datasetName: string;
+  aiModel: string;
+  outputFormat: string;
+  status: 'done' | 'failed';
+  error?: string;
+  analysis?: {
+    analysis: string;
+    pythonCode: string;
+    chartSpec?: ChartSpec;
+    visualizationType: string;
+    explanation: string;
+  };
+  output?: string;
+  chart?: { path: string; format: string };
+  rerunOf?: string;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 10;
+const POLL_INTERVAL_MS = 1000;
+const IMAGE_FORMATS = ['png', 'jpg', 'svg'];
+const JSON_FORMATS = ['chart-spec', 'vega-lite'];
+
+const statusOptions = [
+  { id: 'all', name: 'All analyses' },
+  { id: 'done', name: 'Succeeded' },
+  { id: 'failed', name: 'Failed' }
+];
+
+const chartUrl = (chart: NonNullable<AnalysisRecord['chart']>, route: 'charts' | 'download') =>
+  `http://localhost:3001/api/results/${route}/${chart.path.split('/').pop()}`;
+
+const AnalysisLibrary = () => {
+  const [analyses, setAnalyses] = useState<AnalysisRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState('all');
+  const [loading, setLoading] = useState(false);
+  const [viewing, setViewing] = useState<AnalysisRecord | null>(null);
+  const [viewingSpecData, setViewingSpecData] = useState<ChartSpecData | null>(null);
+  const [viewingVegaLite, setViewingVegaLite] = useState<string | null>(null);
+  const [exportingFile, setExportingFile] = useState<string | null>(null);
+  const [pinningId, setPinningId] = useState<string | null>(null);
+  const [sharing, setSharing] = useState<AnalysisRecord | null>(null);
+  const [renaming, setRenaming] = useState<AnalysisRecord | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+  const [deleting, setDeleting] = useState<AnalysisRecord | null>(null);
+  const [rerunning, setRerunning] = useState<string[]>([]);
+  const { toast } = useToast();
+  const { canEdit } = useWorkspace();
+
+  const loadAnalyses = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE)
+      });
+      if (search.trim()) params.set('search', search.trim());
+      if (status !== 'all') params.set('status', status);
+
+      const response = await apiFetch(`http://localhost:3001/api/history?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load analyses');
+      }
+
+      const result = await response.json();
+      setAnalyses(result.analyses);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Analysis library error:', error);
+      toast({
+        title: "Could not load analyses",
+        description: error instanceof Error ? error.message : "An error occurred while loading analyses",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, status, toast]);
+
+  useEffect(() => {
+    loadAnalyses();
+  }, [loadAnalyses]);
+
+  // Native charts are stored as their evaluated data, which the dialog draws itself; Vega-Lite specs are shown as JSON
+  useEffect(() => {
+    setViewingSpecData(null);
+    setViewingVegaLite(null);
+    const format = viewing?.chart?.format;
+    if (!viewing?.chart || !JSON_FORMATS.includes(format || '')) return;
+
+    let cancelled = false;
+    apiFetch(chartUrl(viewing.chart, 'charts'))
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (cancelled || !data) return;
+        if (format === 'vega-lite') {
+          setViewingVegaLite(JSON.stringify(data, null, 2));
+        } else {
+          setViewingSpecData(data);
+        }
+      })
+      .catch(error => console.error('Failed to load chart data:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewing]);
+
+  const startRenaming = (analysis: AnalysisRecord) => {
+    setRenaming(analysis);
+    setRenameTitle(analysis.title);
+  };
+
+  const saveTitle = async () => {
+    if (!renaming) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/history/${renaming.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: renameTitle }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to rename analysis');
+      }
+
+      setRenaming(null);
+      loadAnalyses();
+    } catch (error) {
+      toast({
+        title: "Rename failed",
+        description: error instanceof Error ? error.message : "An error occurred while saving",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteAnalysis = async () => {
+    if (!deleting) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/history/${deleting.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete analysis');
+      }
+
+      toast({
+        title: "Analysis deleted",
+        description: `"${deleting.title}" and its chart were removed`,
+      });
+      loadAnalyses();
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "An error occurred while deleting",
+        variant: "destructive"
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  // The re-run is stored as a new analysis once its job finishes
+  const rerunAnalysis = async (analysis: AnalysisRecord) => {
+    setRerunning(current => [...current, analysis.id]);
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/history/${analysis.id}/rerun`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const submitted = await response.json();
+      if (!response.ok) {
+        throw new Error(submitted.error || 'Failed to re-run analysis');
+      }
+
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        const jobResponse = await apiFetch(`http://localhost:3001/api/analyze/jobs/${submitted.job.id}`);
+        const { job } = await jobResponse.json();
+        if (!jobResponse.ok || ['done', 'failed', 'cancelled'].includes(job.status)) {
+          toast({
+            title: job?.status === 'done' ? "Re-run complete" : "Re-run failed",
+            description: job?.status === 'done' ? `"${analysis.title}" was run again` : job?.error || 'The analysis did not finish',
+            variant: job?.status === 'done' ? undefined : "destructive"
+          });
+          break;
+        }
+      }
+      setPage(1);
+      loadAnalyses();
+    } catch (error) {
+      toast({
+        title: "Re-run failed",
+        description: error instanceof Error ? error.message : "An error occurred during analysis",
+        variant: "destructive"
+      });
+    } finally {
+      setRerunning(current => current.filter(id => id !== analysis.id));
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Analyses
+          </CardTitle>
+          <CardDescription>
+            {total} analys{total === 1 ? 'is' : 'es'} saved
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search titles, questions and datasets"
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+                className="pl-9"
+              />
+            </div>
+            <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!loading && analyses.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No analyses match your filters.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {analyses.map((analysis) => (
+            <Card key={analysis.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base truncate flex items-center gap-2">
+                      {analysis.title}
+                      {analysis.status === 'failed' && <Badge variant="destructive">failed</Badge>}
+                      {analysis.rerunOf && <Badge variant="secondary">re-run</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {analysis.datasetName} • {analysis.aiModel} • {analysis.outputFormat.toUpperCase()} • {new Date(analysis.createdAt).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setViewing(analysis)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      View
+                    </Button>
+                    {/* Viewers can only look; the other actions need the editor role */}
+                    {canEdit && analysis.status === 'done' && (
+                      <Button variant="outline" size="sm" onClick={() => setPinningId(analysis.id)}>
+                        <Pin className="h-4 w-4 mr-2" />
+                        Pin
+                      </Button>
+                    )}
+                    {canEdit && analysis.chart && (
+                      <Button variant="outline" size="sm" onClick={() => setSharing(analysis)}>
+                        <Share2 className="h-4 w-4 mr-2" />
+                        Share
+                      </Button>
+                    )}
+                    {canEdit && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => startRenaming(analysis)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Rename
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => rerunAnalysis(analysis)} disabled={rerunning.includes(analysis.id)}>
+                          <RotateCcw className={`h-4 w-4 mr-2 ${rerunning.includes(analysis.id) ? 'animate-spin' : ''}`} />
+                          Re-run
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDeleting(analysis)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              {analysis.title !== analysis.query && (
+                <CardContent>
+                  <p className="text-sm text-muted-foreground truncate">{analysis.query}</p>
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+        <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+          Next
+          <ChevronRight className="h-4 w-4 ml-2" />
+        </Button>
+      </div>
+
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.title}</DialogTitle>
+            <DialogDescription>
+              {viewing?.datasetName} • {viewing?.analysis?.visualizationType || viewing?.status}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-medium mb-2">Question</h4>
+                <p className="text-muted-foreground">{viewing.query}</p>
+              </div>
+              {viewing.error && (
+                <p className="text-sm text-destructive">{viewing.error}</p>
+              )}
+              {viewing.chart && (
+                <div className="space-y-2">
+                  {IMAGE_FORMATS.includes(viewing.chart.format) && (
+                    <img src={chartUrl(viewing.chart, 'charts')} alt={viewing.title} className="w-full rounded-lg border" />
+                  )}
+                  {viewingSpecData && <SpecChart data={viewingSpecData} />}
+                  {viewingVegaLite && (
+                    <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm max-h-80 overflow-y-auto">
+                      <code>{viewingVegaLite}</code>
+                    </pre>
+                  )}
+                  <div className="flex gap-2">
+                    {!JSON_FORMATS.includes(viewing.chart.format) && (
+                      <Button variant="outline" size="sm" onClick={() => window.open(chartUrl(viewing.chart!, 'charts'), '_blank')}>
+                        <Eye className="h-4 w-4 mr-2" />
+                        Open Chart
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={chartUrl(viewing.chart, 'download')}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                    {canEdit && (
+                      <Button variant="outline" size="sm" onClick={() => setExportingFile(viewing.chart!.path.split('/').pop() || null)}>
+                        <FileDown className="h-4 w-4 mr-2" />
+                        Export
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {viewing.analysis && (
+                <>
+                  <div>
+                    <h4 className="font-medium mb-2">AI Analysis</h4>
+                    <p className="text-muted-foreground">{viewing.analysis.analysis}</p>
+                  </div>
+                  <div>
+                    <h4 className="font-medium mb-2">Visualization Explanation</h4>
+                    <p className="text-muted-foreground">{viewing.analysis.explanation}</p>
+                  </div>
+                  <div>
+                    <h4 className="font-medium mb-2">{viewing.analysis.chartSpec ? 'Chart Spec' : 'Python Code'}</h4>
+                    <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm">
+                      <code>
+                        {viewing.analysis.chartSpec ? JSON.stringify(viewing.analysis.chartSpec, null, 2) : viewing.analysis.pythonCode}
+                      </code>
+                    </pre>
+                  </div>
+                </>
+              )}
+              {viewing.output && (
+                <div>
+                  <h4 className="font-medium mb-2">Output</h4>
+                  <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm font-mono max-h-64 overflow-y-auto">
+                    {viewing.output}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename analysis</DialogTitle>
+            <DialogDescription>{renaming?.query}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Title</label>
+            <Input value={renameTitle} onChange={(e) => setRenameTitle(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button onClick={saveTitle} disabled={!renameTitle.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ChartExportDialog filename={exportingFile} onClose={() => setExportingFile(null)} />
+
+      <PinToDashboardDialog analysisId={pinningId} onClose={() => setPinningId(null)} />
+
+      <ShareLinkDialog
+        type="chart"
+        targetId={sharing?.id || null}
+        title={sharing?.title || ''}
+        onOpenChange={(open) => !open && setSharing(null)}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.title}" and its chart file will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteAnalysis}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AnalysisLibrary;
@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Library, Search, Pencil, Play, Upload, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import { apiFetch } from '@/lib/api';
+
+interface DatasetInfo {
+  id: string;
+  filename: string;
+  originalName: string;
+  columns: string[];
+  dataTypes: Record<string, string>;
+  rowCount: number;
+  sampleData: unknown[];
+  filePath: string;
+  uploadTime: string;
+  fileSize: number;
+  displayName?: string;
+  description?: string;
+  tags?: string[];
+  version?: number;
+}
+
+interface DatasetLibraryProps {
+  onOpenDataset: (datasetInfo: DatasetInfo) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const sortOptions = [
+  { id: 'uploadTime:desc', name: 'Newest first' },
+  { id: 'uploadTime:asc', name: 'Oldest first' },
+  { id: 'fileSize:desc', name: 'Largest first' },
+  { id: 'fileSize:asc', name: 'Smallest first' }
+];
+
+const DatasetLibrary = ({ onOpenDataset }: DatasetLibraryProps) => {
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [nameFilter, setNameFilter] = useState('');
+  const [columnFilter, setColumnFilter] = useState('');
+  const [sort, setSort] = useState('uploadTime:desc');
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<DatasetInfo | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [replacing, setReplacing] = useState<DatasetInfo | null>(null);
+  const versionInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { canEdit } = useWorkspace();
+
+  const loadDatasets = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const [sortBy, sortOrder] = sort.split(':');
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+        sortBy,
+        sortOrder
+      });
+      if (nameFilter.trim()) params.set('name', nameFilter.trim());
+      if (columnFilter.trim()) params.set('column', columnFilter.trim());
+
+      const response = await apiFetch(`http://localhost:3001/api/upload?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load datasets');
+      }
+
+      const result = await response.json();
+      setDatasets(result.datasets);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Library error:', error);
+      toast({
+        title: "Could not load library",
+        description: error instanceof Error ? error.message : "An error occurred while loading datasets",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, sort, nameFilter, columnFilter, toast]);
+
+  useEffect(() => {
+    loadDatasets();
+  }, [loadDatasets]);
+
+  const startEditing = (dataset: DatasetInfo) => {
+    setEditing(dataset);
+    setEditName(dataset.displayName || dataset.originalName);
+    setEditDescription(dataset.description || '');
+    setEditTags((dataset.tags || []).join(', '));
+  };
+
+  const saveMetadata = async () => {
+    if (!editing) return;
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/upload/${editing.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          displayName: editName,
+          description: editDescription,
+          tags: editTags.split(',').map(tag => tag.trim()).filter(Boolean)
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update dataset');
+      }
+
+      setEditing(null);
+      toast({
+        title: "Dataset updated",
+        description: "Name, description and tags saved",
+      });
+      loadDatasets();
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "An error occurred while saving",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const chooseVersionFile = (dataset: DatasetInfo) => {
+    setReplacing(dataset);
+    versionInput.current?.click();
+  };
+
+  // Uploads the file as the dataset's next version; dashboard tiles pick it up on their next refresh
+  const uploadVersion = async (file: File) => {
+    if (!replacing) return;
+
+    try {
+      const formData = new FormData();
+      formData.append('dataset', file);
+      formData.append('replaces', replacing.id);
+
+      const response = await apiFetch('http://localhost:3001/api/upload', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Upload failed');
+      }
+
+      toast({
+        title: "New version uploaded",
+        description: `Version ${result.dataset.version} of "${replacing.displayName || replacing.originalName}" has ${result.dataset.rowCount} rows`,
+      });
+      loadDatasets();
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "An error occurred during upload",
+        variant: "destructive"
+      });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            Library
+          </CardTitle>
+          <CardDescription>
+            {total} dataset{total === 1 ? '' : 's'} uploaded
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter by name"
+                value={nameFilter}
+                onChange={(e) => { setNameFilter(e.target.value); setPage(1); }}
+                className="pl-9"
+              />
+            </div>
+            <Input
+              placeholder="Filter by column name"
+              value={columnFilter}
+              onChange={(e) => { setColumnFilter(e.target.value); setPage(1); }}
+            />
+            <Select value={sort} onValueChange={(value) => { setSort(value); setPage(1); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!loading && datasets.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          <Library className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No datasets match your filters.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {datasets.map((dataset) => (
+            <Card key={dataset.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base truncate">
+                      {dataset.displayName || dataset.originalName}
+                      {dataset.version && <Badge variant="outline" className="ml-2">v{dataset.version}</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {dataset.rowCount} rows • {dataset.columns.length} columns • {(dataset.fileSize / (1024 * 1024)).toFixed(2)} MB • {new Date(dataset.uploadTime).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  {/* Editing and analyzing need the editor role */}
+                  {canEdit && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => startEditing(dataset)}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => chooseVersionFile(dataset)}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        New version
+                      </Button>
+                      <Button size="sm" onClick={() => onOpenDataset(dataset)}>
+                        <Play className="h-4 w-4 mr-2" />
+                        Analyze
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              {(dataset.description || (dataset.tags && dataset.tags.length > 0)) && (
+                <CardContent className="space-y-2">
+                  {dataset.description && (
+                    <p className="text-sm text-muted-foreground">{dataset.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {(dataset.tags || []).map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+        <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+          Next
+          <ChevronRight className="h-4 w-4 ml-2" />
+        </Button>
+      </div>
+
+      <input
+        ref={versionInput}
+        type="file"
+        accept=".csv,.tsv,.xlsx,.xls,.json,.jsonl,.ndjson,.parquet"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) uploadVersion(file);
+        }}
+      />
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit dataset</DialogTitle>
+            <DialogDescription>{editing?.originalName}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Display name</label>
+              <Input value={editName} onChange={(e) => setEditName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Description</label>
+              <Textarea value={editDescription} onChange={(e) => setEditDescription(e.target.value)} rows={3} className="resize-none" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Tags</label>
+              <Input placeholder="finance, quarterly" value={editTags} onChange={(e) => setEditTags(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveMetadata}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DatasetLibrary;
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Search, Download, Trash2, ArrowUp, ArrowDown, X, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import { apiFetch } from '@/lib/api';
+
+interface AnalysisSummary {
+  id: string;
+  title: string;
+  datasetName: string;
+  status: 'done' | 'failed';
+  createdAt: string;
+}
+
+interface Report {
+  id: string;
+  title: string;
+  format: 'pdf' | 'pptx';
+  analysisIds: string[];
+  size: number;
+  createdAt: string;
+  downloadUrl: string;
+}
+
+// The history endpoint's largest page; older analyses are found by searching
+const MAX_CANDIDATES = 100;
+const MAX_SELECTED = 50;
+
+const reportFormats = [
+  { id: 'pdf', name: 'PDF Document' },
+  { id: 'pptx', name: 'PowerPoint Presentation' }
+];
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.round(bytes / 1024)} KB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ReportBuilder = () => {
+  const [candidates, setCandidates] = useState<AnalysisSummary[]>([]);
+  const [search, setSearch] = useState('');
+  // In report order, which is the order they were picked in unless moved
+  const [selected, setSelected] = useState<AnalysisSummary[]>([]);
+  const [title, setTitle] = useState('Analysis report');
+  const [format, setFormat] = useState('pdf');
+  const [generating, setGenerating] = useState(false);
+  const [reports, setReports] = useState<Report[]>([]);
+  const { toast } = useToast();
+  const { canEdit } = useWorkspace();
+
+  const loadCandidates = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: '1', pageSize: String(MAX_CANDIDATES) });
+      if (search.trim()) params.set('search', search.trim());
+
+      const response = await apiFetch(`http://localhost:3001/api/history?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load analyses');
+      }
+
+      const result = await response.json();
+      setCandidates(result.analyses);
+    } catch (error) {
+      console.error('Report analyses error:', error);
+      toast({
+        title: "Could not load analyses",
+        description: error instanceof Error ? error.message : "An error occurred while loading analyses",
+        variant: "destructive"
+      });
+    }
+  }, [search, toast]);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const response = await apiFetch('http://localhost:3001/api/reports');
+      if (!response.ok) {
+        throw new Error('Failed to load reports');
+      }
+
+      const result = await response.json();
+      setReports(result.reports);
+    } catch (error) {
+      console.error('Report list error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const toggleAnalysis = (analysis: AnalysisSummary) => {
+    setSelected(current => current.some(item => item.id === analysis.id)
+      ? current.filter(item => item.id !== analysis.id)
+      : [...current, analysis]);
+  };
+
+  const moveAnalysis = (index: number, offset: number) => {
+    setSelected(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const generateReport = async () => {
+    setGenerating(true);
+    try {
+      const response = await apiFetch('http://localhost:3001/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: title.trim() || undefined,
+          format,
+          analysisIds: selected.map(analysis => analysis.id)
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Failed to generate report');
+      }
+
+      toast({
+        title: "Report ready",
+        description: `"${result.report.title}" is listed under Generated reports`,
+      });
+      loadReports();
+    } catch (error) {
+      toast({
+        title: "Report failed",
+        description: error instanceof Error ? error.message : "An error occurred while generating the report",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const deleteReport = async (report: Report) => {
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/reports/${report.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete report');
+      }
+      loadReports();
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "An error occurred while deleting",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isSelected = (analysis: AnalysisSummary) => selected.some(item => item.id === analysis.id);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            New report
+          </CardTitle>
+          <CardDescription>
+            Pick analyses to include. The report opens with a title page, a table of contents and a summary of each dataset.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_240px] gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Title</label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Format</label>
+              <Select value={format} onValueChange={setFormat}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportFormats.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h4 className="font-medium">Analyses</h4>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search titles, questions and datasets"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+                {candidates.length === 0 ? (
+                  <p className="p-4 text-sm text-muted-foreground">No analyses match your search.</p>
+                ) : candidates.map(analysis => (
+                  <label key={analysis.id} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-muted/50">
+                    <Checkbox
+                      checked={isSelected(analysis)}
+                      onCheckedChange={() => toggleAnalysis(analysis)}
+                      disabled={!isSelected(analysis) && selected.length >= MAX_SELECTED}
+                      className="mt-0.5"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate flex items-center gap-2">
+                        {analysis.title}
+                        {analysis.status === 'failed' && <Badge variant="destructive">failed</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {analysis.datasetName} • {new Date(analysis.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-medium">In this report ({selected.length})</h4>
+              {selected.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Selected analyses appear here in report order.</p>
+              ) : (
+                <ol className="border rounded-lg divide-y">
+                  {selected.map((analysis, index) => (
+                    <li key={analysis.id} className="flex items-center gap-2 p-3">
+                      <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                      <span className="text-sm flex-1 truncate">{analysis.title}</span>
+                      <Button variant="ghost" size="icon" aria-label="Move up" onClick={() => moveAnalysis(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Move down" onClick={() => moveAnalysis(index, 1)} disabled={index === selected.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Remove" onClick={() => toggleAnalysis(analysis)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <Button className="w-full" onClick={generateReport} disabled={!canEdit || generating || selected.length === 0}>
+                {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                {generating ? 'Generating report...' : `Generate ${format.toUpperCase()}`}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Generated reports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reports yet.</p>
+          ) : (
+            <div className="divide-y">
+              {reports.map(report => (
+                <div key={report.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{report.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.format.toUpperCase()} • {report.analysisIds.length} analys{report.analysisIds.length === 1 ? 'is' : 'es'} • {formatSize(report.size)} • {new Date(report.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`http://localhost:3001${report.downloadUrl}`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                    {canEdit && (
+                      <Button variant="outline" size="sm" aria-label="Delete report" onClick={() => deleteReport(report)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReportBuilder;
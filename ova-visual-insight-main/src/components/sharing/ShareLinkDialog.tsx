@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Link2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+interface ShareLink {
+  id: string;
+  expiresAt: string;
+  createdAt: string;
+  sharePath: string;
+}
+
+interface ShareLinkDialogProps {
+  // A chart is shared through the analysis that drew it
+  type: 'chart' | 'dashboard';
+  targetId: string | null;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const expiryOptions = [
+  { hours: 24, name: '1 day' },
+  { hours: 72, name: '3 days' },
+  { hours: 168, name: '7 days' },
+  { hours: 720, name: '30 days' }
+];
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}${link.sharePath}`;
+
+// Read-only links for people without an account; anyone holding one can open the item until it expires or is revoked
+const ShareLinkDialog = ({ type, targetId, title, onOpenChange }: ShareLinkDialogProps) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState('72');
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadLinks = useCallback(async () => {
+    if (!targetId) return;
+
+    try {
+      const params = new URLSearchParams({ type, targetId });
+      const response = await apiFetch(`http://localhost:3001/api/shares?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load share links');
+      }
+      setLinks(result.links);
+    } catch (error) {
+      showError("Could not load share links", error);
+    }
+  }, [type, targetId, showError]);
+
+  useEffect(() => {
+    setLinks([]);
+    loadLinks();
+  }, [loadLinks]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link));
+      toast({ title: "Link copied", description: "Anyone with the link can view it until it expires" });
+    } catch (error) {
+      showError("Could not copy the link", error);
+    }
+  };
+
+  const createLink = async () => {
+    setCreating(true);
+    try {
+      const response = await apiFetch('http://localhost:3001/api/shares', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type, targetId, expiresInHours: Number(expiresInHours) })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create share link');
+      }
+
+      setLinks(current => [result.link, ...current]);
+      await copyLink(result.link);
+    } catch (error) {
+      showError("Could not create the share link", error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeLink = async (link: ShareLink) => {
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/shares/${link.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to revoke share link');
+      }
+      setLinks(current => current.filter(item => item.id !== link.id));
+    } catch (error) {
+      showError("Could not revoke the link", error);
+    }
+  };
+
+  return (
+    <Dialog open={!!targetId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{title}"</DialogTitle>
+          <DialogDescription>
+            Send a read-only link to people without an account. It stops working when it expires or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active links.</p>
+          ) : links.map(link => (
+            <div key={link.id} className="flex items-center gap-2 rounded-md border p-2">
+              <div className="min-w-0 flex-1 space-y-1">
+                <Input readOnly value={shareUrl(link)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                <p className="text-xs text-muted-foreground">Expires {new Date(link.expiresAt).toLocaleString()}</p>
+              </div>
+              <Button variant="ghost" size="icon" aria-label="Copy link" onClick={() => copyLink(link)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Revoke link" onClick={() => revokeLink(link)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+            <SelectTrigger className="sm:w-40" aria-label="Link expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {expiryOptions.map(option => (
+                <SelectItem key={option.hours} value={String(option.hours)}>Expires in {option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={createLink} disabled={creating}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Create link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareLinkDialog;
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { UserPlus, Trash2, LogOut } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useWorkspace, WorkspaceRole } from '@/hooks/use-workspace';
+import { apiFetch } from '@/lib/api';
+
+interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  email: string;
+  name: string;
+}
+
+interface WorkspaceMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const roleOptions: { id: WorkspaceRole; name: string }[] = [
+  { id: 'owner', name: 'Owner' },
+  { id: 'editor', name: 'Editor' },
+  { id: 'viewer', name: 'Viewer' }
+];
+
+// Owners add people by email and change their roles; everyone else can see who is in the workspace and leave it
+const WorkspaceMembersDialog = ({ open, onOpenChange }: WorkspaceMembersDialogProps) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('viewer');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { current, reloadWorkspaces } = useWorkspace();
+  const { toast } = useToast();
+  const isOwner = current.role === 'owner';
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await apiFetch(`http://localhost:3001/api/workspaces/${current.id}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details ? `${result.error}: ${result.details}` : result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/workspaces/${current.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load members');
+      }
+      const result = await response.json();
+      setMembers(result.workspace.members);
+    } catch (error) {
+      showError("Could not load members", error);
+    }
+  }, [current.id, showError]);
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, loadMembers]);
+
+  const addMember = async () => {
+    setSaving(true);
+    try {
+      const result = await request('/members', { method: 'POST', body: JSON.stringify({ email: email.trim(), role }) });
+      setMembers(result.workspace.members);
+      setEmail('');
+      toast({ title: "Member added", description: `${email.trim()} can now open "${current.name}"` });
+    } catch (error) {
+      showError("Could not add the member", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeRole = async (member: WorkspaceMember, newRole: WorkspaceRole) => {
+    try {
+      const result = await request(`/members/${member.userId}`, { method: 'PATCH', body: JSON.stringify({ role: newRole }) });
+      setMembers(result.workspace.members);
+      if (member.userId === user.id) {
+        await reloadWorkspaces(current.id);
+      }
+    } catch (error) {
+      showError("Could not change the role", error);
+    }
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    try {
+      const result = await request(`/members/${member.userId}`, { method: 'DELETE' });
+      if (member.userId === user.id) {
+        onOpenChange(false);
+        toast({ title: "Left workspace", description: `You are no longer a member of "${current.name}"` });
+        await reloadWorkspaces();
+      } else {
+        setMembers(result.workspace.members);
+      }
+    } catch (error) {
+      showError("Could not remove the member", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{current.name}</DialogTitle>
+          <DialogDescription>
+            {current.personal
+              ? 'Your personal workspace is only visible to you. Create a workspace to work with others.'
+              : 'Owners manage members. Editors upload, analyze and share. Viewers can browse results but not change anything.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {members.map(member => (
+            <div key={member.userId} className="flex items-center gap-3 rounded-md border p-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">
+                  {member.name}
+                  {member.userId === user.id && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+              </div>
+              {isOwner && !current.personal ? (
+                <Select value={member.role} onValueChange={(value) => changeRole(member, value as WorkspaceRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roleOptions.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+              )}
+              {!current.personal && (isOwner || member.userId === user.id) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={member.userId === user.id ? 'Leave workspace' : `Remove ${member.name}`}
+                  onClick={() => removeMember(member)}
+                >
+                  {member.userId === user.id ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && !current.personal && (
+          <DialogFooter className="flex-col gap-2 sm:flex-row">
+            <Input
+              type="email"
+              placeholder="Email of an existing account"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && email.trim() && addMember()}
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="sm:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roleOptions.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addMember} disabled={!email.trim() || saving}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceMembersDialog;
@@ -0,0 +1,75 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Workspace, WorkspaceContext } from '@/hooks/use-workspace';
+import { apiFetch, getWorkspaceId, setWorkspaceId } from '@/lib/api';
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+// Loads the user's workspaces and keeps the selected one; a saved selection the user lost access to falls back to personal
+const WorkspaceProvider = ({ children }: WorkspaceProviderProps) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [currentId, setCurrentId] = useState<string | null>(getWorkspaceId());
+  const [failed, setFailed] = useState(false);
+
+  const reloadWorkspaces = useCallback(async (selectId?: string) => {
+    try {
+      const response = await apiFetch('http://localhost:3001/api/workspaces');
+      if (!response.ok) {
+        throw new Error('Failed to load workspaces');
+      }
+
+      const result = await response.json();
+      const loaded: Workspace[] = result.workspaces;
+      const wanted = selectId || getWorkspaceId();
+      const selected = loaded.find(workspace => workspace.id === wanted) || loaded.find(workspace => workspace.personal) || loaded[0];
+      setWorkspaceId(selected.id);
+      setCurrentId(selected.id);
+      setWorkspaces(loaded);
+      setFailed(false);
+    } catch (error) {
+      console.error('Workspace loading error:', error);
+      setFailed(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    reloadWorkspaces();
+  }, [reloadWorkspaces]);
+
+  const switchWorkspace = useCallback((id: string) => {
+    setWorkspaceId(id);
+    setCurrentId(id);
+  }, []);
+
+  const current = workspaces?.find(workspace => workspace.id === currentId);
+
+  if (failed) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Could not load your workspaces.</p>
+        <Button variant="outline" onClick={() => reloadWorkspaces()}>Try again</Button>
+      </div>
+    );
+  }
+
+  if (!workspaces || !current) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <WorkspaceContext.Provider
+      value={{ workspaces, current, canEdit: current.role !== 'viewer', switchWorkspace, reloadWorkspaces }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export default WorkspaceProvider;
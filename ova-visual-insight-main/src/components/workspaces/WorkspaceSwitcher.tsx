@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/use-workspace';
+import WorkspaceMembersDialog from '@/components/workspaces/WorkspaceMembersDialog';
+import { apiFetch } from '@/lib/api';
+
+// Picked in place of a workspace id to open the "new workspace" dialog
+const NEW_WORKSPACE = '__new__';
+
+const WorkspaceSwitcher = () => {
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [managing, setManaging] = useState(false);
+  const { workspaces, current, switchWorkspace, reloadWorkspaces } = useWorkspace();
+  const { toast } = useToast();
+
+  const createWorkspace = async () => {
+    try {
+      const response = await apiFetch('http://localhost:3001/api/workspaces', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newName.trim() })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create workspace');
+      }
+
+      await reloadWorkspaces(result.workspace.id);
+      setCreating(false);
+      setNewName('');
+      toast({ title: "Workspace created", description: `Add members to share "${result.workspace.name}"` });
+    } catch (error) {
+      toast({
+        title: "Could not create the workspace",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={current.id} onValueChange={(id) => id === NEW_WORKSPACE ? setCreating(true) : switchWorkspace(id)}>
+        <SelectTrigger className="w-48" aria-label="Workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map(workspace => (
+            <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE}>New workspace…</SelectItem>
+        </SelectContent>
+      </Select>
+      <Badge variant="outline" className="capitalize">{current.role}</Badge>
+      <Button variant="ghost" size="icon" aria-label="Workspace members" onClick={() => setManaging(true)}>
+        <Users className="h-4 w-4" />
+      </Button>
+
+      <WorkspaceMembersDialog open={managing} onOpenChange={setManaging} />
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              Datasets, analyses and dashboards created in it are shared with the members you add.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="Workspace name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && newName.trim() && createWorkspace()}
+            maxLength={100}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button onClick={createWorkspace} disabled={!newName.trim()}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
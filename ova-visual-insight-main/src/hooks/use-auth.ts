@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react"
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string
+  createdAt: string
+}
+
+interface AuthContextValue {
+  user: AuthUser
+  logout: () => Promise<void>
+}
+
+// Provided by AuthGate, which only renders the app once someone is signed in
+export const AuthContext = createContext<AuthContextValue | null>(null)
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within AuthGate")
+  }
+  return context
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react"
+
+export type WorkspaceRole = "owner" | "editor" | "viewer"
+
+export interface Workspace {
+  id: string
+  name: string
+  personal: boolean
+  role: WorkspaceRole
+}
+
+interface WorkspaceContextValue {
+  workspaces: Workspace[]
+  current: Workspace
+  // Editors and owners can upload, analyze, change and share; viewers only browse
+  canEdit: boolean
+  switchWorkspace: (id: string) => void
+  reloadWorkspaces: (selectId?: string) => Promise<void>
+}
+
+// Provided by WorkspaceProvider, which only renders the app once the workspaces are loaded
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null)
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext)
+  if (!context) {
+    throw new Error("useWorkspace must be used within WorkspaceProvider")
+  }
+  return context
+}
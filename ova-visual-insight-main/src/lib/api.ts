@@ -0,0 +1,63 @@
+// The session lives in httpOnly cookies set by the backend, so requests only need to send credentials.
+// A request answered with 401 refreshes the session once and is retried; if that fails the user has to sign in again.
+// Requests also name the selected workspace, which is where lists are read from and new records go.
+
+const REFRESH_URL = 'http://localhost:3001/api/auth/refresh';
+// Routes that answer 401 for a wrong password or token rather than an expired session
+const NO_REFRESH_ROUTES = ['/api/auth/login', '/api/auth/signup', '/api/auth/refresh', '/api/auth/logout'];
+
+const WORKSPACE_STORAGE_KEY = 'ova-workspace';
+
+let refreshing: Promise<boolean> | null = null;
+const expiredListeners = new Set<() => void>();
+
+// Concurrent 401s share one refresh, since each refresh token can only be used once
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshing) {
+    refreshing = fetch(REFRESH_URL, { method: 'POST', credentials: 'include' })
+      .then(response => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+export const getWorkspaceId = (): string | null => localStorage.getItem(WORKSPACE_STORAGE_KEY);
+
+// Without a workspace the backend uses the user's personal one
+export const setWorkspaceId = (workspaceId: string | null) => {
+  if (workspaceId) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+};
+
+export const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const workspaceId = getWorkspaceId();
+  if (workspaceId) {
+    headers.set('X-Workspace-Id', workspaceId);
+  }
+  const send = () => fetch(url, { ...init, headers, credentials: 'include' });
+
+  const response = await send();
+  if (response.status !== 401 || NO_REFRESH_ROUTES.some(route => url.endsWith(route))) {
+    return response;
+  }
+  if (!(await refreshSession())) {
+    expiredListeners.forEach(listener => listener());
+    return response;
+  }
+  return send();
+};
+
+// Called when the session can no longer be refreshed; returns the unsubscribe function
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
@@ -1,8 +1,19 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import OvaSidebar from "@/components/layout/OvaSidebar";
 import OvaHero from "@/components/home/OvaHero";
 import FileUpload from "@/components/home/FileUpload";
 import DataAnalysis from "@/components/home/DataAnalysis";
+import DatasetLibrary from "@/components/library/DatasetLibrary";
+import AnalysisLibrary from "@/components/library/AnalysisLibrary";
+import ReportBuilder from "@/components/reports/ReportBuilder";
+import Dashboards from "@/components/dashboards/Dashboards";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import WorkspaceSwitcher from "@/components/workspaces/WorkspaceSwitcher";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { Eye, LogOut } from "lucide-react";
 
 interface DatasetInfo {
   id: string;
@@ -13,38 +24,102 @@ interface DatasetInfo {
   rowCount: number;
   sampleData: any[];
   filePath: string;
-  uploadTime: Date;
+  uploadTime: string;
   fileSize: number;
+  displayName?: string;
+  description?: string;
+  tags?: string[];
+  sheetName?: string;
 }
 
+type View = "home" | "library" | "dashboards" | "reports";
+
 const Index = () => {
   const [currentDataset, setCurrentDataset] = useState<DatasetInfo | null>(null);
+  const [view, setView] = useState<View>("home");
+  const { user, logout } = useAuth();
+  const { current, canEdit } = useWorkspace();
+
+  // An open dataset belongs to the workspace that was selected before
+  useEffect(() => {
+    setCurrentDataset(null);
+  }, [current.id]);
 
   const handleDatasetUploaded = (datasetInfo: DatasetInfo) => {
     setCurrentDataset(datasetInfo);
+    setView("home");
   };
 
   const handleNewAnalysis = () => {
     setCurrentDataset(null);
+    setView("home");
+  };
+
+  const handleOpenLibrary = () => {
+    setView("library");
+  };
+
+  const handleOpenDashboards = () => {
+    setView("dashboards");
+  };
+
+  const handleOpenReports = () => {
+    setView("reports");
   };
 
   return (
     <div className="min-h-screen grid grid-cols-1 md:grid-cols-[260px_1fr]">
-      <OvaSidebar onNewAnalysis={handleNewAnalysis} />
+      <OvaSidebar onNewAnalysis={handleNewAnalysis} onOpenLibrary={handleOpenLibrary} onOpenDashboards={handleOpenDashboards} onOpenReports={handleOpenReports} />
       <main className="flex flex-col">
         <header className="h-16 border-b flex items-center justify-between px-4">
           <div className="font-semibold tracking-tight">O.V.A — AI Data Analyst</div>
-          <a href="#upgrade" className="text-sm text-muted-foreground hover:text-foreground transition-colors">Upgrade your plan</a>
+          <div className="flex items-center gap-4">
+            <WorkspaceSwitcher />
+            <a href="#upgrade" className="text-sm text-muted-foreground hover:text-foreground transition-colors">Upgrade your plan</a>
+            <span className="text-sm text-muted-foreground" title={user.email}>{user.name}</span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Log out
+            </Button>
+          </div>
         </header>
         
-        <div className="flex-1 p-6">
-          {!currentDataset ? (
+        {/* Keyed by the workspace, so every view loads its lists again after switching */}
+        <div key={current.id} className="flex-1 p-6">
+          {view === "dashboards" ? (
+            <Dashboards />
+          ) : view === "reports" ? (
+            <ReportBuilder />
+          ) : view === "library" ? (
+            <Tabs defaultValue="analyses" className="space-y-6">
+              <TabsList>
+                <TabsTrigger value="analyses">Analyses</TabsTrigger>
+                <TabsTrigger value="datasets">Datasets</TabsTrigger>
+              </TabsList>
+              <TabsContent value="analyses">
+                <AnalysisLibrary />
+              </TabsContent>
+              <TabsContent value="datasets">
+                <DatasetLibrary onOpenDataset={handleDatasetUploaded} />
+              </TabsContent>
+            </Tabs>
+          ) : !currentDataset ? (
             <div className="space-y-8">
               <OvaHero />
-              <FileUpload onDatasetUploaded={handleDatasetUploaded} />
+              {canEdit ? (
+                <FileUpload onDatasetUploaded={handleDatasetUploaded} />
+              ) : (
+                <Alert className="max-w-2xl mx-auto">
+                  <Eye className="h-4 w-4" />
+                  <AlertTitle>View-only access</AlertTitle>
+                  <AlertDescription>
+                    You are a viewer in "{current.name}". Browse its analyses in the Library and its dashboards; ask an owner for the editor role to upload data or run analyses.
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           ) : (
-            <DataAnalysis datasetInfo={currentDataset} />
+            <DataAnalysis datasetInfo={currentDataset} onDatasetChange={setCurrentDataset} />
           )}
         </div>
 
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, LinkIcon } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import SpecChart, { ChartSpecData } from '@/components/home/SpecChart';
+import DashboardTileCard, { DashboardTile } from '@/components/dashboards/DashboardTileCard';
+
+interface SharedChart {
+  title: string;
+  query: string;
+  datasetName: string;
+  explanation?: string;
+  format: string;
+  chartUrl: string;
+  createdAt: string;
+}
+
+interface SharedDashboard {
+  name: string;
+  layout: { size: number; tiles: { tileId: string; size: number }[] }[];
+  tiles: DashboardTile[];
+  updatedAt: string;
+}
+
+interface SharedItem {
+  type: 'chart' | 'dashboard';
+  expiresAt: string;
+  chart?: SharedChart;
+  dashboard?: SharedDashboard;
+}
+
+const ROW_HEIGHT = 380;
+const IMAGE_FORMATS = ['png', 'jpg', 'svg'];
+
+// A chart or dashboard opened from a share link; there is no session, the token in the URL grants read-only access
+const SharedView = () => {
+  const { token } = useParams<{ token: string }>();
+  const [item, setItem] = useState<SharedItem | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [chartData, setChartData] = useState<ChartSpecData | null>(null);
+  const [vegaLite, setVegaLite] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`http://localhost:3001/api/public/shares/${token}`)
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.details ? `${result.error}. ${result.details}.` : result.error || 'This link does not work');
+        }
+        setItem(result);
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'This link does not work'));
+  }, [token]);
+
+  // Native and Vega-Lite charts are stored as JSON, like in the Library
+  useEffect(() => {
+    const chart = item?.chart;
+    if (!chart || !['chart-spec', 'vega-lite'].includes(chart.format)) return;
+
+    fetch(`http://localhost:3001${chart.chartUrl}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return;
+        if (chart.format === 'vega-lite') {
+          setVegaLite(JSON.stringify(data, null, 2));
+        } else {
+          setChartData(data);
+        }
+      })
+      .catch(chartError => console.error('Failed to load shared chart:', chartError));
+  }, [item]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-2">
+          <LinkIcon className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="text-xl">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const tilesById = new Map(item.dashboard?.tiles.map(tile => [tile.id, tile]));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-16 border-b flex items-center justify-between px-6">
+        <div className="font-semibold tracking-tight">O.V.A — Shared {item.type}</div>
+        <span className="text-sm text-muted-foreground">Link expires {new Date(item.expiresAt).toLocaleString()}</span>
+      </header>
+
+      <main className="p-6 space-y-6">
+        {item.chart && (
+          <Card className="max-w-4xl mx-auto">
+            <CardHeader>
+              <CardTitle>{item.chart.title}</CardTitle>
+              <CardDescription>
+                {item.chart.datasetName} • {new Date(item.chart.createdAt).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {item.chart.title !== item.chart.query && <p className="text-sm text-muted-foreground">{item.chart.query}</p>}
+              {IMAGE_FORMATS.includes(item.chart.format) && (
+                <img src={`http://localhost:3001${item.chart.chartUrl}`} alt={item.chart.title} className="w-full rounded-lg border" />
+              )}
+              {chartData && <SpecChart data={chartData} />}
+              {vegaLite && (
+                <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm max-h-96 overflow-y-auto">{vegaLite}</pre>
+              )}
+              {item.chart.format === 'html' && (
+                <Button variant="outline" onClick={() => window.open(`http://localhost:3001${item.chart!.chartUrl}`, '_blank')}>
+                  Open interactive chart
+                </Button>
+              )}
+              {item.chart.explanation && <p className="text-muted-foreground">{item.chart.explanation}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {item.dashboard && (
+          <>
+            <div>
+              <h1 className="text-2xl font-semibold">{item.dashboard.name}</h1>
+              <p className="text-sm text-muted-foreground">Updated {new Date(item.dashboard.updatedAt).toLocaleString()}</p>
+            </div>
+            {item.dashboard.layout.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">This dashboard is empty.</p>
+            ) : (
+              <div className="flex flex-col" style={{ height: item.dashboard.layout.length * ROW_HEIGHT }}>
+                {item.dashboard.layout.map(row => (
+                  <div key={row.tiles.map(tile => tile.tileId).join(':')} className="flex" style={{ height: `${row.size}%` }}>
+                    {row.tiles.map(placed => {
+                      const tile = tilesById.get(placed.tileId);
+                      return (
+                        <div key={placed.tileId} className="h-full p-1.5" style={{ width: `${placed.size}%` }}>
+                          {tile && <DashboardTileCard tile={tile} />}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedView;